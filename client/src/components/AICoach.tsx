@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { coachMessageQueryKey } from '@/lib/activity';
 
 interface CoachMessage {
   message: string;
@@ -19,7 +20,7 @@ const AICoach: React.FC = () => {
     isLoading: isCoachLoading, 
     isError: isCoachError 
   } = useQuery<CoachMessage>({
-    queryKey: ['/api/coach/message'],
+    queryKey: coachMessageQueryKey,
     staleTime: 5 * 60 * 1000,  // Cache for 5 minutes
     refetchOnWindowFocus: false
   });
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from "react";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Textarea } from "@/components/ui/textarea";
@@ -16,6 +16,27 @@ interface Message {
   timestamp: Date;
   type?: "task-suggestion" | "encouragement" | "question" | "task-creation" | "general";
   relatedTasks?: string[];
+  actions?: CoachAction[];
+}
+
+// A change the coach made, tried to make, or proposed in response to a message
+interface CoachAction {
+  tool: string;
+  status: "applied" | "failed" | "proposed" | "rejected";
+  summary: string;
+  error?: string;
+  proposalId?: string; // Set when the action waits for the user's approval
+}
+
+interface StoredConversation {
+  id: number;
+  messages: Array<{
+    id: number;
+    role: "user" | "assistant";
+    content: string;
+    type?: Message["type"] | null;
+    createdAt: string;
+  }>;
 }
 
 interface ChatInterfaceProps {
@@ -32,19 +53,67 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const messageEndRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "welcome",
-      content: initialMessage,
-      sender: "coach",
-      timestamp: new Date(),
-      type: "general"
-    }
-  ]);
+  const welcomeMessage: Message = {
+    id: "welcome",
+    content: initialMessage,
+    sender: "coach",
+    timestamp: new Date(),
+    type: "general"
+  };
+  
+  const [messages, setMessages] = useState<Message[]>([welcomeMessage]);
+  const [conversationId, setConversationId] = useState<number | undefined>(undefined);
   
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
 
+  // Resume the stored conversation for this goal (or the general one) when the goal changes
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    
+    const loadConversation = async () => {
+      try {
+        const listResponse = await apiRequest(
+          "GET", 
+          `/api/coach/conversations?goalId=${goalId ?? "none"}`
+        );
+        const conversations: Array<{ id: number }> = await listResponse.json();
+        
+        if (conversations.length === 0) {
+          if (!cancelled) {
+            setConversationId(undefined);
+            setMessages([welcomeMessage]);
+          }
+          return;
+        }
+        
+        const response = await apiRequest("GET", `/api/coach/conversations/${conversations[0].id}`);
+        const conversation: StoredConversation = await response.json();
+        if (cancelled) return;
+        
+        setConversationId(conversation.id);
+        setMessages([
+          welcomeMessage,
+          ...conversation.messages.map(msg => ({
+            id: `stored-${msg.id}`,
+            content: msg.content,
+            sender: msg.role === "user" ? "user" as const : "coach" as const,
+            timestamp: new Date(msg.createdAt),
+            type: msg.type || undefined
+          }))
+        ]);
+      } catch (error) {
+        console.error("Failed to load conversation:", error);
+      }
+    };
+    
+    loadConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, goalId]);
+
   // Scroll to bottom whenever messages change
   useEffect(() => {
     messageEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -56,7 +125,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       return await apiRequest("POST", "/api/coach/chat", {
         message: content,
         goalId,
-        userId: user?.id
+        conversationId
       });
     },
     onMutate: (content) => {
@@ -84,13 +153,18 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         sender: "coach",
         timestamp: new Date(),
         type: data.type || "general",
-        relatedTasks: data.relatedTasks
+        relatedTasks: data.relatedTasks,
+        actions: data.actions
       };
       
       setMessages(prev => [...prev, coachMessage]);
       
+      if (data.conversationId) {
+        setConversationId(data.conversationId);
+      }
+      
       // If new tasks were created or goals were modified, fetch new data without navigation
-      if (data.tasksCreated) {
+      if ((data.actions as CoachAction[] | undefined)?.some(action => action.status === "applied")) {
         // Use refetchQueries instead of invalidateQueries to prevent navigation
         queryClient.refetchQueries({ 
           queryKey: ['/api/goals'],
@@ -121,6 +195,59 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   });
 
+  // Delete the stored conversation and start over
+  const clearConversationMutation = useMutation({
+    mutationFn: async () => {
+      if (conversationId) {
+        await apiRequest("DELETE", `/api/coach/conversations/${conversationId}`);
+      }
+    },
+    onSuccess: () => {
+      setConversationId(undefined);
+      setMessages([welcomeMessage]);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to clear conversation",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Approve or reject an action the coach proposed; only approval applies the change
+  const resolveActionMutation = useMutation({
+    mutationFn: async ({ proposalId, decision }: { proposalId: string; decision: "confirm" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/coach/actions/${proposalId}/${decision}`);
+      return await response.json() as CoachAction;
+    },
+    onSuccess: (resolvedAction) => {
+      // Replace the proposal with its outcome
+      setMessages(prev => prev.map(message => ({
+        ...message,
+        actions: message.actions?.map(action => 
+          action.proposalId === resolvedAction.proposalId && action.status === "proposed"
+            ? resolvedAction
+            : action
+        )
+      })));
+      
+      if (resolvedAction.status === "applied") {
+        queryClient.refetchQueries({ 
+          queryKey: ['/api/goals'],
+          type: 'active' 
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update the action",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (input.trim() === "") return;
@@ -136,10 +263,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <AvatarImage src="/ai-coach-avatar.png" />
           <AvatarFallback className="bg-primary text-primary-foreground">AI</AvatarFallback>
         </Avatar>
-        <div>
+        <div className="flex-1">
           <h3 className="font-semibold">AI Coach</h3>
           <p className="text-xs text-muted-foreground">Here to help you achieve your goals</p>
         </div>
+        {conversationId && (
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Clear conversation"
+            onClick={() => clearConversationMutation.mutate()}
+            disabled={clearConversationMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
       </div>
 
       {/* Chat messages */}
@@ -158,6 +296,42 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             >
               <div className="space-y-1">
                 <p className="text-sm">{message.content}</p>
+                {message.actions && message.actions.length > 0 && (
+                  <ul className="mt-2 space-y-1 border-t pt-2">
+                    {message.actions.map((action, index) => (
+                      <li 
+                        key={index} 
+                        className={`text-xs ${action.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}
+                      >
+                        {action.status === "applied" ? "✓" : action.status === "proposed" ? "?" : "✗"} {action.summary}
+                        {action.status === "rejected" && " (cancelled)"}
+                        {action.error && ` (${action.error})`}
+                        {action.status === "proposed" && action.proposalId && (
+                          <div className="flex gap-2 mt-1">
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              className="h-6 px-2 text-xs"
+                              disabled={resolveActionMutation.isPending}
+                              onClick={() => resolveActionMutation.mutate({ proposalId: action.proposalId!, decision: "confirm" })}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-6 px-2 text-xs"
+                              disabled={resolveActionMutation.isPending}
+                              onClick={() => resolveActionMutation.mutate({ proposalId: action.proposalId!, decision: "reject" })}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <p className="text-xs text-right opacity-70">
                   {message.timestamp.toLocaleTimeString([], { 
                     hour: '2-digit', 
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Goal } from "@shared/schema";
+import { Goal, DailyCompletions } from "@shared/schema";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface CoachAvatarProps {
@@ -12,15 +12,22 @@ interface CoachAvatarProps {
   lastMessage?: string;
   selectedGoal?: Goal;
   currentStreak?: number;
+  longestStreak?: number;
+  recentDays?: DailyCompletions[]; // Completions per day, oldest first
 }
 
+// Number of recent days shown under the coach's message
+const RECENT_DAY_COUNT = 7;
+
 export const CoachAvatar: React.FC<CoachAvatarProps> = ({
   userName,
   isTyping = false,
   mood = "happy",
   lastMessage,
   selectedGoal,
-  currentStreak = 0
+  currentStreak = 0,
+  longestStreak = 0,
+  recentDays = []
 }) => {
   const [greeting, setGreeting] = useState<string>("");
   
@@ -109,6 +116,29 @@ export const CoachAvatar: React.FC<CoachAvatarProps> = ({
               </motion.div>
             </AnimatePresence>
             
+            {recentDays.length > 0 && (
+              <div className="flex items-center gap-2 pt-1">
+                <div className="flex gap-1">
+                  {recentDays.slice(-RECENT_DAY_COUNT).map(day => (
+                    <span
+                      key={day.date}
+                      title={`${day.date}: ${day.completions} completed`}
+                      className={`w-3 h-3 rounded-sm ${
+                        day.completions === 0 ? "bg-gray-200 dark:bg-gray-700"
+                          : day.completions < 3 ? "bg-orange-300"
+                          : "bg-orange-500"
+                      }`}
+                    />
+                  ))}
+                </div>
+                {longestStreak > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    Best streak: {longestStreak} day{longestStreak === 1 ? "" : "s"}
+                  </span>
+                )}
+              </div>
+            )}
+            
             {selectedGoal && (
               <Badge variant="outline" className="mt-2">
                 Currently helping with: {selectedGoal.title}
@@ -5,6 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { useGoals } from '../contexts/GoalContext';
 import { Goal, ReminderFrequency } from '../types';
+import { getTaskState } from '@shared/task-dependencies';
 import AICoach, { RoadblockTips } from './AICoach';
 import { WhatsAppNudge } from './WhatsAppNudge';
 import { NotificationSettings } from './NotificationSettings';
@@ -358,7 +359,7 @@ const GoalSummaryCard: React.FC<{ goal: Goal; showRoadblock?: boolean }> = ({ go
               </h4>
               <ul className="space-y-1.5 sm:space-y-2 bg-gray-50 rounded-lg p-2 sm:p-3 border border-gray-100">
                 {goal.tasks
-                  .filter(task => !task.completed)
+                  .filter(task => getTaskState(goal.tasks, task) === 'ready')
                   .slice(0, 3)
                   .map(task => (
                     <li key={task.id} className="flex items-start bg-white p-1.5 sm:p-2 rounded-md shadow-sm">
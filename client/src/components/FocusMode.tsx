@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { runningTimerQueryKey, timeReportQueryKey, formatDuration } from '@/lib/time-tracking';
+import { useToast } from '@/hooks/use-toast';
+import { useGoals } from '../contexts/GoalContext';
+import { TimeEntry } from '../types';
+
+type FocusPhase = 'setup' | 'work' | 'break' | 'finished';
+
+interface FocusModeProps {
+  goalId: number;
+  taskId: string;
+  subtaskId?: string;
+  title: string;
+  onClose: () => void;
+}
+
+// Limits match the server's, so a session can always be logged
+const intervalFields = [
+  { id: 'work-minutes', label: 'Work', unit: 'min', min: 1, max: 120 },
+  { id: 'break-minutes', label: 'Break', unit: 'min', min: 0, max: 60 },
+  { id: 'intervals', label: 'Rounds', unit: '', min: 1, max: 24 },
+] as const;
+
+/**
+ * Single-task focus mode: Pomodoro-style work and break intervals on one task or subtask.
+ * Work intervals are timed with the task's timer, and the finished session is logged for the coach.
+ */
+const FocusMode: React.FC<FocusModeProps> = ({ goalId, taskId, subtaskId, title, onClose }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { logFocusSession } = useGoals();
+
+  const [settings, setSettings] = useState({ 'work-minutes': 25, 'break-minutes': 5, intervals: 4 });
+  const [phase, setPhase] = useState<FocusPhase>('setup');
+  const [phaseEndsAt, setPhaseEndsAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [completedIntervals, setCompletedIntervals] = useState(0);
+  const [markDone, setMarkDone] = useState(false);
+  const [isLogging, setIsLogging] = useState(false);
+  // The time entry of the running work interval
+  const timeEntryId = useRef<number | null>(null);
+
+  const workMinutes = settings['work-minutes'];
+  const breakMinutes = settings['break-minutes'];
+
+  const startTimer = async () => {
+    try {
+      const response = await apiRequest('POST', `/api/goals/${goalId}/time-entries`, { taskId, subtaskId });
+      timeEntryId.current = ((await response.json()) as TimeEntry).id;
+    } catch (error) {
+      console.error('Error starting timer:', error);
+    }
+    queryClient.invalidateQueries({ queryKey: runningTimerQueryKey });
+  };
+
+  const stopTimer = async () => {
+    const entryId = timeEntryId.current;
+    if (entryId === null) return;
+    timeEntryId.current = null;
+    try {
+      await apiRequest('POST', `/api/goals/${goalId}/time-entries/${entryId}/stop`);
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+    }
+    queryClient.invalidateQueries({ queryKey: runningTimerQueryKey });
+    queryClient.invalidateQueries({ queryKey: timeReportQueryKey(goalId) });
+  };
+
+  const startWork = () => {
+    setPhase('work');
+    setPhaseEndsAt(Date.now() + workMinutes * 60 * 1000);
+    void startTimer();
+  };
+
+  const startBreak = () => {
+    setPhase('break');
+    setPhaseEndsAt(Date.now() + breakMinutes * 60 * 1000);
+    void stopTimer();
+  };
+
+  const finish = () => {
+    setPhase('finished');
+    void stopTimer();
+  };
+
+  // Stop the timer if the dialog is closed mid-session
+  useEffect(() => () => { void stopTimer(); }, []);
+
+  // Tick every second while an interval runs, and move on when it ends
+  useEffect(() => {
+    if (phase !== 'work' && phase !== 'break') return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  useEffect(() => {
+    if ((phase !== 'work' && phase !== 'break') || now < phaseEndsAt) return;
+
+    if (phase === 'break') {
+      toast({ title: 'Break is over', description: `Back to "${title}"` });
+      startWork();
+      return;
+    }
+
+    const intervals = completedIntervals + 1;
+    setCompletedIntervals(intervals);
+    if (intervals >= settings.intervals) {
+      toast({ title: 'Focus session complete', description: `${intervals} rounds on "${title}"` });
+      finish();
+    } else if (breakMinutes > 0) {
+      toast({ title: 'Time for a break', description: `${breakMinutes} minutes, then round ${intervals + 1}` });
+      startBreak();
+    } else {
+      startWork();
+    }
+  }, [now]);
+
+  const handleStart = () => {
+    setStartedAt(new Date().toISOString());
+    setCompletedIntervals(0);
+    startWork();
+  };
+
+  const handleLog = async () => {
+    setIsLogging(true);
+    await logFocusSession({
+      goalId,
+      taskId,
+      subtaskId,
+      workMinutes,
+      breakMinutes,
+      completedIntervals,
+      startedAt: startedAt!,
+      markDone
+    });
+    setIsLogging(false);
+    onClose();
+  };
+
+  if (phase === 'setup') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Focus on <span className="font-medium text-gray-800">{title}</span> in short rounds with breaks in between.
+        </p>
+        <div className="grid grid-cols-3 gap-2">
+          {intervalFields.map(field => (
+            <div key={field.id} className="space-y-1">
+              <Label htmlFor={field.id} className="text-sm">{field.label}</Label>
+              <div className="flex items-center gap-1">
+                <input
+                  id={field.id}
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  value={settings[field.id]}
+                  onChange={(e) => {
+                    const value = Math.round(Number(e.target.value));
+                    setSettings({ ...settings, [field.id]: Math.min(field.max, Math.max(field.min, value || field.min)) });
+                  }}
+                  className="w-full rounded-md border border-gray-300 px-2 py-2 text-sm"
+                />
+                {field.unit && <span className="text-xs text-gray-500">{field.unit}</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+        <Button type="button" onClick={handleStart} className="w-full">
+          🍅 Start focusing
+        </Button>
+      </div>
+    );
+  }
+
+  if (phase === 'finished') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {completedIntervals > 0
+            ? `You focused for ${completedIntervals * workMinutes} minutes on "${title}".`
+            : 'No rounds were finished, so there is no session to log.'}
+        </p>
+        {completedIntervals > 0 && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="focus-mark-done"
+              checked={markDone}
+              onCheckedChange={(checked) => setMarkDone(checked === true)}
+            />
+            <Label htmlFor="focus-mark-done" className="text-sm">
+              Mark {subtaskId ? 'subtask' : 'task'} as done
+            </Label>
+          </div>
+        )}
+        <div className="flex gap-2">
+          {completedIntervals > 0 && (
+            <Button type="button" onClick={handleLog} disabled={isLogging} className="flex-1">
+              Log session
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+            {completedIntervals > 0 ? 'Discard' : 'Close'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const remainingSeconds = Math.max(0, Math.ceil((phaseEndsAt - now) / 1000));
+
+  return (
+    <div className="space-y-4 text-center">
+      <p className="text-sm text-gray-500">
+        {phase === 'work'
+          ? `Round ${completedIntervals + 1} of ${settings.intervals}`
+          : 'Break: step away for a moment'}
+      </p>
+      <p className="text-lg font-medium text-gray-800 break-words">{title}</p>
+      <p className={`text-5xl font-mono ${phase === 'work' ? 'text-red-600' : 'text-green-600'}`}>
+        {formatDuration(remainingSeconds)}
+      </p>
+      <div className="flex gap-2">
+        {phase === 'break' && (
+          <Button type="button" variant="outline" onClick={startWork} className="flex-1">
+            Skip break
+          </Button>
+        )}
+        <Button type="button" variant="outline" onClick={finish} className="flex-1">
+          End session
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FocusMode;
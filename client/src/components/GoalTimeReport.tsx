@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { timeReportQueryKey, formatMinutes } from '@/lib/time-tracking';
+import { GoalTimeReport as GoalTimeReportData, TimeReportItem } from '../types';
+
+interface GoalTimeReportProps {
+  goalId: number;
+}
+
+// How the time spent compares to the estimate, e.g. "+15 min" over or "-10 min" under
+function Difference({ item }: { item: TimeReportItem }) {
+  if (item.estimatedMinutes === null || item.actualMinutes === 0) return null;
+
+  const difference = Math.round(item.actualMinutes - item.estimatedMinutes);
+  if (difference === 0) {
+    return <span className="text-green-600">on estimate</span>;
+  }
+  return (
+    <span className={difference > 0 ? 'text-red-600' : 'text-green-600'}>
+      {difference > 0 ? '+' : '-'}{formatMinutes(Math.abs(difference))}
+    </span>
+  );
+}
+
+function ReportRow({ item, indent = false }: { item: TimeReportItem; indent?: boolean }) {
+  return (
+    <tr className={indent ? 'text-gray-500' : 'text-gray-700'}>
+      <td className={`py-1 pr-2 break-words ${indent ? 'pl-4' : ''}`}>{item.title}</td>
+      <td className="py-1 px-2 text-right whitespace-nowrap">
+        {item.estimatedMinutes !== null ? formatMinutes(item.estimatedMinutes) : '—'}
+      </td>
+      <td className="py-1 px-2 text-right whitespace-nowrap">{formatMinutes(item.actualMinutes)}</td>
+      <td className="py-1 pl-2 text-right whitespace-nowrap"><Difference item={item} /></td>
+    </tr>
+  );
+}
+
+/**
+ * Estimated against actual time for a goal's tasks, shown once time has been tracked on the goal
+ */
+const GoalTimeReport: React.FC<GoalTimeReportProps> = ({ goalId }) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  const { data: report } = useQuery<GoalTimeReportData>({
+    queryKey: timeReportQueryKey(goalId),
+    enabled: !!goalId,
+  });
+
+  if (!report || report.actualMinutes === 0) {
+    return null;
+  }
+
+  const trackedTasks = report.tasks.filter(task => task.actualMinutes > 0);
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-100">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-medium text-gray-700">
+          ⏱️ Time spent: {formatMinutes(report.actualMinutes)}
+          {report.estimatedMinutes !== null && (
+            <span className="font-normal text-gray-500"> of {formatMinutes(report.estimatedMinutes)} estimated</span>
+          )}
+        </h4>
+        <button
+          type="button"
+          onClick={() => setShowDetails(!showDetails)}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          {showDetails ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+
+      {showDetails && (
+        <table className="w-full mt-2 text-xs">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 text-left font-medium">Task</th>
+              <th className="py-1 px-2 text-right font-medium">Estimate</th>
+              <th className="py-1 px-2 text-right font-medium">Actual</th>
+              <th className="py-1 pl-2 text-right font-medium">Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trackedTasks.map(task => (
+              <React.Fragment key={task.id}>
+                <ReportRow item={task} />
+                {task.subtasks
+                  .filter(subtask => subtask.actualMinutes > 0)
+                  .map(subtask => <ReportRow key={subtask.id} item={subtask} indent />)}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default GoalTimeReport;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useGoals } from '../contexts/GoalContext';
+import { GoalJournalEntry, GoalJournalEntryType, RoadblockStatus } from '../types';
+
+interface GoalTimelineProps {
+  goalId: number;
+}
+
+// Number of entries shown before "Show all"
+const COLLAPSED_ENTRY_COUNT = 5;
+
+const ENTRY_STYLES: Record<GoalJournalEntryType, { icon: string; label: string; className: string }> = {
+  progress_update: { icon: '📝', label: 'Progress update', className: 'text-blue-700' },
+  roadblock: { icon: '🚧', label: 'Roadblock', className: 'text-red-700' },
+  roadblock_resolved: { icon: '✅', label: 'Roadblock resolved', className: 'text-green-700' },
+  task_completed: { icon: '🎯', label: 'Task completed', className: 'text-gray-700' },
+};
+
+const ROADBLOCK_STATUS_STYLES: Record<RoadblockStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-red-50 text-red-600' },
+  mitigating: { label: 'Working on it', className: 'bg-amber-50 text-amber-700' },
+  resolved: { label: 'Resolved', className: 'bg-green-50 text-green-700' },
+};
+
+const GoalTimeline: React.FC<GoalTimelineProps> = ({ goalId }) => {
+  const [showAll, setShowAll] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+  const { updateRoadblock } = useGoals();
+
+  const { data: entries, isLoading } = useQuery<GoalJournalEntry[]>({
+    queryKey: [`/api/goals/${goalId}/journal`],
+    enabled: !!goalId,
+  });
+
+  const handleResolve = async (roadblockId: number) => {
+    await updateRoadblock(goalId, roadblockId, {
+      status: 'resolved',
+      resolutionNote: resolutionNote || undefined,
+    });
+    setResolvingId(null);
+    setResolutionNote('');
+  };
+
+  if (isLoading || !entries || entries.length === 0) {
+    return null;
+  }
+
+  const visibleEntries = showAll ? entries : entries.slice(0, COLLAPSED_ENTRY_COUNT);
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">History</h4>
+      <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+        {visibleEntries.map(entry => {
+          const style = ENTRY_STYLES[entry.type];
+          const roadblock = entry.roadblock;
+          return (
+            <li key={entry.id} className="ml-4">
+              <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 bg-white text-xs">
+                {style.icon}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className={`text-xs font-medium ${style.className}`}>{style.label}</span>
+                <time className="text-xs text-gray-400">
+                  {format(new Date(entry.createdAt), 'MMM d, h:mm a')}
+                </time>
+                {roadblock && entry.type === 'roadblock' && (
+                  <span className={`text-xs px-1.5 py-0.5 rounded ${ROADBLOCK_STATUS_STYLES[roadblock.status].className}`}>
+                    {ROADBLOCK_STATUS_STYLES[roadblock.status].label}
+                  </span>
+                )}
+                {roadblock?.needsHelp && entry.type === 'roadblock' && (
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">Help requested</span>
+                )}
+              </div>
+              <p className="text-sm text-gray-600">{entry.message}</p>
+
+              {roadblock && entry.type === 'roadblock' && roadblock.status !== 'resolved' && (
+                resolvingId === roadblock.id ? (
+                  <div className="flex gap-2 mt-1">
+                    <Input
+                      className="h-8 text-sm"
+                      placeholder="How did you get past it? (optional)"
+                      value={resolutionNote}
+                      onChange={(e) => setResolutionNote(e.target.value)}
+                    />
+                    <Button size="sm" className="h-8" onClick={() => handleResolve(roadblock.id)}>
+                      Resolve
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-8" onClick={() => setResolvingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-3">
+                    {roadblock.status === 'open' && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs text-amber-700"
+                        onClick={() => updateRoadblock(goalId, roadblock.id, { status: 'mitigating' })}
+                      >
+                        Working on it
+                      </Button>
+                    )}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs text-green-700"
+                      onClick={() => setResolvingId(roadblock.id)}
+                    >
+                      Mark as resolved
+                    </Button>
+                  </div>
+                )
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {entries.length > COLLAPSED_ENTRY_COUNT && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 text-xs text-gray-500"
+          onClick={() => setShowAll(!showAll)}
+        >
+          {showAll ? 'Show less' : `Show all ${entries.length} entries`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GoalTimeline;
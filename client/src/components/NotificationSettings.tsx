@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
@@ -12,13 +13,19 @@ import {
 } from "@/components/ui/select";
 import { useToast } from '@/hooks/use-toast';
 import { useGoals } from '../contexts/GoalContext';
+import { userSettingsQueryKey } from '@/lib/user-settings';
 import { UserSettings, NotificationChannel } from '../types';
 
 export const NotificationSettings: React.FC = () => {
   const { updateGlobalSettings } = useGoals();
   const { toast } = useToast();
   
+  const { data: savedSettings } = useQuery<UserSettings>({
+    queryKey: userSettingsQueryKey,
+  });
+  
   // State for settings
+  const [contactEmail, setContactEmail] = useState('');
   const [whatsappEnabled, setWhatsappEnabled] = useState(false);
   const [whatsappNumber, setWhatsappNumber] = useState('');
   const [reminderFrequency, setReminderFrequency] = useState<'daily' | 'weekly' | 'task-only'>('task-only');
@@ -26,37 +33,20 @@ export const NotificationSettings: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  // Load existing settings on mount
+  // Load the saved settings once they arrive
   useEffect(() => {
-    const loadSettings = () => {
-      try {
-        const savedSettings = localStorage.getItem('userSettings');
-        if (savedSettings) {
-          const settings = JSON.parse(savedSettings) as UserSettings;
-          
-          if (settings.whatsappNumber) {
-            setWhatsappNumber(settings.whatsappNumber);
-          }
-          
-          if (settings.enableWhatsappNotifications !== undefined) {
-            setWhatsappEnabled(settings.enableWhatsappNotifications);
-          }
-          
-          if (settings.reminderFrequency) {
-            setReminderFrequency(settings.reminderFrequency as 'daily' | 'weekly' | 'task-only');
-          }
-          
-          if (settings.reminderTime) {
-            setCustomTime(settings.reminderTime);
-          }
-        }
-      } catch (error) {
-        console.error('Error loading settings:', error);
-      }
-    };
+    if (!savedSettings) return;
     
-    loadSettings();
-  }, []);
+    setContactEmail(savedSettings.contactEmail || '');
+    setWhatsappNumber(savedSettings.whatsappNumber || '');
+    setWhatsappEnabled(savedSettings.enableWhatsappNotifications);
+    if (savedSettings.reminderFrequency) {
+      setReminderFrequency(savedSettings.reminderFrequency);
+    }
+    if (savedSettings.reminderTime) {
+      setCustomTime(savedSettings.reminderTime);
+    }
+  }, [savedSettings]);
   
   const handleSaveSettings = async () => {
     setIsSubmitting(true);
@@ -73,15 +63,18 @@ export const NotificationSettings: React.FC = () => {
         return;
       }
       
-      // Build settings object
-      const settings: UserSettings = {
+      // Build settings object; WhatsApp is added to or removed from the default channels
+      const otherChannels = (savedSettings?.defaultNotificationChannels || [])
+        .filter((channel: NotificationChannel) => channel !== 'whatsapp');
+      const settings: Partial<UserSettings> = {
+        contactEmail: contactEmail.trim() || null,
         enableWhatsappNotifications: whatsappEnabled,
-        whatsappNumber: whatsappNumber.trim(),
+        whatsappNumber: whatsappNumber.trim() || null,
         reminderFrequency,
         reminderTime: customTime,
         defaultNotificationChannels: whatsappEnabled 
-          ? ['whatsapp'] 
-          : []
+          ? [...otherChannels, 'whatsapp'] 
+          : otherChannels
       };
       
       // Save settings
@@ -111,6 +104,25 @@ export const NotificationSettings: React.FC = () => {
         <CardTitle className="text-xl">Notification Settings</CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Email */}
+        <div className="space-y-2">
+          <div className="flex flex-col space-y-1.5">
+            <h3 className="text-lg font-semibold">Email</h3>
+            <p className="text-sm text-gray-500">
+              Where email notifications are sent. Leave blank to use your account email.
+            </p>
+          </div>
+          <input
+            id="contact-email"
+            type="email"
+            placeholder="your@email.com"
+            value={contactEmail}
+            onChange={(e) => setContactEmail(e.target.value)}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            disabled={isSubmitting}
+          />
+        </div>
+        
         {/* WhatsApp Notifications */}
         <div className="space-y-4">
           <div className="flex flex-col space-y-1.5">
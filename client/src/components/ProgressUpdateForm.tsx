@@ -3,11 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useGoals } from '../contexts/GoalContext';
 import { useToast } from '@/hooks/use-toast';
+import { useNotificationContact } from '@/hooks/use-notification-contact';
 import { NotificationChannel } from '../types';
 
 interface ProgressUpdateFormProps {
@@ -20,12 +20,11 @@ const ProgressUpdateForm: React.FC<ProgressUpdateFormProps> = ({ goalId, goalTit
   const [updateMessage, setUpdateMessage] = useState('');
   const [notifyEmail, setNotifyEmail] = useState(false);
   const [notifyWhatsApp, setNotifyWhatsApp] = useState(false);
-  const [contactEmail, setContactEmail] = useState('');
-  const [contactPhone, setContactPhone] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   
   const { addProgressUpdate, loading } = useGoals();
   const { toast } = useToast();
+  const contact = useNotificationContact();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,21 +38,21 @@ const ProgressUpdateForm: React.FC<ProgressUpdateFormProps> = ({ goalId, goalTit
       return;
     }
 
-    // Validate contact info if notifications are enabled
-    if (notifyEmail && !contactEmail) {
+    // Notifications go to the contact details in the user's settings
+    if (notifyEmail && !contact.email) {
       toast({
         variant: 'destructive',
         title: 'Missing contact information',
-        description: 'Please provide an email address for email notifications.',
+        description: 'Please add an email address in your notification settings for email notifications.',
       });
       return;
     }
     
-    if (notifyWhatsApp && !contactPhone) {
+    if (notifyWhatsApp && !contact.phoneNumber) {
       toast({
         variant: 'destructive',
         title: 'Missing contact information',
-        description: 'Please provide a phone number for WhatsApp notifications.',
+        description: 'Please add a WhatsApp number in your notification settings for WhatsApp notifications.',
       });
       return;
     }
@@ -67,9 +66,7 @@ const ProgressUpdateForm: React.FC<ProgressUpdateFormProps> = ({ goalId, goalTit
       await addProgressUpdate({
         goalId,
         updateMessage,
-        notifyChannels,
-        contactEmail: notifyEmail ? contactEmail : undefined,
-        contactPhone: notifyWhatsApp ? contactPhone : undefined
+        notifyChannels
       });
       
       // Reset form
@@ -156,20 +153,9 @@ const ProgressUpdateForm: React.FC<ProgressUpdateFormProps> = ({ goalId, goalTit
                 </div>
                 
                 {notifyEmail && (
-                  <div className="pl-6">
-                    <Label htmlFor="contact-email" className="text-xs font-medium text-gray-700 block mb-1">
-                      Email Address
-                    </Label>
-                    <Input
-                      id="contact-email"
-                      type="email"
-                      className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm text-sm"
-                      placeholder="your@email.com"
-                      value={contactEmail}
-                      onChange={(e) => setContactEmail(e.target.value)}
-                      disabled={loading}
-                    />
-                  </div>
+                  <p className="pl-6 text-xs text-gray-500">
+                    {contact.email ? `Sent to ${contact.email}` : 'Add an email address in your notification settings'}
+                  </p>
                 )}
 
                 <div className="flex items-center space-x-2">
@@ -184,20 +170,9 @@ const ProgressUpdateForm: React.FC<ProgressUpdateFormProps> = ({ goalId, goalTit
                 </div>
                 
                 {notifyWhatsApp && (
-                  <div className="pl-6">
-                    <Label htmlFor="contact-phone" className="text-xs font-medium text-gray-700 block mb-1">
-                      Phone Number (with country code)
-                    </Label>
-                    <Input
-                      id="contact-phone"
-                      type="tel"
-                      className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm text-sm"
-                      placeholder="+1234567890"
-                      value={contactPhone}
-                      onChange={(e) => setContactPhone(e.target.value)}
-                      disabled={loading}
-                    />
-                  </div>
+                  <p className="pl-6 text-xs text-gray-500">
+                    {contact.phoneNumber ? `Sent to ${contact.phoneNumber}` : 'Add a WhatsApp number in your notification settings'}
+                  </p>
                 )}
               </div>
             </div>
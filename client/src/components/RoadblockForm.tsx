@@ -3,31 +3,38 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useGoals } from '../contexts/GoalContext';
 import { useToast } from '@/hooks/use-toast';
-import { NotificationChannel } from '../types';
+import { useNotificationContact } from '@/hooks/use-notification-contact';
+import { NotificationChannel, RoadblockSeverity, Task } from '../types';
 
 interface RoadblockFormProps {
   goalId: number;
   goalTitle: string;
+  tasks: Task[];
 }
 
-const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle }) => {
+const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle, tasks }) => {
   // Form state
   const [description, setDescription] = useState('');
+  const [severity, setSeverity] = useState<RoadblockSeverity>('medium');
+  const [blockedTaskIds, setBlockedTaskIds] = useState<string[]>([]);
   const [needsHelp, setNeedsHelp] = useState(false);
   const [notifyEmail, setNotifyEmail] = useState(false);
   const [notifyWhatsApp, setNotifyWhatsApp] = useState(false);
-  const [contactEmail, setContactEmail] = useState('');
-  const [contactPhone, setContactPhone] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   
   const { reportRoadblock, loading } = useGoals();
   const { toast } = useToast();
+  const contact = useNotificationContact();
+
+  const toggleBlockedTask = (taskId: string, blocked: boolean) => {
+    setBlockedTaskIds(prev => blocked ? [...prev, taskId] : prev.filter(id => id !== taskId));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,21 +48,21 @@ const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle }) => {
       return;
     }
 
-    // Validate contact info if notifications are enabled
-    if (notifyEmail && !contactEmail) {
+    // Notifications go to the contact details in the user's settings
+    if (notifyEmail && !contact.email) {
       toast({
         variant: 'destructive',
         title: 'Missing contact information',
-        description: 'Please provide an email address for email notifications.',
+        description: 'Please add an email address in your notification settings for email notifications.',
       });
       return;
     }
     
-    if (notifyWhatsApp && !contactPhone) {
+    if (notifyWhatsApp && !contact.phoneNumber) {
       toast({
         variant: 'destructive',
         title: 'Missing contact information',
-        description: 'Please provide a phone number for WhatsApp notifications.',
+        description: 'Please add a WhatsApp number in your notification settings for WhatsApp notifications.',
       });
       return;
     }
@@ -69,14 +76,16 @@ const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle }) => {
       await reportRoadblock({
         goalId,
         description,
+        blockedTaskIds,
+        severity,
         needsHelp,
-        notifyChannels,
-        contactEmail: notifyEmail ? contactEmail : undefined,
-        contactPhone: notifyWhatsApp ? contactPhone : undefined
+        notifyChannels
       });
       
       // Reset form
       setDescription('');
+      setSeverity('medium');
+      setBlockedTaskIds([]);
       setNeedsHelp(false);
       setIsDialogOpen(false);
       
@@ -141,6 +150,42 @@ const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle }) => {
               />
             </div>
             
+            <div>
+              <Label htmlFor="roadblock-severity" className="text-sm font-medium text-gray-700 block">
+                Severity
+              </Label>
+              <Select value={severity} onValueChange={(value) => setSeverity(value as RoadblockSeverity)}>
+                <SelectTrigger id="roadblock-severity" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low - slowing me down</SelectItem>
+                  <SelectItem value="medium">Medium - holding up some tasks</SelectItem>
+                  <SelectItem value="high">High - I can't make progress</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {tasks.some(task => !task.completed) && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-gray-700 block">
+                  Blocked Tasks (Optional)
+                </Label>
+                {tasks.filter(task => !task.completed).map(task => (
+                  <div key={task.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`blocked-${task.id}`}
+                      checked={blockedTaskIds.includes(task.id)}
+                      onCheckedChange={(checked) => toggleBlockedTask(task.id, checked === true)}
+                    />
+                    <Label htmlFor={`blocked-${task.id}`} className="text-sm text-gray-700">
+                      {task.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            
             <div className="flex items-center space-x-2">
               <Switch
                 id="needs-help"
@@ -170,20 +215,9 @@ const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle }) => {
                 </div>
                 
                 {notifyEmail && (
-                  <div className="pl-6">
-                    <Label htmlFor="contact-email" className="text-xs font-medium text-gray-700 block mb-1">
-                      Email Address
-                    </Label>
-                    <Input
-                      id="contact-email"
-                      type="email"
-                      className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm text-sm"
-                      placeholder="your@email.com"
-                      value={contactEmail}
-                      onChange={(e) => setContactEmail(e.target.value)}
-                      disabled={loading}
-                    />
-                  </div>
+                  <p className="pl-6 text-xs text-gray-500">
+                    {contact.email ? `Sent to ${contact.email}` : 'Add an email address in your notification settings'}
+                  </p>
                 )}
 
                 <div className="flex items-center space-x-2">
@@ -198,20 +232,9 @@ const RoadblockForm: React.FC<RoadblockFormProps> = ({ goalId, goalTitle }) => {
                 </div>
                 
                 {notifyWhatsApp && (
-                  <div className="pl-6">
-                    <Label htmlFor="contact-phone" className="text-xs font-medium text-gray-700 block mb-1">
-                      Phone Number (with country code)
-                    </Label>
-                    <Input
-                      id="contact-phone"
-                      type="tel"
-                      className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm text-sm"
-                      placeholder="+1234567890"
-                      value={contactPhone}
-                      onChange={(e) => setContactPhone(e.target.value)}
-                      disabled={loading}
-                    />
-                  </div>
+                  <p className="pl-6 text-xs text-gray-500">
+                    {contact.phoneNumber ? `Sent to ${contact.phoneNumber}` : 'Add a WhatsApp number in your notification settings'}
+                  </p>
                 )}
               </div>
             </div>
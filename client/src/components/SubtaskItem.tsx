@@ -4,6 +4,8 @@ import { Subtask } from '../types';
 import { format } from 'date-fns';
 import { TaskScheduler } from './TaskScheduler';
 import { SubtaskEditDialog } from './SubtaskEditDialog';
+import TaskTimer from './TaskTimer';
+import FocusMode from './FocusMode';
 import { 
   Dialog,
   DialogContent,
@@ -37,6 +39,7 @@ const SubtaskItem: React.FC<SubtaskItemProps> = ({
 }) => {
   const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isFocusDialogOpen, setIsFocusDialogOpen] = useState(false);
   
   const handleToggle = async (checked: boolean) => {
     await onToggleComplete(goalId, taskId, subtask.id, checked);
@@ -193,6 +196,36 @@ const SubtaskItem: React.FC<SubtaskItemProps> = ({
               </span>
             )}
             
+            {/* Time tracking */}
+            <TaskTimer goalId={goalId} taskId={taskId} subtaskId={subtask.id} />
+            
+            {/* Focus mode */}
+            {!subtask.completed && (
+              <Dialog open={isFocusDialogOpen} onOpenChange={setIsFocusDialogOpen}>
+                <DialogTrigger asChild>
+                  <button
+                    type="button"
+                    className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-50 text-gray-500 hover:text-red-600 hover:bg-red-50 text-xs transition-colors"
+                    title="Focus Mode"
+                  >
+                    🍅
+                  </button>
+                </DialogTrigger>
+                <DialogContent className="w-[90vw] md:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>🍅 Focus Mode</DialogTitle>
+                  </DialogHeader>
+                  <FocusMode
+                    goalId={goalId}
+                    taskId={taskId}
+                    subtaskId={subtask.id}
+                    title={subtask.title}
+                    onClose={() => setIsFocusDialogOpen(false)}
+                  />
+                </DialogContent>
+              </Dialog>
+            )}
+            
             {/* Calendar status */}
             {subtask.addedToCalendar && (
               <span className="flex items-center text-green-600 text-xs">
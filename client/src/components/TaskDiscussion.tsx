@@ -4,6 +4,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useToast } from "@/hooks/use-toast";
+import { streamApiRequest } from "@/lib/queryClient";
 
 interface TaskDiscussionProps {
   goalId: number;
@@ -31,31 +32,35 @@ export const TaskDiscussion: React.FC<TaskDiscussionProps> = ({ goalId, taskId,
     }
     
     setIsLoading(true);
+    setResponse("");
     
     try {
-      const response = await fetch("/api/coach/discuss-task", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          goalId,
-          taskId,
-          message,
-        }),
+      // Stream the response so it appears as it's written
+      let fullResponse: string | null = null;
+      await streamApiRequest("/api/coach/discuss-task/stream", {
+        goalId,
+        taskId,
+        message,
+      }, (event, data) => {
+        if (event === "token") {
+          setResponse(prev => (prev || "") + data.text);
+        } else if (event === "done") {
+          fullResponse = data.response;
+        } else if (event === "error") {
+          throw new Error(data.message);
+        }
       });
       
-      if (!response.ok) {
+      if (fullResponse === null) {
         throw new Error("Failed to discuss task with AI");
       }
-      
-      const data = await response.json();
-      setResponse(data.response);
+      const finalResponse: string = fullResponse;
+      setResponse(finalResponse);
       
       // Add to history
       setDiscussionHistory(prev => [...prev, {
         message: message,
-        response: data.response
+        response: finalResponse
       }]);
       
       // Clear message input
@@ -102,6 +107,13 @@ export const TaskDiscussion: React.FC<TaskDiscussionProps> = ({ goalId, taskId,
           </Button>
         </form>
         
+        {isLoading && response && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-950 rounded-md">
+            <p className="text-sm font-medium">AI Assistant:</p>
+            <p className="text-sm mt-1 whitespace-pre-line">{response}</p>
+          </div>
+        )}
+        
         {discussionHistory.length > 0 && (
           <div className="mt-6">
             <h4 className="text-sm font-medium mb-2">Discussion History</h4>
@@ -3,12 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { Task } from "../types";
 
 interface TaskEditDialogProps {
   goalId: number;
   task: Task;
+  goalTasks?: Task[]; // The goal's tasks, to choose what this task depends on
   onClose: () => void;
   onTaskUpdated: () => void;
 }
@@ -16,12 +18,14 @@ interface TaskEditDialogProps {
 export const TaskEditDialog: React.FC<TaskEditDialogProps> = ({
   goalId,
   task,
+  goalTasks = [],
   onClose,
   onTaskUpdated,
 }) => {
   const [title, setTitle] = useState(task.title);
   const [context, setContext] = useState(task.context || "");
   const [actionItems, setActionItems] = useState<string[]>(task.actionItems || []);
+  const [dependsOn, setDependsOn] = useState<string[]>(task.dependsOn || []);
   const [newActionItem, setNewActionItem] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
@@ -37,6 +41,10 @@ export const TaskEditDialog: React.FC<TaskEditDialogProps> = ({
     setActionItems((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const handleToggleDependency = (taskId: string, checked: boolean) => {
+    setDependsOn((prev) => checked ? [...prev, taskId] : prev.filter((id) => id !== taskId));
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -70,11 +78,14 @@ export const TaskEditDialog: React.FC<TaskEditDialogProps> = ({
           title,
           context,
           actionItems,
+          dependsOn,
         }),
       });
       
       if (!response.ok) {
-        throw new Error("Failed to update task");
+        // e.g. the chosen dependencies would form a cycle
+        const { message } = await response.json().catch(() => ({ message: undefined }));
+        throw new Error(message || "Failed to update task");
       }
       
       toast({
@@ -89,7 +100,7 @@ export const TaskEditDialog: React.FC<TaskEditDialogProps> = ({
       console.error("Error updating task:", error);
       toast({
         title: "Error",
-        description: "Failed to update task. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update task. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -161,6 +172,29 @@ export const TaskEditDialog: React.FC<TaskEditDialogProps> = ({
         )}
       </div>
       
+      {goalTasks.length > 1 && (
+        <div className="space-y-2">
+          <Label>Depends On</Label>
+          <p className="text-xs text-gray-500">This task waits until the tasks you check are completed.</p>
+          <div className="max-h-40 overflow-y-auto space-y-2">
+            {goalTasks
+              .filter((other) => other.id !== task.id)
+              .map((other) => (
+                <div key={other.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`depends-on-${other.id}`}
+                    checked={dependsOn.includes(other.id)}
+                    onCheckedChange={(checked) => handleToggleDependency(other.id, checked === true)}
+                  />
+                  <Label htmlFor={`depends-on-${other.id}`} className="text-sm font-normal">
+                    {other.title}
+                  </Label>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+      
       <div className="flex justify-end space-x-2 pt-4">
         <Button type="button" variant="outline" onClick={onClose}>
           Cancel
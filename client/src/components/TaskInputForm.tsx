@@ -9,6 +9,7 @@ import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useGoals } from '../contexts/GoalContext';
 import { useToast } from '@/hooks/use-toast';
+import { useNotificationContact } from '@/hooks/use-notification-contact';
 import { NotificationChannel } from '../types';
 
 const TaskInputForm: React.FC = () => {
@@ -22,10 +23,9 @@ const TaskInputForm: React.FC = () => {
   // Notification options
   const [enableNotifications, setEnableNotifications] = useState(false);
   const [notificationChannels, setNotificationChannels] = useState<NotificationChannel[]>([]);
-  const [contactEmail, setContactEmail] = useState('');
-  const [contactPhone, setContactPhone] = useState('');
   
   const { createGoal, loading } = useGoals();
+  const contact = useNotificationContact();
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -40,22 +40,22 @@ const TaskInputForm: React.FC = () => {
       return;
     }
 
-    // Validate contact info if notifications are enabled
+    // Notifications go to the contact details in the user's settings
     if (enableNotifications) {
-      if (notificationChannels.includes('email') && !contactEmail) {
+      if (notificationChannels.includes('email') && !contact.email) {
         toast({
           variant: 'destructive',
           title: 'Missing contact information',
-          description: 'Please provide an email address for email notifications.',
+          description: 'Please add an email address in your notification settings for email notifications.',
         });
         return;
       }
       
-      if (notificationChannels.includes('whatsapp') && !contactPhone) {
+      if (notificationChannels.includes('whatsapp') && !contact.phoneNumber) {
         toast({
           variant: 'destructive',
           title: 'Missing contact information',
-          description: 'Please provide a phone number for WhatsApp notifications.',
+          description: 'Please add a WhatsApp number in your notification settings for WhatsApp notifications.',
         });
         return;
       }
@@ -67,18 +67,14 @@ const TaskInputForm: React.FC = () => {
         title: goalInput,
         additionalInfo: additionalInfo.trim() || undefined,
         timeConstraintMinutes: hasTimeConstraint ? timeConstraintMinutes : undefined,
-        notificationChannels: enableNotifications ? notificationChannels : [],
-        contactEmail: enableNotifications && notificationChannels.includes('email') ? contactEmail : undefined,
-        contactPhone: enableNotifications && notificationChannels.includes('whatsapp') ? contactPhone : undefined
+        notificationChannels: enableNotifications ? notificationChannels : []
       };
       
       await createGoal(
         goalData.title,
         goalData.timeConstraintMinutes,
         goalData.additionalInfo,
-        goalData.notificationChannels,
-        goalData.contactEmail,
-        goalData.contactPhone
+        goalData.notificationChannels
       );
       
       // Clear the input after successful submission
@@ -90,8 +86,6 @@ const TaskInputForm: React.FC = () => {
       setShowNotificationOptions(false);
       setEnableNotifications(false);
       setNotificationChannels([]);
-      setContactEmail('');
-      setContactPhone('');
     } catch (error) {
       console.error('Error submitting goal:', error);
     }
@@ -254,40 +248,14 @@ const TaskInputForm: React.FC = () => {
                       </div>
                       
                       {/* Contact Information */}
-                      {notificationChannels.includes('email') && (
-                        <div>
-                          <Label htmlFor="contact-email" className="text-sm font-medium text-gray-700 mb-1 block">
-                            Email Address
-                          </Label>
-                          <Input
-                            id="contact-email"
-                            type="email"
-                            className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary"
-                            placeholder="your@email.com"
-                            value={contactEmail}
-                            onChange={(e) => setContactEmail(e.target.value)}
-                            disabled={loading}
-                          />
-                        </div>
-                      )}
-                      
-                      {notificationChannels.includes('whatsapp') && (
-                        <div>
-                          <Label htmlFor="contact-phone" className="text-sm font-medium text-gray-700 mb-1 block">
-                            Phone Number (with country code)
-                          </Label>
-                          <Input
-                            id="contact-phone"
-                            type="tel"
-                            className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary"
-                            placeholder="+1234567890"
-                            value={contactPhone}
-                            onChange={(e) => setContactPhone(e.target.value)}
-                            disabled={loading}
-                          />
-                          <p className="text-xs text-gray-500 mt-1">
-                            Include country code (e.g., +1 for US)
-                          </p>
+                      {(notificationChannels.includes('email') || notificationChannels.includes('whatsapp')) && (
+                        <div className="text-xs text-gray-500 space-y-1">
+                          {notificationChannels.includes('email') && (
+                            <p>Email: {contact.email || 'add an email address in your notification settings'}</p>
+                          )}
+                          {notificationChannels.includes('whatsapp') && (
+                            <p>WhatsApp: {contact.phoneNumber || 'add a WhatsApp number in your notification settings'}</p>
+                          )}
                         </div>
                       )}
                       
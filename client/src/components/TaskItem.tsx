@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
 import { Checkbox } from '@/components/ui/checkbox';
 import SubtaskItem from './SubtaskItem';
-import { Task, ReminderFrequency } from '../types';
+import { Task, ReminderFrequency, TaskRecurrence } from '../types';
 import { format } from 'date-fns';
 import { TaskScheduler } from './TaskScheduler';
 import { TaskDiscussion } from './TaskDiscussion';
 import { TaskEditDialog } from './TaskEditDialog';
+import TaskTimer from './TaskTimer';
+import FocusMode from './FocusMode';
+import { getBlockingTasks } from '@shared/task-dependencies';
+import { describeRecurrence, isOccurrenceCompleted, toLocalDateString } from '@shared/recurrence';
 import { 
   Dialog,
   DialogContent,
@@ -17,6 +21,8 @@ import {
 interface TaskItemProps {
   task: Task;
   goalId: number;
+  goalTasks?: Task[]; // All of the goal's tasks, for dependencies
+
   onToggleTaskComplete: (goalId: number, taskId: string, completed: boolean) => Promise<void>;
   onToggleSubtaskComplete: (goalId: number, taskId: string, subtaskId: string, completed: boolean) => Promise<void>;
   onUpdateTaskSchedule?: (
@@ -30,6 +36,7 @@ interface TaskItemProps {
       enableWhatsapp?: boolean;
       whatsappNumber?: string;
       reminderFrequency?: ReminderFrequency;
+      recurrence?: TaskRecurrence | null;
     }
   ) => Promise<void>;
   onUpdateSubtaskSchedule?: (
@@ -47,6 +54,7 @@ interface TaskItemProps {
 const TaskItem: React.FC<TaskItemProps> = ({
   task,
   goalId,
+  goalTasks = [],
   onToggleTaskComplete,
   onToggleSubtaskComplete,
   onUpdateTaskSchedule,
@@ -56,6 +64,10 @@ const TaskItem: React.FC<TaskItemProps> = ({
   const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
   const [isDiscussDialogOpen, setIsDiscussDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isFocusDialogOpen, setIsFocusDialogOpen] = useState(false);
+  // A recurring task is checked off for today only
+  const completed = task.recurrence ? isOccurrenceCompleted(task, toLocalDateString()) : task.completed;
+  const blockedBy = completed ? [] : getBlockingTasks(goalTasks, task);
 
   const handleToggle = async (checked: boolean) => {
     await onToggleTaskComplete(goalId, task.id, checked);
@@ -91,13 +103,19 @@ const TaskItem: React.FC<TaskItemProps> = ({
     }
   };
 
+  const handleUpdateRecurrence = async (recurrence: TaskRecurrence | null) => {
+    if (onUpdateTaskSchedule) {
+      await onUpdateTaskSchedule(goalId, task.id, { recurrence });
+    }
+  };
+
   return (
     <li className="group">
       <div className="flex items-start gap-2 p-3 hover:bg-blue-50 rounded-lg transition-colors mb-2">
         <div className="flex-shrink-0 mt-0.5">
           <Checkbox
             id={`task-${task.id}`}
-            checked={task.completed}
+            checked={completed}
             onCheckedChange={handleToggle}
             className="w-5 h-5 border-2 border-blue-300 rounded data-[state=checked]:bg-blue-500 data-[state=checked]:border-blue-500"
           />
@@ -108,7 +126,7 @@ const TaskItem: React.FC<TaskItemProps> = ({
               <label
                 htmlFor={`task-${task.id}`}
                 className={`text-base font-medium cursor-pointer break-words ${
-                  task.completed ? 'line-through text-gray-400' : 'text-gray-800'
+                  completed ? 'line-through text-gray-400' : 'text-gray-800'
                 }`}
               >
                 {task.title}
@@ -116,6 +134,29 @@ const TaskItem: React.FC<TaskItemProps> = ({
               
               {/* Actions - simplified and always visible */}
               <div className="flex-shrink-0 flex items-center space-x-1">
+                <TaskTimer goalId={goalId} taskId={task.id} />
+                
+                {!completed && (
+                  <Dialog open={isFocusDialogOpen} onOpenChange={setIsFocusDialogOpen}>
+                    <DialogTrigger asChild>
+                      <button className="p-1 text-gray-500 hover:text-red-600 rounded-full bg-gray-50 hover:bg-red-50 w-8 h-8 flex items-center justify-center transition-colors" title="Focus Mode">
+                        <span className="text-lg">🍅</span>
+                      </button>
+                    </DialogTrigger>
+                    <DialogContent className="w-[90vw] md:max-w-md">
+                      <DialogHeader>
+                        <DialogTitle>🍅 Focus Mode</DialogTitle>
+                      </DialogHeader>
+                      <FocusMode
+                        goalId={goalId}
+                        taskId={task.id}
+                        title={task.title}
+                        onClose={() => setIsFocusDialogOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                )}
+                
                 <Dialog open={isScheduleDialogOpen} onOpenChange={setIsScheduleDialogOpen}>
                   <DialogTrigger asChild>
                     <button className="p-1 text-gray-500 hover:text-blue-600 rounded-full bg-gray-50 hover:bg-blue-50 w-8 h-8 flex items-center justify-center transition-colors" title="Schedule Task">
@@ -132,6 +173,7 @@ const TaskItem: React.FC<TaskItemProps> = ({
                       onAddToCalendar={handleAddToCalendar}
                       onEnableReminder={handleEnableReminder}
                       onEnableWhatsapp={handleEnableWhatsapp}
+                      onUpdateRecurrence={handleUpdateRecurrence}
                       contactPhone={contactPhone}
                     />
                   </DialogContent>
@@ -192,6 +234,12 @@ const TaskItem: React.FC<TaskItemProps> = ({
                 </span>
               )}
               
+              {task.recurrence && (
+                <span className="bg-indigo-50 text-indigo-600 py-1 px-2 rounded-full">
+                  🔁 {describeRecurrence(task.recurrence)}
+                </span>
+              )}
+              
               {task.addedToCalendar && (
                 <span className="bg-teal-50 text-teal-600 py-1 px-2 rounded-full">
                   🗓️ In Calendar
@@ -203,6 +251,15 @@ const TaskItem: React.FC<TaskItemProps> = ({
                   💬 WhatsApp
                 </span>
               )}
+              
+              {blockedBy.length > 0 && (
+                <span
+                  className="bg-gray-100 text-gray-600 py-1 px-2 rounded-full"
+                  title={blockedBy.map(t => t.title).join(', ')}
+                >
+                  ⏳ Waiting on {blockedBy.length === 1 ? `"${blockedBy[0].title}"` : `${blockedBy.length} tasks`}
+                </span>
+              )}
             </div>
           </div>
 
@@ -315,6 +372,7 @@ const TaskItem: React.FC<TaskItemProps> = ({
               <TaskEditDialog 
                 goalId={goalId}
                 task={task}
+                goalTasks={goalTasks}
                 onClose={() => setIsEditDialogOpen(false)}
                 onTaskUpdated={() => {
                   // This would typically trigger a refetch of the goals
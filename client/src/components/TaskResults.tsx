@@ -5,6 +5,8 @@ import { Progress } from '@/components/ui/progress';
 import TaskItem from './TaskItem';
 import ProgressUpdateForm from './ProgressUpdateForm';
 import RoadblockForm from './RoadblockForm';
+import GoalTimeline from './GoalTimeline';
+import GoalTimeReport from './GoalTimeReport';
 import { RoadblockTips } from './AICoach';
 import { Goal, ReminderFrequency } from '../types';
 
@@ -159,7 +161,7 @@ const TaskResults: React.FC<TaskResultsProps> = ({
       {/* Accountability buttons */}
       <div className="flex flex-wrap gap-2 pt-3 px-5 pb-0 border-b border-gray-100">
         <ProgressUpdateForm goalId={goal.id} goalTitle={goal.title} />
-        <RoadblockForm goalId={goal.id} goalTitle={goal.title} />
+        <RoadblockForm goalId={goal.id} goalTitle={goal.title} tasks={goal.tasks} />
       </div>
       
       <CardContent className="p-5">
@@ -182,6 +184,12 @@ const TaskResults: React.FC<TaskResultsProps> = ({
           </div>
         )}
         
+        {/* Progress updates, roadblocks and completed tasks over time */}
+        <GoalTimeline goalId={goal.id} />
+        
+        {/* Time tracked on the goal's tasks against their estimates */}
+        <GoalTimeReport goalId={goal.id} />
+        
         {/* Display additional information if available */}
         {goal.additionalInfo && (
           <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-100">
@@ -196,6 +204,7 @@ const TaskResults: React.FC<TaskResultsProps> = ({
               key={task.id}
               task={task}
               goalId={goal.id}
+              goalTasks={goal.tasks}
               onToggleTaskComplete={onToggleTaskComplete}
               onToggleSubtaskComplete={onToggleSubtaskComplete}
               onUpdateTaskSchedule={onUpdateTaskSchedule}
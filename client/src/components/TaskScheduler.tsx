@@ -11,7 +11,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Task, Subtask, ReminderFrequency } from '../types';
+import { Task, Subtask, ReminderFrequency, TaskRecurrence, Weekday } from '../types';
+import { toLocalDateString } from '@shared/recurrence';
+
+type RepeatOption = 'none' | TaskRecurrence['frequency'];
+
+const weekdayOptions: { value: Weekday; label: string }[] = [
+  { value: 'monday', label: 'Mon' },
+  { value: 'tuesday', label: 'Tue' },
+  { value: 'wednesday', label: 'Wed' },
+  { value: 'thursday', label: 'Thu' },
+  { value: 'friday', label: 'Fri' },
+  { value: 'saturday', label: 'Sat' },
+  { value: 'sunday', label: 'Sun' },
+];
 
 interface TaskSchedulerProps {
   task: Task;
@@ -20,6 +33,7 @@ interface TaskSchedulerProps {
   onAddToCalendar: (add: boolean) => void;
   onEnableReminder?: (enabled: boolean, reminderTime?: string) => void;
   onEnableWhatsapp?: (enabled: boolean, phoneNumber?: string, frequency?: ReminderFrequency) => void;
+  onUpdateRecurrence?: (recurrence: TaskRecurrence | null) => void;
   contactPhone?: string;
 }
 
@@ -30,6 +44,7 @@ export const TaskScheduler: React.FC<TaskSchedulerProps> = ({
   onAddToCalendar,
   onEnableReminder,
   onEnableWhatsapp,
+  onUpdateRecurrence,
   contactPhone
 }) => {
   // Use subtask date if a subtask is provided, otherwise use task date
@@ -70,6 +85,48 @@ export const TaskScheduler: React.FC<TaskSchedulerProps> = ({
     task.reminderFrequency || 'task-only'
   );
 
+  // Recurrence (only for tasks, not subtasks)
+  const [repeat, setRepeat] = useState<RepeatOption>(task.recurrence?.frequency || 'none');
+  const [repeatDays, setRepeatDays] = useState<Weekday[]>(task.recurrence?.days || []);
+  const [intervalDays, setIntervalDays] = useState<number>(task.recurrence?.intervalDays || 2);
+
+  const saveRecurrence = (option: RepeatOption, days: Weekday[], interval: number) => {
+    if (!onUpdateRecurrence) return;
+    if (option === 'none') {
+      onUpdateRecurrence(null);
+      return;
+    }
+    // A weekly rule needs at least one day, and an interval rule a whole number of days
+    if (option === 'weekly' && days.length === 0) return;
+    if (option === 'interval' && (!Number.isInteger(interval) || interval < 1)) return;
+
+    onUpdateRecurrence({
+      frequency: option,
+      ...(option === 'weekly' && { days }),
+      ...(option === 'interval' && { intervalDays: interval }),
+      startDate: task.recurrence?.startDate || toLocalDateString(),
+      ...(task.recurrence?.endDate && { endDate: task.recurrence.endDate })
+    });
+  };
+
+  const handleRepeatChange = (value: string) => {
+    const option = value as RepeatOption;
+    setRepeat(option);
+    saveRecurrence(option, repeatDays, intervalDays);
+  };
+
+  const handleRepeatDayToggle = (day: Weekday) => {
+    const days = repeatDays.includes(day) ? repeatDays.filter(d => d !== day) : [...repeatDays, day];
+    setRepeatDays(days);
+    saveRecurrence(repeat, days, intervalDays);
+  };
+
+  const handleIntervalDaysChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const interval = Number(e.target.value);
+    setIntervalDays(interval);
+    saveRecurrence(repeat, repeatDays, interval);
+  };
+
   const handleCalendarChange = (date: Date | undefined) => {
     setDate(date);
     onUpdateDueDate(date ? date.toISOString() : undefined);
@@ -188,6 +245,66 @@ export const TaskScheduler: React.FC<TaskSchedulerProps> = ({
         />
       </div>
       
+      {/* Repeat settings (only for tasks, not subtasks) */}
+      {!subtask && onUpdateRecurrence && (
+        <div className="space-y-4 pt-2 border-t">
+          <div className="space-y-2">
+            <Label htmlFor="repeat" className="text-sm font-medium">
+              Repeat
+            </Label>
+            <Select value={repeat} onValueChange={handleRepeatChange}>
+              <SelectTrigger id="repeat" className="w-full">
+                <SelectValue placeholder="Does not repeat" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                <SelectItem value="daily">Every day</SelectItem>
+                <SelectItem value="weekdays">Every weekday</SelectItem>
+                <SelectItem value="weekly">Weekly on chosen days</SelectItem>
+                <SelectItem value="interval">Every few days</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Each day a repeating task comes up is checked off on its own
+            </p>
+          </div>
+          
+          {repeat === 'weekly' && (
+            <div className="flex flex-wrap gap-1">
+              {weekdayOptions.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={repeatDays.includes(value) ? 'default' : 'outline'}
+                  onClick={() => handleRepeatDayToggle(value)}
+                  className="px-2"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+          
+          {repeat === 'interval' && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="interval-days" className="text-sm">
+                Every
+              </Label>
+              <input
+                id="interval-days"
+                type="number"
+                min={1}
+                value={intervalDays}
+                onChange={handleIntervalDaysChange}
+                className="w-20 rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+              <span className="text-sm">days</span>
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* WhatsApp Notification section */}
       <div className="space-y-4 pt-2 border-t">
         <div className="space-y-0.5">
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { runningTimerQueryKey, timeReportQueryKey, formatDuration } from '@/lib/time-tracking';
+import { useToast } from '@/hooks/use-toast';
+import { TimeEntry } from '../types';
+
+interface TaskTimerProps {
+  goalId: number;
+  taskId: string;
+  subtaskId?: string;
+}
+
+/**
+ * Start/stop timer for a task or subtask. Only one timer runs at a time:
+ * starting this one stops whichever timer was running.
+ */
+const TaskTimer: React.FC<TaskTimerProps> = ({ goalId, taskId, subtaskId }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: running } = useQuery<TimeEntry | null>({
+    queryKey: runningTimerQueryKey,
+  });
+
+  const isRunning = !!running &&
+    running.goalId === goalId &&
+    running.taskId === taskId &&
+    (running.subtaskId ?? undefined) === subtaskId;
+
+  // Tick every second while this timer runs
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const timerMutation = useMutation({
+    mutationFn: async () => {
+      const response = isRunning
+        ? await apiRequest('POST', `/api/goals/${goalId}/time-entries/${running!.id}/stop`)
+        : await apiRequest('POST', `/api/goals/${goalId}/time-entries`, { taskId, subtaskId });
+      return await response.json() as TimeEntry;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: runningTimerQueryKey });
+      queryClient.invalidateQueries({ queryKey: timeReportQueryKey(goalId) });
+      // Starting a timer stops the one that was running, maybe on another goal
+      if (running && running.goalId !== goalId) {
+        queryClient.invalidateQueries({ queryKey: timeReportQueryKey(running.goalId) });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: isRunning ? 'Failed to stop timer' : 'Failed to start timer',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const elapsedSeconds = isRunning
+    ? Math.max(0, Math.floor((now - new Date(running!.startedAt).getTime()) / 1000))
+    : 0;
+
+  return (
+    <button
+      type="button"
+      onClick={() => timerMutation.mutate()}
+      disabled={timerMutation.isPending}
+      title={isRunning ? 'Stop timer' : 'Start timer'}
+      className={`flex items-center gap-1 rounded-full text-xs transition-colors disabled:opacity-50 ${
+        isRunning
+          ? 'bg-red-50 text-red-600 hover:bg-red-100 px-2 h-8'
+          : 'bg-gray-50 text-gray-500 hover:text-blue-600 hover:bg-blue-50 w-8 h-8 justify-center'
+      }`}
+    >
+      <span>{isRunning ? '⏹' : '▶'}</span>
+      {isRunning && <span className="font-mono">{formatDuration(elapsedSeconds)}</span>}
+    </button>
+  );
+};
+
+export default TaskTimer;
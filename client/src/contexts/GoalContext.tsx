@@ -1,8 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { apiRequest } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
+import { activityQueryKey, coachMessageQueryKey } from '@/lib/activity';
+import { timeReportQueryKey } from '@/lib/time-tracking';
+import { userSettingsQueryKey } from '@/lib/user-settings';
 import { useToast } from '@/hooks/use-toast';
-import { Goal, GoalContextType, ProgressUpdateOptions, RoadblockOptions, NotificationChannel, UserSettings, ReminderFrequency } from '../types';
+import { Goal, GoalContextType, ProgressUpdateOptions, RoadblockOptions, RoadblockUpdateOptions, FocusSessionOptions, NotificationChannel, UserSettings, ReminderFrequency, TaskRecurrence } from '../types';
+import { toLocalDateString } from '@shared/recurrence';
 import { saveGoalsToLocalStorage, getGoalsFromLocalStorage } from '../lib/localStorage';
 import { useAuth } from '../hooks/use-auth';
 
@@ -61,9 +65,7 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     title: string,
     timeConstraintMinutes?: number,
     additionalInfo?: string,
-    notificationChannels?: NotificationChannel[],
-    contactEmail?: string,
-    contactPhone?: string
+    notificationChannels?: NotificationChannel[]
   ): Promise<void> => {
     try {
       setLoading(true);
@@ -84,9 +86,7 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         title,
         timeConstraintMinutes,
         additionalInfo,
-        notificationChannels,
-        contactEmail,
-        contactPhone
+        notificationChannels
       });
       
       const newGoal = await response.json();
@@ -136,30 +136,51 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const toggleTaskCompletion = async (goalId: number, taskId: string, completed: boolean): Promise<void> => {
     try {
-      // Optimistically update the UI
+      // Recurring tasks are completed one day at a time: toggle today's occurrence
+      const today = toLocalDateString();
+      const recurring = !!goals.find(goal => goal.id === goalId)?.tasks.find(task => task.id === taskId)?.recurrence;
+      
+      // Optimistically update the UI (the server recalculates progress)
       setGoals(prevGoals => 
         prevGoals.map(goal => {
           if (goal.id === goalId) {
-            const updatedTasks = goal.tasks.map(task => 
-              task.id === taskId ? { ...task, completed } : task
-            );
+            const updatedTasks = goal.tasks.map(task => {
+              if (task.id !== taskId) return task;
+              if (!recurring) return { ...task, completed };
+              
+              const occurrences = (task.occurrences || []).filter(occurrence => occurrence.date !== today);
+              return {
+                ...task,
+                occurrences: completed
+                  ? [...occurrences, { date: today, completedAt: new Date().toISOString() }]
+                  : occurrences
+              };
+            });
             
             // Calculate new progress
             const totalTasks = updatedTasks.length;
             const completedTasks = updatedTasks.filter(task => task.completed).length;
             const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
             
-            return { ...goal, tasks: updatedTasks, progress };
+            return { ...goal, tasks: updatedTasks, progress: recurring ? goal.progress : progress };
           }
           return goal;
         })
       );
       
       // Send update to API
-      await apiRequest('PATCH', '/api/tasks', { goalId, taskId, completed });
+      const response = await apiRequest('PATCH', '/api/tasks', recurring
+        ? { goalId, taskId, completed, date: today }
+        : { goalId, taskId, completed });
+      if (recurring) {
+        const updatedGoal: Goal = await response.json();
+        setGoals(prevGoals => prevGoals.map(goal => goal.id === updatedGoal.id ? updatedGoal : goal));
+      }
       
       // Invalidate any related queries
       queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/journal`] });
+      queryClient.invalidateQueries({ queryKey: activityQueryKey });
       
     } catch (err) {
       // Revert the optimistic update on error
@@ -225,6 +246,8 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       
       // Invalidate any related queries
       queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/journal`] });
+      queryClient.invalidateQueries({ queryKey: activityQueryKey });
       
     } catch (err) {
       // Revert the optimistic update on error
@@ -255,13 +278,11 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setLoading(true);
       setError(null);
       
-      const { goalId, updateMessage, notifyChannels, contactEmail, contactPhone } = options;
+      const { goalId, updateMessage, notifyChannels } = options;
       
       const response = await apiRequest('POST', `/api/goals/${goalId}/progress`, {
         updateMessage,
-        notifyChannels,
-        contactEmail,
-        contactPhone
+        notifyChannels
       });
       
       const updatedGoal = await response.json();
@@ -271,6 +292,8 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         prevGoals.map(goal => goal.id === updatedGoal.id ? updatedGoal : goal)
       );
       
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/journal`] });
+      
       toast({
         title: 'Progress updated',
         description: 'Your progress update has been recorded and notifications sent.',
@@ -293,14 +316,14 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setLoading(true);
       setError(null);
       
-      const { goalId, description, needsHelp, notifyChannels, contactEmail, contactPhone } = options;
+      const { goalId, description, blockedTaskIds, severity, needsHelp, notifyChannels } = options;
       
       const response = await apiRequest('POST', `/api/goals/${goalId}/roadblock`, {
         description,
+        blockedTaskIds,
+        severity,
         needsHelp,
-        notifyChannels,
-        contactEmail,
-        contactPhone
+        notifyChannels
       });
       
       const updatedGoal = await response.json();
@@ -310,6 +333,8 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         prevGoals.map(goal => goal.id === updatedGoal.id ? updatedGoal : goal)
       );
       
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/journal`] });
+      
       toast({
         title: 'Roadblock reported',
         description: 'Your roadblock has been recorded and notifications sent.',
@@ -327,6 +352,75 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const updateRoadblock = async (
+    goalId: number, 
+    roadblockId: number, 
+    updates: RoadblockUpdateOptions
+  ): Promise<void> => {
+    try {
+      const response = await apiRequest('PATCH', `/api/goals/${goalId}/roadblocks/${roadblockId}`, updates);
+      const { goal: updatedGoal } = await response.json();
+      
+      // Update goals with the new state
+      setGoals(prevGoals => 
+        prevGoals.map(goal => goal.id === updatedGoal.id ? updatedGoal : goal)
+      );
+      
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/journal`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/coach/roadblock-tips/${goalId}`] });
+      
+      if (updates.status === 'resolved') {
+        toast({
+          title: 'Roadblock resolved',
+          description: 'Nice work getting past it!',
+        });
+      }
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update roadblock. Please try again.',
+      });
+      console.error('Error updating roadblock:', err);
+    }
+  };
+
+  // Log a finished focus session; the server completes the subtask or task when asked to
+  const logFocusSession = async (options: FocusSessionOptions): Promise<void> => {
+    try {
+      const { goalId, ...session } = options;
+      const response = await apiRequest('POST', `/api/goals/${goalId}/focus-sessions`, session);
+      const { goal: updatedGoal } = await response.json();
+      
+      // Update goals with the new state
+      setGoals(prevGoals => 
+        prevGoals.map(goal => goal.id === updatedGoal.id ? updatedGoal : goal)
+      );
+      
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/focus-sessions`] });
+      queryClient.invalidateQueries({ queryKey: timeReportQueryKey(goalId) });
+      // The coach acknowledges the session in its next message
+      queryClient.invalidateQueries({ queryKey: coachMessageQueryKey });
+      if (options.markDone) {
+        queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+        queryClient.invalidateQueries({ queryKey: [`/api/goals/${goalId}/journal`] });
+        queryClient.invalidateQueries({ queryKey: activityQueryKey });
+      }
+      
+      toast({
+        title: 'Focus session logged',
+        description: `${options.completedIntervals * options.workMinutes} minutes of focused work. Nice!`,
+      });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to log focus session. Please try again.',
+      });
+      console.error('Error logging focus session:', err);
+    }
+  };
+
   // Update task scheduling (due date, calendar, reminders)
   const updateTaskSchedule = async (
     goalId: number, 
@@ -339,6 +433,8 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       enableWhatsapp?: boolean;
       whatsappNumber?: string;
       reminderFrequency?: ReminderFrequency;
+      reminderDays?: string[];
+      recurrence?: TaskRecurrence | null;
     }
   ): Promise<void> => {
     try {
@@ -353,7 +449,12 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                   ...(updates.dueDate !== undefined && { dueDate: updates.dueDate }),
                   ...(updates.addedToCalendar !== undefined && { addedToCalendar: updates.addedToCalendar }),
                   ...(updates.reminderEnabled !== undefined && { reminderEnabled: updates.reminderEnabled }),
-                  ...(updates.reminderTime !== undefined && { reminderTime: updates.reminderTime })
+                  ...(updates.reminderTime !== undefined && { reminderTime: updates.reminderTime }),
+                  ...(updates.enableWhatsapp !== undefined && { enableWhatsapp: updates.enableWhatsapp }),
+                  ...(updates.whatsappNumber !== undefined && { whatsappNumber: updates.whatsappNumber }),
+                  ...(updates.reminderFrequency !== undefined && { reminderFrequency: updates.reminderFrequency }),
+                  ...(updates.reminderDays !== undefined && { reminderDays: updates.reminderDays }),
+                  ...(updates.recurrence !== undefined && { recurrence: updates.recurrence })
                 };
               }
               return task;
@@ -366,7 +467,13 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       );
       
       // Send update to API
-      await apiRequest('PATCH', '/api/tasks/schedule', { goalId, taskId, updates });
+      const response = await apiRequest('PATCH', '/api/tasks/schedule', { goalId, taskId, updates });
+      
+      // Whether a task repeats changes the goal's progress, which the server recalculates
+      if (updates.recurrence !== undefined) {
+        const updatedGoal: Goal = await response.json();
+        setGoals(prevGoals => prevGoals.map(goal => goal.id === updatedGoal.id ? updatedGoal : goal));
+      }
       
       // Invalidate any related queries
       queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
@@ -476,55 +583,18 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  // Update global user settings (e.g., WhatsApp preferences)
-  const updateGlobalSettings = async (settings: UserSettings): Promise<void> => {
+  // Update global user settings (e.g., WhatsApp preferences). Only the fields given are changed.
+  const updateGlobalSettings = async (settings: Partial<UserSettings>): Promise<void> => {
     try {
-      // Store settings in localStorage for persistence
-      const userSettings = JSON.parse(localStorage.getItem('userSettings') || '{}');
-      const updatedSettings = { ...userSettings, ...settings };
-      localStorage.setItem('userSettings', JSON.stringify(updatedSettings));
-      
-      // Send settings to the server
-      await apiRequest(
-        'PATCH',
-        '/api/user/settings', 
-        updatedSettings
-      );
+      const response = await apiRequest('PATCH', '/api/user/settings', settings);
+      const savedSettings: UserSettings = await response.json();
       
-      // For whatsapp notification specifically, update each task with the new settings
-      if (settings.whatsappNumber && settings.enableWhatsappNotifications) {
-        // Apply WhatsApp settings to all tasks that have reminders enabled but no WhatsApp config
-        const updatedGoals = goals.map(goal => {
-          const updatedTasks = goal.tasks.map(task => {
-            if (task.reminderEnabled && !task.enableWhatsapp) {
-              return {
-                ...task,
-                enableWhatsapp: true,
-                whatsappNumber: settings.whatsappNumber,
-                reminderFrequency: settings.reminderFrequency || 'task-only'
-              };
-            }
-            return task;
-          });
-          
-          return { ...goal, tasks: updatedTasks };
-        });
-        
-        setGoals(updatedGoals);
-        
-        // Sync goal changes with the server
-        saveGoalsToLocalStorage(updatedGoals);
-        
-        // We'd also need to update tasks on the server, but that's handled by updateTaskSchedule
-        // which would be called separately for each task that needs updating
-      }
+      queryClient.setQueryData(userSettingsQueryKey, savedSettings);
       
       toast({
         title: 'Settings updated',
         description: 'Your notification preferences have been saved.',
       });
-      
-      return;
     } catch (err) {
       toast({
         variant: 'destructive',
@@ -547,9 +617,11 @@ export const GoalProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       toggleSubtaskCompletion,
       addProgressUpdate,
       reportRoadblock,
+      updateRoadblock,
       updateTaskSchedule,
       updateSubtaskSchedule,
-      updateGlobalSettings
+      updateGlobalSettings,
+      logFocusSession
     }}>
       {children}
     </GoalContext.Provider>
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { userSettingsQueryKey } from '@/lib/user-settings';
+import { useAuth } from './use-auth';
+import { UserSettings } from '../types';
+
+/**
+ * Where the server sends the user's notifications: the contact details in their settings,
+ * with the account email when they haven't set a contact email
+ */
+export function useNotificationContact(): { email?: string; phoneNumber?: string } {
+  const { user } = useAuth();
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: userSettingsQueryKey,
+    enabled: !!user,
+  });
+
+  return {
+    email: settings?.contactEmail || user?.email || undefined,
+    phoneNumber: settings?.whatsappNumber || settings?.contactPhone || undefined,
+  };
+}
@@ -0,0 +1,8 @@
+// The user's time zone, so streak days start at their midnight
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Query key for the user's completion streaks; invalidate it whenever a task or subtask is toggled
+export const activityQueryKey = [`/api/activity?tz=${encodeURIComponent(timeZone)}`];
+
+// Query key for the coaching message, which mentions the user's streak
+export const coachMessageQueryKey = [`/api/coach/message?tz=${encodeURIComponent(timeZone)}`];
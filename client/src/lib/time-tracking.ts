@@ -0,0 +1,24 @@
+// Query key for the user's running timer (null when no timer is running)
+export const runningTimerQueryKey = ['/api/time-entries/running'];
+
+// Query key for a goal's estimated against actual time; invalidate it whenever a timer starts or stops
+export const timeReportQueryKey = (goalId: number) => [`/api/goals/${goalId}/time-report`];
+
+/**
+ * Format a duration in seconds as m:ss, or h:mm:ss from an hour
+ */
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Format a number of minutes as e.g. "45 min" or "1h 30m"
+ */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  return rounded % 60 === 0 ? `${rounded / 60}h` : `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+}
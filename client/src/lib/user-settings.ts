@@ -0,0 +1,2 @@
+// Query key for the user's settings: contact details and notification preferences
+export const userSettingsQueryKey = ['/api/user/settings'];
@@ -89,8 +89,8 @@ const ModernTaskApp: React.FC = () => {
         
         setMessages(prev => [...prev, aiMessage]);
         
-        // If new tasks were created, refresh goals data
-        if (data.tasksCreated) {
+        // If the coach changed any goals, refresh goals data
+        if (data.actions?.some((action: { status: string }) => action.status === "applied")) {
           queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
         }
       } catch (error) {
@@ -2,10 +2,13 @@ import React, { useState, useEffect } from "react";
 import { CoachAvatar } from "@/components/CoachAvatar";
 import { ChatInterface } from "@/components/ChatInterface";
 import { GoalFormFlow } from "@/components/GoalFormFlow";
-import { Goal } from "@shared/schema";
+import { Goal, ActivityStats } from "@shared/schema";
+import { getTaskState } from "@shared/task-dependencies";
+import { occursOn, isOccurrenceCompleted, toLocalDateString } from "@shared/recurrence";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
+import { activityQueryKey, coachMessageQueryKey } from "@/lib/activity";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
 import { motion } from "framer-motion";
@@ -56,12 +59,18 @@ const NewDashboard: React.FC = () => {
   
   // Fetch coaching message
   const { data: coachingData, isLoading: isLoadingCoaching } = useQuery<{ message: string, type: string }>({
-    queryKey: ['/api/coach/message'],
+    queryKey: coachMessageQueryKey,
     enabled: !!user && !!goals?.length,
     refetchOnWindowFocus: false,
     refetchInterval: 3600000 // Refresh every hour
   });
   
+  // Fetch the user's completion streaks
+  const { data: activity } = useQuery<ActivityStats>({
+    queryKey: activityQueryKey,
+    enabled: !!user
+  });
+  
   // Update coach message and mood based on coaching data
   useEffect(() => {
     if (coachingData?.message) {
@@ -92,6 +101,7 @@ const NewDashboard: React.FC = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: activityQueryKey });
       
       // Show celebration for completion
       if (!selectedGoal) return;
@@ -123,8 +133,18 @@ const NewDashboard: React.FC = () => {
     
     goals.forEach(goal => {
       goal.tasks.forEach(task => {
-        // Include task if due today or overdue and not completed
-        if (task.dueDate && task.dueDate.startsWith(today) && !task.completed) {
+        // Recurring tasks are due on the days they occur on, until that day's occurrence is completed
+        if (task.recurrence) {
+          const localToday = toLocalDateString();
+          if (occursOn(task.recurrence, localToday) && !isOccurrenceCompleted(task, localToday) &&
+              getTaskState(goal.tasks, { ...task, completed: false }) === 'ready') {
+            todaysTasks.push({ goalId: goal.id, goalTitle: goal.title, task });
+          }
+          return;
+        }
+        
+        // Include task if due today and ready to work on (not completed, and not waiting on other tasks)
+        if (task.dueDate && task.dueDate.startsWith(today) && getTaskState(goal.tasks, task) === 'ready') {
           todaysTasks.push({
             goalId: goal.id,
             goalTitle: goal.title,
@@ -137,19 +157,6 @@ const NewDashboard: React.FC = () => {
     return todaysTasks;
   };
   
-  // Calculate user streak based on task completions
-  const getUserStreak = () => {
-    if (!goals || !goals.length) return 0;
-    
-    // This is a simplified version - in a real app, you'd track daily activity
-    // For this demo, we'll just count completed tasks as a proxy for streaks
-    const totalCompletedTasks = goals.reduce((sum, goal) => {
-      return sum + goal.tasks.filter(t => t.completed).length;
-    }, 0);
-    
-    return Math.min(Math.max(1, Math.floor(totalCompletedTasks / 3)), 99); // Cap at 99
-  };
-  
   // Handle goal creation completion
   const handleGoalCreated = (goalId: number) => {
     setIsCreatingGoal(false);
@@ -167,7 +174,9 @@ const NewDashboard: React.FC = () => {
           lastMessage={coachMessage || undefined}
           isTyping={isLoadingCoaching}
           selectedGoal={selectedGoal || undefined}
-          currentStreak={getUserStreak()}
+          currentStreak={activity?.currentStreak}
+          longestStreak={activity?.longestStreak}
+          recentDays={activity?.days}
         />
       </div>
       
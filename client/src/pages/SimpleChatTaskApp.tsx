@@ -87,10 +87,12 @@ const SimpleChatTaskApp: React.FC = () => {
         
         setMessages(prev => [...prev, aiMessage]);
         
-        // If new tasks were created, refresh goals data
-        if (data.tasksCreated) {
+        // If the coach changed any goals, refresh goals data
+        if (data.actions?.some((action: { status: string }) => action.status === "applied")) {
           queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
-          
+        }
+        
+        if (data.tasksCreated) {
           // Auto-expand the goal that was just created
           if (aiMessage.goalId) {
             setExpandedGoals(prev => ({
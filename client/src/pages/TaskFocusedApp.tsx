@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, streamApiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Goal } from "@shared/schema";
+import { getTaskState } from "@shared/task-dependencies";
+import { occursOn, isOccurrenceCompleted, toLocalDateString } from "@shared/recurrence";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   AlertCircle, Calendar, Check, ChevronDown, ChevronRight, 
@@ -85,10 +87,8 @@ export default function TaskFocusedApp() {
   const [addTaskModalOpen, setAddTaskModalOpen] = useState(false);
   const [addTaskComplexity, setAddTaskComplexity] = useState<"low" | "medium" | "high">("medium");
   
-  // Conversation history for AI context retention
-  const [conversationHistory, setConversationHistory] = useState<
-    Array<{ role: 'user' | 'assistant'; content: string }>
-  >([]);
+  // Stored coach conversation - the server keeps the history for context retention
+  const [conversationId, setConversationId] = useState<number | undefined>(undefined);
   
   // Fetch user's goals
   const { data: goals = [], isLoading: isLoadingGoals } = useQuery<Goal[]>({
@@ -97,18 +97,78 @@ export default function TaskFocusedApp() {
     refetchOnWindowFocus: false
   });
   
+  // Resume the most recent general conversation with the coach after a reload
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    
+    const loadConversation = async () => {
+      try {
+        const listResponse = await apiRequest("GET", "/api/coach/conversations?goalId=none");
+        const conversations: Array<{ id: number }> = await listResponse.json();
+        if (conversations.length === 0) return;
+        
+        const response = await apiRequest("GET", `/api/coach/conversations/${conversations[0].id}`);
+        const conversation: {
+          id: number;
+          messages: Array<{ id: number; role: 'user' | 'assistant'; content: string; createdAt: string }>;
+        } = await response.json();
+        if (cancelled) return;
+        
+        setConversationId(conversation.id);
+        setMessages(prev => [
+          prev[0],
+          ...conversation.messages.map(msg => ({
+            id: `stored-${msg.id}`,
+            content: msg.content,
+            sender: msg.role === 'user' ? "user" as const : "ai" as const,
+            timestamp: new Date(msg.createdAt)
+          }))
+        ]);
+      } catch (error) {
+        console.error("Failed to load conversation:", error);
+      }
+    };
+    
+    loadConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+  
   // Auto-scroll to the latest message
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
   
-  // Send message mutation
+  // Send message mutation - the coach's reply is streamed in token by token
   const sendMessage = useMutation({
     mutationFn: async (content: string) => {
-      return await apiRequest("POST", "/api/coach/chat", {
+      const streamingId = `streaming-${Date.now()}`;
+      let data: any = null;
+      
+      await streamApiRequest("/api/coach/chat/stream", {
         message: content,
-        conversationHistory: conversationHistory
+        conversationId
+      }, (event, payload) => {
+        if (event === "token") {
+          // Show the partial reply in place of the typing indicator
+          setIsTyping(false);
+          setMessages(prev => prev.some(m => m.id === streamingId)
+            ? prev.map(m => m.id === streamingId ? { ...m, content: m.content + payload.text } : m)
+            : [...prev, { id: streamingId, content: payload.text, sender: "ai", timestamp: new Date() }]
+          );
+        } else if (event === "done") {
+          data = payload;
+        } else if (event === "error") {
+          throw new Error(payload.message);
+        }
       });
+      
+      if (!data) {
+        throw new Error("The response ended unexpectedly");
+      }
+      return { data, streamingId };
     },
     onMutate: (content) => {
       // Add user message immediately
@@ -120,16 +180,11 @@ export default function TaskFocusedApp() {
       };
       setMessages(prev => [...prev, newMessage]);
       
-      // Update conversation history for context retention
-      setConversationHistory(prev => [...prev, { role: 'user', content }]);
-      
       setInput("");
       setIsTyping(true);
     },
-    onSuccess: async (response) => {
+    onSuccess: async ({ data, streamingId }) => {
       try {
-        const data = await response.json();
-        
         const aiMessage: Message = {
           id: Date.now().toString(),
           content: data.message,
@@ -137,18 +192,20 @@ export default function TaskFocusedApp() {
           timestamp: new Date(),
           isTaskCreation: data.tasksCreated,
           goalId: data.tasksCreated ? goals.find(g => 
-            g.tasks.some(t => data.relatedTasks?.includes(t.title))
+            g.tasks.some(t => data.relatedTasks?.includes(t.id))
           )?.id : undefined
         };
         
-        // Add to the UI messages
-        setMessages(prev => [...prev, aiMessage]);
+        // Replace the streamed text with the final reply (which may include action results)
+        setMessages(prev => [...prev.filter(m => m.id !== streamingId), aiMessage]);
         
-        // Update conversation history with AI response for context retention
-        setConversationHistory(prev => [...prev, { role: 'assistant', content: data.message }]);
+        // Keep sending follow-up messages to the same stored conversation
+        if (data.conversationId) {
+          setConversationId(data.conversationId);
+        }
         
-        // If new tasks were created, refresh goals data
-        if (data.tasksCreated) {
+        // If the coach changed any goals, refresh goals data
+        if (data.actions?.some((action: { status: string }) => action.status === "applied")) {
           await queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
           queryClient.refetchQueries({ 
             queryKey: ['/api/goals'],
@@ -168,6 +225,7 @@ export default function TaskFocusedApp() {
     },
     onError: (error) => {
       console.error("Error sending message:", error);
+      setMessages(prev => prev.filter(m => !m.id.startsWith("streaming-")));
       toast({
         title: "Error",
         description: "Failed to send message",
@@ -179,14 +237,16 @@ export default function TaskFocusedApp() {
   
   // Task completion mutation with optimistic updates and debounced server communication
   const toggleTaskCompletion = useMutation({
-    mutationFn: async ({ goalId, taskId, completed }: { goalId: number; taskId: string; completed: boolean }) => {
+    // For recurring tasks, date is the occurrence to complete
+    mutationFn: async ({ goalId, taskId, completed, date }: { goalId: number; taskId: string; completed: boolean; date?: string }) => {
       return await apiRequest("PATCH", "/api/tasks", {
         goalId,
         taskId,
-        completed
+        completed,
+        date
       });
     },
-    onMutate: async ({ goalId, taskId, completed }) => {
+    onMutate: async ({ goalId, taskId, completed, date }) => {
       // Cancel any outgoing refetches to prevent UI flicker
       await queryClient.cancelQueries({ queryKey: ['/api/goals'] });
       
@@ -199,6 +259,13 @@ export default function TaskFocusedApp() {
           if (goal.id === goalId) {
             // Calculate new progress based on task completion status
             const updatedTasks = goal.tasks.map(task => {
+              if (task.id === taskId && date) {
+                const occurrences = (task.occurrences || []).filter(occurrence => occurrence.date !== date);
+                return {
+                  ...task,
+                  occurrences: completed ? [...occurrences, { date, completedAt: new Date().toISOString() }] : occurrences
+                };
+              }
               if (task.id === taskId) {
                 return { ...task, completed };
               }
@@ -378,31 +445,9 @@ export default function TaskFocusedApp() {
   
   // Add task mutation
   const addTask = useMutation({
-    mutationFn: async ({ goalId, title, complexity }: { goalId: number, title: string, complexity: string }) => {
-      // Create a unique ID for the new task
-      const taskId = `task-${Date.now()}`;
-      
-      // Get the current goal first to preserve existing tasks
-      const goal = goals.find(g => g.id === goalId);
-      if (!goal) {
-        throw new Error("Goal not found");
-      }
-      
-      // Create a copy of existing tasks and add the new one
-      const updatedTasks = [
-        ...goal.tasks,
-        {
-          id: taskId,
-          title,
-          complexity,
-          completed: false,
-          subtasks: []
-        }
-      ];
-      
-      return await apiRequest("PATCH", `/api/goals/${goalId}`, {
-        tasks: updatedTasks
-      });
+    mutationFn: async ({ goalId, title, complexity }: { goalId: number, title: string, complexity: "low" | "medium" | "high" }) => {
+      // Added on the server, so tasks changed meanwhile (e.g. completed in another tab) are kept
+      return await apiRequest("POST", `/api/goals/${goalId}/tasks`, { title, complexity });
     },
     onSuccess: async () => {
       setAddTaskTitle("");
@@ -530,9 +575,19 @@ export default function TaskFocusedApp() {
   };
   
   // Calculate all tasks for today's view (including completed ones)
+  // Only tasks that can be worked on now: blocked tasks wait until their prerequisites are done.
+  // Recurring tasks show up on the days they occur on, completed once that day's occurrence is.
+  const today = toLocalDateString();
   const todaysTasks = goals.flatMap(goal => 
     goal.tasks
-      .map(task => ({ ...task, goalId: goal.id, goalTitle: goal.title }))
+      .filter(task => !task.recurrence || occursOn(task.recurrence, today))
+      .filter(task => getTaskState(goal.tasks, task) !== 'blocked')
+      .map(task => ({
+        ...task,
+        completed: task.recurrence ? isOccurrenceCompleted(task, today) : task.completed,
+        goalId: goal.id,
+        goalTitle: goal.title
+      }))
   ).sort((a, b) => {
     // Sort only by priority, keeping completed tasks in place
     const priorityOrder = { high: 0, medium: 1, low: 2 };
@@ -674,7 +729,8 @@ export default function TaskFocusedApp() {
                           onClick={() => toggleTaskCompletion.mutate({
                             goalId: task.goalId!,
                             taskId: task.id,
-                            completed: !task.completed
+                            completed: !task.completed,
+                            date: task.recurrence ? today : undefined
                           })}
                           className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors ${
                             task.completed 
@@ -1054,7 +1110,7 @@ export default function TaskFocusedApp() {
               <Button 
                 type="submit" 
                 size="icon"
-                disabled={!input.trim() || isTyping}
+                disabled={!input.trim() || isTyping || sendMessage.isPending}
                 className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700"
               >
                 {isTyping ? (
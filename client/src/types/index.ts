@@ -17,6 +17,9 @@ export interface Task {
   complexity?: 'low' | 'medium' | 'high';
   context?: string;
   actionItems?: string[];
+  dependsOn?: string[]; // Ids of the goal's tasks that must be completed first
+  recurrence?: TaskRecurrence | null; // Makes the task repeat; each day it occurs on is completed separately
+  occurrences?: TaskOccurrence[]; // The completed occurrences of a recurring task
   dueDate?: string;
   addedToCalendar?: boolean;
   reminderEnabled?: boolean;
@@ -24,6 +27,22 @@ export interface Task {
   enableWhatsapp?: boolean;
   whatsappNumber?: string;
   reminderFrequency?: ReminderFrequency;
+  reminderDays?: string[];
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export interface TaskRecurrence {
+  frequency: 'daily' | 'weekdays' | 'weekly' | 'interval';
+  days?: Weekday[]; // For weekly recurrence
+  intervalDays?: number; // For interval recurrence: every N days
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+export interface TaskOccurrence {
+  date: string; // YYYY-MM-DD
+  completedAt: string;
 }
 
 export type NotificationChannel = 'email' | 'slack' | 'whatsapp';
@@ -46,31 +65,124 @@ export interface Goal {
 export interface ProgressUpdateOptions {
   goalId: number;
   updateMessage: string;
-  notifyChannels?: NotificationChannel[];
-  contactEmail?: string;
-  contactPhone?: string;
+  notifyChannels?: NotificationChannel[]; // Sent to the contact details in the user's settings
 }
 
 export interface RoadblockOptions {
   goalId: number;
   description: string;
+  blockedTaskIds?: string[];
+  severity?: RoadblockSeverity;
   needsHelp?: boolean;
-  notifyChannels?: NotificationChannel[];
-  contactEmail?: string;
-  contactPhone?: string;
+  notifyChannels?: NotificationChannel[]; // Sent to the contact details in the user's settings
+}
+
+export type RoadblockSeverity = 'low' | 'medium' | 'high';
+export type RoadblockStatus = 'open' | 'mitigating' | 'resolved';
+
+// A roadblock reported on a goal, as returned by /api/goals/:id/roadblocks
+export interface Roadblock {
+  id: number;
+  goalId: number;
+  description: string;
+  blockedTaskIds: string[];
+  severity: RoadblockSeverity;
+  status: RoadblockStatus;
+  needsHelp: boolean;
+  resolutionNote: string | null;
+  createdAt: string;
+  updatedAt: string;
+  escalatedAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface RoadblockUpdateOptions {
+  status?: RoadblockStatus;
+  severity?: RoadblockSeverity;
+  blockedTaskIds?: string[];
+  resolutionNote?: string;
+}
+
+export type GoalJournalEntryType = 'progress_update' | 'roadblock' | 'roadblock_resolved' | 'task_completed';
+
+// An entry in a goal's history, as returned by /api/goals/:id/journal
+export interface GoalJournalEntry {
+  id: number;
+  goalId: number;
+  type: GoalJournalEntryType;
+  message: string;
+  taskId: string | null;
+  roadblockId: number | null;
+  createdAt: string;
+  roadblock?: Roadblock; // The current state of the entry's roadblock
+}
+
+// Time spent on a task or subtask, as returned by /api/goals/:id/time-entries
+export interface TimeEntry {
+  id: number;
+  userId: string;
+  goalId: number;
+  taskId: string;
+  subtaskId: string | null;
+  startedAt: string;
+  stoppedAt: string | null; // Null while the timer is running
+  durationSeconds: number | null;
+}
+
+export interface TimeReportItem {
+  id: string;
+  title: string;
+  estimatedMinutes: number | null;
+  actualMinutes: number;
+}
+
+// Estimated against actual time for a goal's tasks, as returned by /api/goals/:id/time-report
+export interface GoalTimeReport {
+  goalId: number;
+  estimatedMinutes: number | null;
+  actualMinutes: number;
+  tasks: (TimeReportItem & { subtasks: TimeReportItem[] })[];
+}
+
+// A finished focus session (work/break intervals on a task or subtask), as returned by /api/goals/:id/focus-sessions
+export interface FocusSession {
+  id: number;
+  userId: string;
+  goalId: number;
+  taskId: string;
+  subtaskId: string | null;
+  workMinutes: number;
+  breakMinutes: number;
+  completedIntervals: number;
+  startedAt: string;
+  endedAt: string;
+  acknowledgedAt: string | null; // Set once the coach has mentioned the session
+}
+
+export interface FocusSessionOptions {
+  goalId: number;
+  taskId: string;
+  subtaskId?: string;
+  workMinutes: number;
+  breakMinutes: number;
+  completedIntervals: number;
+  startedAt: string;
+  markDone?: boolean; // Complete the subtask (or the task) at the end of the session
 }
 
 export type ReminderFrequency = 'daily' | 'weekly' | 'task-only';
 
+// A user's contact details and notification preferences, as returned by /api/user/settings
 export interface UserSettings {
-  whatsappNumber?: string;
-  enableWhatsappNotifications?: boolean;
-  defaultNotificationChannels?: NotificationChannel[];
-  contactEmail?: string;
-  contactPhone?: string;
-  reminderFrequency?: ReminderFrequency;
-  reminderTime?: string;
-  reminderDays?: string[]; // For weekly reminders, which days of the week
+  contactEmail: string | null; // Used instead of the account email when set
+  contactPhone: string | null;
+  whatsappNumber: string | null;
+  enableWhatsappNotifications: boolean;
+  defaultNotificationChannels: NotificationChannel[];
+  // Defaults for task reminders that don't set their own
+  reminderFrequency: ReminderFrequency | null;
+  reminderTime: string | null;
+  reminderDays: string[] | null; // For weekly reminders, which days of the week
 }
 
 export type GoalContextType = {
@@ -81,15 +193,14 @@ export type GoalContextType = {
     title: string, 
     timeConstraintMinutes?: number, 
     additionalInfo?: string,
-    notificationChannels?: NotificationChannel[],
-    contactEmail?: string, 
-    contactPhone?: string
+    notificationChannels?: NotificationChannel[]
   ) => Promise<void>;
   deleteGoal: (id: number) => Promise<void>;
   toggleTaskCompletion: (goalId: number, taskId: string, completed: boolean) => Promise<void>;
   toggleSubtaskCompletion: (goalId: number, taskId: string, subtaskId: string, completed: boolean) => Promise<void>;
   addProgressUpdate: (options: ProgressUpdateOptions) => Promise<void>;
   reportRoadblock: (options: RoadblockOptions) => Promise<void>;
+  updateRoadblock: (goalId: number, roadblockId: number, updates: RoadblockUpdateOptions) => Promise<void>;
   updateTaskSchedule: (
     goalId: number, 
     taskId: string, 
@@ -101,6 +212,8 @@ export type GoalContextType = {
       enableWhatsapp?: boolean;
       whatsappNumber?: string;
       reminderFrequency?: ReminderFrequency;
+      reminderDays?: string[];
+      recurrence?: TaskRecurrence | null;
     }
   ) => Promise<void>;
   updateSubtaskSchedule: (
@@ -112,5 +225,6 @@ export type GoalContextType = {
       addedToCalendar?: boolean;
     }
   ) => Promise<void>;
-  updateGlobalSettings: (settings: UserSettings) => Promise<void>;
+  updateGlobalSettings: (settings: Partial<UserSettings>) => Promise<void>;
+  logFocusSession: (options: FocusSessionOptions) => Promise<void>;
 };
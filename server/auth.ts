@@ -1,21 +1,35 @@
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import { Strategy as LocalStrategy } from 'passport-local';
-import { storage } from './storage';
+import { storage, storageDriver } from './storage';
 import express, { Request, Response, NextFunction } from 'express';
 import session from 'express-session';
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import ws from 'ws';
 import { z, ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
-import { type User } from '@shared/schema';
+import { type User, type Goal } from '@shared/schema';
 import connectPgSimple from 'connect-pg-simple';
+import createMemoryStore from 'memorystore';
 import crypto from 'crypto';
 
 neonConfig.webSocketConstructor = ws;
 
-// Set up PostgreSQL session store
+// Set up PostgreSQL session store (in-memory when not using PostgreSQL storage)
 const PgStore = connectPgSimple(session);
+const MemoryStore = createMemoryStore(session);
+
+function createSessionStore(): session.Store {
+  if (storageDriver !== 'postgres') {
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }); // Prune expired sessions daily
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return new PgStore({
+    pool,
+    tableName: 'session', // Name of session table
+  });
+}
 
 // Password hashing functions
 const hashPassword = (password: string): string => {
@@ -118,14 +132,9 @@ passport.deserializeUser(async (id: number, done) => {
 
 // Set up session middleware
 export function setupAuth(app: express.Express) {
-  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-
   app.use(
     session({
-      store: new PgStore({
-        pool,
-        tableName: 'session', // Name of session table
-      }),
+      store: createSessionStore(),
       secret: process.env.SESSION_SECRET || 'task-breaker-session-secret',
       resave: false,
       saveUninitialized: false,
@@ -281,4 +290,45 @@ export const loginUserSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
-export type LoginUserRequest = z.infer<typeof loginUserSchema>;
\ No newline at end of file
+export type LoginUserRequest = z.infer<typeof loginUserSchema>;
+/**
+ * Middleware that loads the goal a request refers to and checks that it belongs to the logged-in user.
+ * Another user's goal gets the same 404 as a missing one, so goal ids can't be probed.
+ * Routes read the checked goal with getOwnedGoal(res).
+ * @param getGoalId Reads the goal id from the request, e.g. req => req.params.id
+ */
+export function requireOwnedGoal(getGoalId: (req: Request) => unknown) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    const rawGoalId = getGoalId(req);
+    if (rawGoalId === undefined || rawGoalId === null || rawGoalId === '') {
+      return res.status(400).json({ message: 'Goal ID is required' });
+    }
+    const goalId = Number(rawGoalId);
+    if (!Number.isInteger(goalId)) {
+      return res.status(400).json({ message: 'Invalid goal ID' });
+    }
+
+    try {
+      const goal = await storage.getGoal(goalId);
+      if (!goal || goal.userId !== String((req.user as User).id)) {
+        return res.status(404).json({ message: 'Goal not found' });
+      }
+
+      res.locals.goal = goal;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * The goal loaded by requireOwnedGoal
+ */
+export function getOwnedGoal(res: Response): Goal {
+  return res.locals.goal as Goal;
+}
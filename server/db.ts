@@ -1,15 +1,23 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+export type Database = NeonDatabase<typeof schema>;
+
+/**
+ * Connect to the PostgreSQL database. Only called when the postgres storage driver is selected,
+ * so the app can run on the memory or SQLite storage without a DATABASE_URL.
+ */
+export function connectDatabase(connectionString = process.env.DATABASE_URL): { pool: Pool; db: Database } {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle(pool, { schema }) };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { type Goal, type Task, type TimeEntry, type TaskComplexity } from "@shared/schema";
+import { computeEstimateCalibration } from "./estimate-calibration";
+
+function makeTask(id: string, estimatedMinutes: number, completedAt: string, complexity: TaskComplexity = "medium"): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    completed: true,
+    completedAt,
+    subtasks: [],
+    estimatedMinutes,
+    complexity,
+    addedToCalendar: false,
+    reminderEnabled: false,
+    enableWhatsapp: false
+  };
+}
+
+function makeGoal(tasks: Task[]): Goal {
+  return {
+    id: 1,
+    title: "Renovate the kitchen",
+    userId: "1",
+    progress: 100,
+    createdAt: "2026-03-01T00:00:00.000Z",
+    totalEstimatedMinutes: null,
+    timeConstraintMinutes: null,
+    additionalInfo: null,
+    overallSuggestions: null,
+    notificationChannels: null,
+    lastProgressUpdate: null,
+    roadblocks: null,
+    complexity: null,
+    tasks
+  };
+}
+
+// A stopped timer of the given length on a task
+function tracked(taskId: string, minutes: number): TimeEntry {
+  return {
+    id: 1,
+    userId: "1",
+    goalId: 1,
+    taskId,
+    subtaskId: null,
+    startedAt: new Date("2026-03-01T08:00:00.000Z"),
+    stoppedAt: new Date("2026-03-01T09:00:00.000Z"),
+    durationSeconds: minutes * 60
+  };
+}
+
+describe("estimate calibration", () => {
+  it("has no ratios without completed tasks", () => {
+    expect(computeEstimateCalibration([], [])).toEqual({ overall: null, byComplexity: {} });
+  });
+
+  it("needs a few samples before using a ratio", () => {
+    const goal = makeGoal([
+      makeTask("a", 30, "2026-03-01T10:00:00.000Z"),
+      makeTask("b", 30, "2026-03-01T11:00:00.000Z")
+    ]);
+
+    const calibration = computeEstimateCalibration([goal], [tracked("a", 60), tracked("b", 60)]);
+    expect(calibration).toEqual({ overall: null, byComplexity: {} });
+  });
+
+  it("compares tracked time with the estimates, overall and by complexity", () => {
+    const goal = makeGoal([
+      makeTask("a", 30, "2026-03-01T10:00:00.000Z"),
+      makeTask("b", 30, "2026-03-01T11:00:00.000Z"),
+      makeTask("c", 40, "2026-03-01T12:00:00.000Z"),
+      makeTask("d", 10, "2026-03-01T13:00:00.000Z", "low")
+    ]);
+    const entries = [tracked("a", 45), tracked("b", 60), tracked("c", 45), tracked("d", 10)];
+
+    const calibration = computeEstimateCalibration([goal], entries);
+    expect(calibration.overall).toEqual({ ratio: 1.45, sampleCount: 4 });
+    expect(calibration.byComplexity).toEqual({ medium: { ratio: 1.5, sampleCount: 3 } });
+  });
+
+  it("uses the time since the previous completion when nothing was tracked", () => {
+    // 20, 40 and 60 minutes after the task before, for 20 minute estimates
+    const goal = makeGoal([
+      makeTask("first", 20, "2026-03-01T09:00:00.000Z"),
+      makeTask("a", 20, "2026-03-01T09:20:00.000Z"),
+      makeTask("b", 20, "2026-03-01T10:00:00.000Z"),
+      makeTask("c", 20, "2026-03-01T11:00:00.000Z")
+    ]);
+
+    expect(computeEstimateCalibration([goal], []).overall).toEqual({ ratio: 2, sampleCount: 3 });
+  });
+
+  it("keeps ratios within bounds", () => {
+    const goal = makeGoal([
+      makeTask("a", 10, "2026-03-01T10:00:00.000Z"),
+      makeTask("b", 10, "2026-03-01T11:00:00.000Z"),
+      makeTask("c", 10, "2026-03-01T12:00:00.000Z")
+    ]);
+    const entries = [tracked("a", 120), tracked("b", 120), tracked("c", 120)];
+
+    expect(computeEstimateCalibration([goal], entries).overall).toEqual({ ratio: 4, sampleCount: 3 });
+  });
+});
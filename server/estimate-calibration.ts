@@ -0,0 +1,110 @@
+import {
+  type Goal, type TimeEntry,
+  type TaskComplexity, type EstimateRatio, type EstimateCalibration
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Completed tasks needed before a ratio is used
+export const MIN_CALIBRATION_SAMPLES = 3;
+
+// Ratios are kept within this range, so a few unusual tasks can't skew every estimate
+const MIN_RATIO = 0.25;
+const MAX_RATIO = 4;
+
+// Without tracked time, the time since the previous task completion stands in for the time spent.
+// Shorter gaps are tasks checked off together; longer ones include breaks.
+const MIN_COMPLETION_GAP_MINUTES = 1;
+const MAX_COMPLETION_GAP_MINUTES = 4 * 60;
+
+const complexities: TaskComplexity[] = ["low", "medium", "high"];
+
+// A completed task with both an estimate and a measure of the time it took
+interface EstimateSample {
+  complexity?: TaskComplexity;
+  estimatedMinutes: number;
+  actualMinutes: number;
+}
+
+/**
+ * Pair the estimates of a user's completed tasks with the time they took: the time tracked
+ * on the task and its subtasks, or else the time since the task completed before it.
+ * Recurring tasks are left out, as their estimate is per occurrence.
+ * @param entries The user's time entries
+ */
+export function getEstimateSamples(goals: Goal[], entries: TimeEntry[]): EstimateSample[] {
+  const trackedSeconds = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.durationSeconds === null) continue;
+    const key = `${entry.goalId}/${entry.taskId}`;
+    trackedSeconds.set(key, (trackedSeconds.get(key) || 0) + entry.durationSeconds);
+  }
+
+  const completions = goals
+    .flatMap(goal => goal.tasks
+      .filter(task => task.completed && task.completedAt && !task.recurrence)
+      .map(task => ({ goalId: goal.id, task, time: Date.parse(task.completedAt!) })))
+    .sort((a, b) => a.time - b.time);
+
+  const samples: EstimateSample[] = [];
+  completions.forEach(({ goalId, task, time }, index) => {
+    if (!task.estimatedMinutes) return;
+
+    const previousTime = index > 0 ? completions[index - 1].time : undefined;
+    const actualMinutes = getActualMinutes(trackedSeconds.get(`${goalId}/${task.id}`), time, previousTime);
+    if (actualMinutes !== undefined) {
+      samples.push({ complexity: task.complexity, estimatedMinutes: task.estimatedMinutes, actualMinutes });
+    }
+  });
+  return samples;
+}
+
+function getActualMinutes(
+  trackedSeconds: number | undefined,
+  completedAt: number,
+  previousCompletedAt: number | undefined
+): number | undefined {
+  if (trackedSeconds) return trackedSeconds / 60;
+  if (previousCompletedAt === undefined) return undefined;
+
+  const gapMinutes = (completedAt - previousCompletedAt) / 60000;
+  return gapMinutes >= MIN_COMPLETION_GAP_MINUTES && gapMinutes <= MAX_COMPLETION_GAP_MINUTES
+    ? gapMinutes
+    : undefined;
+}
+
+function toEstimateRatio(samples: EstimateSample[]): EstimateRatio | null {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  const estimated = samples.reduce((sum, sample) => sum + sample.estimatedMinutes, 0);
+  const actual = samples.reduce((sum, sample) => sum + sample.actualMinutes, 0);
+  const ratio = Math.min(MAX_RATIO, Math.max(MIN_RATIO, actual / estimated));
+  return { ratio: Math.round(ratio * 100) / 100, sampleCount: samples.length };
+}
+
+/**
+ * Compute how long a user's tasks take compared to their estimates, overall and by complexity
+ * @param entries The user's time entries
+ */
+export function computeEstimateCalibration(goals: Goal[], entries: TimeEntry[]): EstimateCalibration {
+  const samples = getEstimateSamples(goals, entries);
+
+  const byComplexity: EstimateCalibration["byComplexity"] = {};
+  for (const complexity of complexities) {
+    const ratio = toEstimateRatio(samples.filter(sample => sample.complexity === complexity));
+    if (ratio) byComplexity[complexity] = ratio;
+  }
+
+  return { overall: toEstimateRatio(samples), byComplexity };
+}
+
+/**
+ * The estimate calibration of a user, from their goals and tracked time
+ */
+export async function getEstimateCalibration(userId: string): Promise<EstimateCalibration> {
+  const [goals, entries] = await Promise.all([
+    storage.getGoals(userId),
+    storage.getUserTimeEntries(userId)
+  ]);
+  return computeEstimateCalibration(goals, entries);
+}
+
@@ -0,0 +1,70 @@
+import { type Goal, type FocusSession, type LogFocusSessionRequest } from "@shared/schema";
+import { storage } from "./storage";
+import { recordTaskCompletions } from "./journal";
+import { clearCoachingMessageCache } from "./llm/ai-coach";
+import { notifyCompletions } from "./notifications";
+
+/**
+ * Error for a focus session that can't be logged, with the HTTP status to respond with
+ */
+export class FocusSessionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "FocusSessionError";
+  }
+}
+
+/**
+ * Log a finished focus session on one of the goal's tasks or subtasks, and complete
+ * the subtask (or the task) when asked to. The coach mentions the session in its next message.
+ * @returns The session, and the goal as it is after the session
+ */
+export async function logFocusSession(
+  userId: string,
+  goal: Goal,
+  request: LogFocusSessionRequest
+): Promise<{ session: FocusSession; goal: Goal }> {
+  const task = goal.tasks.find(t => t.id === request.taskId);
+  if (!task) {
+    throw new FocusSessionError("Task not found", 404);
+  }
+  if (request.subtaskId && !task.subtasks.some(subtask => subtask.id === request.subtaskId)) {
+    throw new FocusSessionError("Subtask not found", 404);
+  }
+  if (request.startedAt.getTime() > Date.now()) {
+    throw new FocusSessionError("A focus session can't start in the future", 400);
+  }
+
+  const session = await storage.createFocusSession({
+    userId,
+    goalId: goal.id,
+    taskId: task.id,
+    subtaskId: request.subtaskId ?? null,
+    workMinutes: request.workMinutes,
+    breakMinutes: request.breakMinutes,
+    completedIntervals: request.completedIntervals,
+    startedAt: request.startedAt
+  });
+
+  // A message cached before the session wouldn't mention it
+  clearCoachingMessageCache(userId);
+
+  if (!request.markDone) {
+    return { session, goal };
+  }
+
+  const updatedGoal = request.subtaskId
+    ? await storage.updateSubtaskCompletion(goal.id, task.id, request.subtaskId, true)
+    : await storage.updateTaskCompletion(goal.id, task.id, true);
+  if (!updatedGoal) {
+    throw new FocusSessionError("Goal, task, or subtask not found", 404);
+  }
+
+  // A failure here doesn't fail the session
+  await recordTaskCompletions(goal, updatedGoal)
+    .catch(err => console.error("Failed to record task completion:", err));
+  await notifyCompletions(goal, updatedGoal)
+    .catch(err => console.error("Failed to send task completion notification:", err));
+
+  return { session, goal: updatedGoal };
+}
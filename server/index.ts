@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupAuth } from "./auth";
+import { startReminderScheduler } from "./notifications/reminders";
+import { startOutboxWorker } from "./notifications/outbox";
 
 const app = express();
 app.use(express.json());
@@ -70,5 +72,17 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Deliver task reminders in the background unless explicitly disabled
+    if (process.env.REMINDER_SCHEDULER_ENABLED !== "false") {
+      startReminderScheduler();
+      log("reminder scheduler started", "reminders");
+    }
+
+    // Retry notifications that couldn't be delivered unless explicitly disabled
+    if (process.env.NOTIFICATION_WORKER_ENABLED !== "false") {
+      startOutboxWorker();
+      log("notification worker started", "notifications");
+    }
   });
 })();
@@ -0,0 +1,48 @@
+import { type Goal, type GoalJournalEntry, type GoalTimelineEntry, type Roadblock } from "@shared/schema";
+import { isOccurrenceCompleted } from "@shared/recurrence";
+import { storage } from "./storage";
+
+/**
+ * Annotate a goal's journal entries (newest first) for the timeline:
+ * roadblock entries get the current state of their roadblock
+ */
+export function buildTimeline(entries: GoalJournalEntry[], roadblocks: Roadblock[]): GoalTimelineEntry[] {
+  const roadblocksById = new Map(roadblocks.map(roadblock => [roadblock.id, roadblock]));
+
+  return entries.map(entry => {
+    const roadblock = entry.roadblockId !== null ? roadblocksById.get(entry.roadblockId) : undefined;
+    return roadblock ? { ...entry, roadblock } : entry;
+  });
+}
+
+/**
+ * Add a task_completed entry for each task, or occurrence of a recurring task, that was completed by an update
+ * @param before The goal before the update
+ * @param after The goal after the update
+ */
+export async function recordTaskCompletions(before: Goal, after: Goal): Promise<void> {
+  for (const task of after.tasks) {
+    const previous = before.tasks.find(t => t.id === task.id);
+    if (!previous) continue;
+
+    if (task.completed && !previous.completed) {
+      await storage.addJournalEntry({
+        goalId: after.id,
+        type: "task_completed",
+        message: `Completed "${task.title}"`,
+        taskId: task.id
+      });
+    }
+
+    for (const occurrence of task.occurrences ?? []) {
+      if (!isOccurrenceCompleted(previous, occurrence.date)) {
+        await storage.addJournalEntry({
+          goalId: after.id,
+          type: "task_completed",
+          message: `Completed "${task.title}" for ${occurrence.date}`,
+          taskId: task.id
+        });
+      }
+    }
+  }
+}
@@ -1,21 +1,64 @@
-import { Goal } from '@shared/schema';
-import { generateCompletion, getModel, isLLMAvailable } from './providers';
+import { Goal, Task, Roadblock, ActivityStats, FocusSession } from '@shared/schema';
+import { getActiveProvider } from './providers';
+import { storage } from '../storage';
+import { CoachMessage, CoachingContext, TaskDiscussionContext } from './types';
 
-interface CoachMessage {
-  message: string;
-  type: 'encouragement' | 'tip' | 'congratulation' | 'milestone';
+// How long a user's coaching message is reused before a new one is generated (default: 4 hours)
+const COACHING_MESSAGE_CACHE_MS = Number(process.env.COACHING_MESSAGE_CACHE_MS) || 4 * 60 * 60 * 1000;
+
+// Generated coaching messages, keyed by user id
+const coachingMessageCache = new Map<string, { message: CoachMessage; expiresAt: number }>();
+
+/**
+ * Forget a user's cached coaching message, so the next one reflects what they just did
+ */
+export function clearCoachingMessageCache(userId: string): void {
+  coachingMessageCache.delete(userId);
+}
+
+/**
+ * Describe a goal's roadblock for a prompt, including how severe it is and which tasks it blocks
+ */
+function describeRoadblock(goal: Goal, roadblock: Roadblock): string {
+  const blockedTasks = goal.tasks
+    .filter(task => roadblock.blockedTaskIds.includes(task.id))
+    .map(task => `"${task.title}"`);
+
+  const details = [`severity: ${roadblock.severity}`];
+  if (blockedTasks.length > 0) details.push(`blocking tasks: ${blockedTasks.join(', ')}`);
+  if (roadblock.status === 'mitigating') details.push('the user is already working around it');
+  if (roadblock.needsHelp) details.push('the user asked for help');
+
+  return `${roadblock.description} (${details.join('; ')})`;
 }
 
 /**
  * Generate a personalized coaching message based on the user's goals and progress
+ * @param options.userId When given, a message generated for this user within the cache window is reused
+ * @param options.openRoadblocks The unresolved roadblocks on these goals
+ * @param options.activity The user's completion streaks
+ * @param options.focusSessions Focus sessions the coach hasn't mentioned yet. They're acknowledged once a message
+ *   has been generated with them, so the fallback messages never use them up.
  */
 export async function generateCoachingMessage(
   goals: Goal[], 
-  userName: string = 'there'
+  userName: string = 'there',
+  options: { userId?: string; openRoadblocks?: Roadblock[]; activity?: ActivityStats; focusSessions?: FocusSession[] } = {}
 ): Promise<CoachMessage> {
+  const { userId, openRoadblocks = [], activity, focusSessions = [] } = options;
+
+  if (userId) {
+    const cached = coachingMessageCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.message;
+    }
+    coachingMessageCache.delete(userId);
+  }
+
   try {
     // Check if there's an LLM available
-    if (!isLLMAvailable()) {
+    const provider = getActiveProvider();
+    if (!provider) {
       return {
         message: "Keep going! You're making great progress on your goals.",
         type: 'encouragement'
@@ -30,82 +73,57 @@ export async function generateCoachingMessage(
     // Get the goal with the most progress
     const mostProgressGoal = [...goals].sort((a, b) => (b.progress || 0) - (a.progress || 0))[0];
     
-    // Get the goal with roadblocks
-    const goalsWithRoadblocks = goals.filter(goal => goal.roadblocks);
+    // Get the goals with open roadblocks
+    const roadblocksFor = (goal: Goal) => openRoadblocks.filter(roadblock => roadblock.goalId === goal.id);
+    const goalsWithRoadblocks = goals.filter(goal => roadblocksFor(goal).length > 0);
     
     // Format the context for the LLM
-    const context = {
+    const context: CoachingContext = {
       userName,
       goals: goals.map(goal => ({
         title: goal.title,
         progress: goal.progress || 0,
         tasksCompleted: goal.tasks.filter(t => t.completed).length,
         totalTasks: goal.tasks.length,
-        hasRoadblocks: !!goal.roadblocks,
-        roadblockDescription: goal.roadblocks || "",
+        hasRoadblocks: roadblocksFor(goal).length > 0,
+        roadblockDescription: roadblocksFor(goal).map(roadblock => describeRoadblock(goal, roadblock)).join('\n'),
+        needsHelp: roadblocksFor(goal).some(roadblock => roadblock.needsHelp),
         timeConstraint: goal.timeConstraintMinutes || 0
       })),
       overallProgress,
       totalCompletedTasks: goals.reduce((acc, goal) => acc + goal.tasks.filter(t => t.completed).length, 0),
       totalTasks: goals.reduce((acc, goal) => acc + goal.tasks.length, 0),
-      hasGoalsWithRoadblocks: goalsWithRoadblocks.length > 0
+      hasGoalsWithRoadblocks: goalsWithRoadblocks.length > 0,
+      currentStreak: activity?.currentStreak || 0,
+      longestStreak: activity?.longestStreak || 0,
+      completionsLast7Days: (activity?.days || []).slice(-7).reduce((acc, day) => acc + day.completions, 0),
+      recentFocusSessions: focusSessions.flatMap(session => {
+        const goal = goals.find(g => g.id === session.goalId);
+        const task = goal?.tasks.find(t => t.id === session.taskId);
+        if (!goal || !task) return [];
+        const subtask = session.subtaskId ? task.subtasks.find(s => s.id === session.subtaskId) : undefined;
+        return [{
+          goalTitle: goal.title,
+          taskTitle: subtask ? subtask.title : task.title,
+          focusedMinutes: session.workMinutes * session.completedIntervals,
+          completedIntervals: session.completedIntervals
+        }];
+      })
     };
 
-    const systemPrompt = `You are Coach AI, an expert productivity coach and motivator for the TaskBreaker app.
-    
-    Your coaching style:
-    - Compassionate but action-oriented
-    - Personalized to the user's specific goals and progress
-    - Backed by behavioral psychology and productivity research
-    - Balances warmth with accountability
-    - Attuned to emotional needs while focusing on practical next steps
+    const coachMessage = await provider.generateCoachingMessage(context);
 
-    Core responsibilities:
-    1. Analyze the user's current goals and progress data precisely
-    2. Identify specific achievements to celebrate and acknowledge
-    3. Recognize patterns in their work (roadblocks, progress spurts, etc.)
-    4. Provide personalized encouragement tailored to their situation
-    5. Offer actionable tips when appropriate (but not overwhelming)
-    6. Adapt your tone based on their progress (celebratory, supportive, motivating)
-    
-    Message types to use based on context:
-    - encouragement: Supportive messages for ongoing work or when motivation might be needed
-    - tip: One specific, actionable piece of strategic advice relevant to their current goals
-    - congratulation: Celebratory messages for completed tasks or significant progress
-    - milestone: Recognition of reaching important points in the goal journey
-    
-    Coaching guidelines:
-    - Analyze overall progress, recent activity, and any roadblocks thoroughly
-    - For users with many completed tasks, highlight accomplishments specifically
-    - For users with roadblocks, acknowledge the challenge and provide ONE specific tip
-    - For users just starting out, be especially encouraging and forward-looking
-    - For users with slow progress, be supportive without judgment
-    - Personalize by referencing the specific goal title or task they're working on
-    - Keep messages concise (2-3 sentences maximum)
-    - Use natural, conversational language (not overly formal or robotic)
-    - Include specific details about their goals to make the message feel personal
-    
-    Respond with JSON in this format:
-    {
-      "message": "Your personalized encouraging message here",
-      "type": "encouragement | tip | congratulation | milestone"
-    }`;
+    if (focusSessions.length > 0) {
+      // A failure here means the sessions are mentioned again, rather than losing the message
+      await storage.acknowledgeFocusSessions(focusSessions.map(session => session.id))
+        .catch(err => console.error('Failed to acknowledge focus sessions:', err));
+    }
 
-    // Create a prompt for the LLM
-    const messageContent = await generateCompletion({
-      systemPrompt,
-      userPrompt: JSON.stringify(context),
-      model: getModel('gpt-4o-mini'),
-      responseFormat: 'json_object'
-    });
-    
-    // Parse the response
-    const result = JSON.parse(messageContent);
-    
-    return {
-      message: result.message || "Keep up the good work!",
-      type: (result.type as CoachMessage['type']) || "encouragement"
-    };
+    // Only generated messages are cached, so a failure is retried on the next request
+    if (userId) {
+      coachingMessageCache.set(userId, { message: coachMessage, expiresAt: Date.now() + COACHING_MESSAGE_CACHE_MS });
+    }
+    return coachMessage;
     
   } catch (error) {
     console.error('Error generating coaching message:', error);
@@ -119,12 +137,13 @@ export async function generateCoachingMessage(
 }
 
 /**
- * Generate tips for overcoming roadblocks
+ * Generate tips for overcoming a roadblock
  */
-export async function generateRoadblockTips(goal: Goal): Promise<string[]> {
+export async function generateRoadblockTips(goal: Goal, roadblock: Roadblock): Promise<string[]> {
   try {
-    // Check if there's an LLM available and roadblock
-    if (!isLLMAvailable() || !goal.roadblocks) {
+    // Check if there's an LLM available
+    const provider = getActiveProvider();
+    if (!provider) {
       return [
         "Break down the challenge into smaller, more manageable tasks.",
         "Consider seeking help or advice from someone with expertise in this area.",
@@ -132,55 +151,8 @@ export async function generateRoadblockTips(goal: Goal): Promise<string[]> {
       ];
     }
 
-    const systemPrompt = `You are Coach AI, an expert in overcoming productivity roadblocks and obstacles.
-
-    Your expertise includes:
-    - Breaking through procrastination and motivation issues
-    - Solving technical and creative challenges
-    - Overcoming resource limitations
-    - Navigating complexity and uncertainty
-    - Building better habits and systems
-    
-    When presented with a goal and a roadblock, your job is to provide 3-5 highly specific, 
-    practical tips that directly address the roadblock described. Your advice should be:
-    
-    1. SPECIFIC: Tailored exactly to the roadblock described, not generic advice
-    2. ACTIONABLE: Something the user can implement immediately
-    3. PRACTICAL: Realistic for someone to execute without special resources
-    4. INSIGHTFUL: Offering a perspective or approach they might not have considered
-    5. VARIED: Covering different approaches to solving the problem
-    
-    For technical roadblocks: Provide specific technical approaches
-    For motivation roadblocks: Focus on psychological techniques and habit formation
-    For resource roadblocks: Suggest creative workarounds and alternative approaches
-    For skill-based roadblocks: Break down the learning process into manageable steps
-    
-    Format your response as a JSON object with a "tips" array of strings, each containing 
-    one practical tip (1-2 sentences per tip, be concise but specific).`;
-    
-    const userPrompt = `Goal: ${goal.title}\nRoadblock: ${goal.roadblocks || "Unknown roadblock"}`;
-
-    // Get roadblock tips from the LLM
-    const messageContent = await generateCompletion({
-      systemPrompt,
-      userPrompt,
-      model: getModel('gpt-4o-mini'),
-      responseFormat: 'json_object'
-    });
-    
-    // Parse the response
-    const result = JSON.parse(messageContent);
-    
-    // Ensure we're returning an array of strings
-    if (Array.isArray(result.tips)) {
-      return result.tips;
-    } else {
-      return [
-        "Break down the challenge into smaller, more manageable tasks.",
-        "Consider seeking help or advice from someone with expertise in this area.",
-        "Take a short break and return with a fresh perspective."
-      ];
-    }
+    // Get roadblock tips from the LLM (validated, so there's at least one)
+    return await provider.generateRoadblockTips(goal.title, describeRoadblock(goal, roadblock));
     
   } catch (error) {
     console.error('Error generating roadblock tips:', error);
@@ -199,22 +171,29 @@ export async function generateRoadblockTips(goal: Goal): Promise<string[]> {
  * @param goal The related goal
  * @param task The task to discuss
  * @param message User's message or question about the task
+ * @param onToken Optional callback that receives the response as it streams in
  */
-export async function discussTaskWithAI(goal: Goal, task: any, message: string): Promise<string> {
+export async function discussTaskWithAI(
+  goal: Goal, 
+  task: Task, 
+  message: string,
+  onToken?: (token: string) => void
+): Promise<string> {
   try {
     // Check if there's an LLM available
-    if (!isLLMAvailable()) {
+    const provider = getActiveProvider();
+    if (!provider) {
       return "I'd suggest breaking this task into smaller steps and tackle them one by one. If you're unsure about how to proceed, consider researching specific aspects or asking someone with relevant experience for advice.";
     }
 
-    const taskWithContext = {
+    const taskWithContext: TaskDiscussionContext = {
       title: task.title,
       context: task.context || "",
       complexity: task.complexity || "medium",
       estimatedMinutes: task.estimatedMinutes || 0,
       completed: task.completed,
       actionItems: task.actionItems || [],
-      subtasks: task.subtasks.map((s: any) => ({
+      subtasks: task.subtasks.map(s => ({
         title: s.title,
         context: s.context || "",
         completed: s.completed
@@ -222,33 +201,8 @@ export async function discussTaskWithAI(goal: Goal, task: any, message: string):
       goalTitle: goal.title
     };
 
-    const systemPrompt = `You are a helpful AI task assistant in the TaskBreaker app. Your role is to help users with their tasks by:
-    
-    1. Answering specific questions about how to accomplish the task
-    2. Suggesting approaches or methodologies for complex tasks
-    3. Breaking down confusing aspects into clearer steps
-    4. Providing relevant resources or techniques that might help
-    5. Offering encouragement and practical advice for roadblocks
-    
-    You have access to the task details including its context, complexity, action items, and subtasks.
-    
-    Guidelines:
-    - Keep responses practical, action-oriented, and specific to the task at hand
-    - If the task is technical, provide technical guidance appropriate to the user's level
-    - If the task is creative, help with brainstorming and structure
-    - Avoid generic advice - tie everything back to the specific task details
-    - Be conversational but efficient - focus on helping them move forward
-    - Consider the overall goal the task belongs to for context
-    - When appropriate, refer to specific subtasks or action items from the task data`;
-    
-    const userPrompt = `Task: ${JSON.stringify(taskWithContext)}\n\nMy question/comment: ${message}`;
-    
     // Get discussion response from the LLM
-    const response = await generateCompletion({
-      systemPrompt,
-      userPrompt,
-      model: getModel('gpt-4o-mini')
-    });
+    const response = await provider.discussTask(taskWithContext, message, onToken);
     
     // Return the AI's response
     return response || "I suggest breaking this task into smaller steps and tackling them one by one.";
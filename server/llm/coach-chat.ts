@@ -1,16 +1,25 @@
-import { Task, Goal } from '@shared/schema';
-import { generateCompletion, getModel } from './providers';
+import { Goal, Conversation } from '@shared/schema';
+import { generateToolCompletion, streamToolCompletion, getModel } from './providers';
+import { coachToolDefinitions, executeCoachToolCalls, CoachAction } from './coach-tools';
 import { storage } from '../storage';
-import { nanoid } from 'nanoid';
+import { getEstimateCalibration } from '../estimate-calibration';
+import { describeEstimateCalibration } from './prompts';
+import { getBlockingTasks } from '@shared/task-dependencies';
+
+// How many stored messages are replayed to the coach as conversation history
+const HISTORY_MESSAGE_LIMIT = 20;
+
+interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
 
 interface ChatInput {
   message: string;
   goalId?: number;
   userId: number;
-  conversationHistory?: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
+  conversationId?: number;
+  conversationHistory?: ChatHistoryMessage[];
 }
 
 interface ChatResponse {
@@ -18,50 +27,116 @@ interface ChatResponse {
   type: 'task-suggestion' | 'encouragement' | 'question' | 'task-creation' | 'general';
   relatedTasks?: string[];
   tasksCreated?: boolean;
+  actions?: CoachAction[]; // Changes the coach attempted, applied or not
+  conversationId?: number;
 }
 
 /**
- * Process a chat message and generate a response from the AI coach
+ * Process a chat message and generate a response from the AI coach.
+ * The exchange is stored in the user's conversation so later messages keep the context.
+ * @param onToken Optional callback that receives the coach's reply as it streams in
  */
-export async function processCoachChat(input: ChatInput): Promise<ChatResponse> {
-  // Get conversation history or create new
-  const conversationHistory = input.conversationHistory || [];
-  
-  // Add user message to history
-  conversationHistory.push({
+export async function processCoachChat(
+  input: ChatInput,
+  onToken?: (token: string) => void
+): Promise<ChatResponse> {
+  const conversation = await resolveConversation(input);
+  
+  // Load the recent history before storing the new message (the reply step appends it itself)
+  const conversationHistory = input.conversationHistory || 
+    (await storage.getConversationMessages(conversation.id, HISTORY_MESSAGE_LIMIT)).map(msg => ({
+      role: msg.role,
+      content: msg.content
+    }));
+  
+  await storage.addConversationMessage({
+    conversationId: conversation.id,
     role: 'user',
     content: input.message
   });
   
-  // Get user's goals for context if any exist
+  const response = await generateCoachReply(
+    { ...input, conversationId: conversation.id, conversationHistory },
+    onToken
+  );
+  
+  await storage.addConversationMessage({
+    conversationId: conversation.id,
+    role: 'assistant',
+    content: response.message,
+    type: response.type
+  });
+  
+  return { ...response, conversationId: conversation.id };
+}
+
+/**
+ * Find the conversation a message belongs to, creating one if the user has none yet
+ */
+async function resolveConversation(input: ChatInput): Promise<Conversation> {
+  const userId = String(input.userId);
+  
+  // Ignore conversation ids that belong to someone else
+  if (input.conversationId) {
+    const conversation = await storage.getConversation(input.conversationId);
+    if (conversation && conversation.userId === userId) {
+      return conversation;
+    }
+  }
+  
+  // Otherwise resume the most recent thread for this goal (or the general thread)
+  const [latestConversation] = await storage.getConversations(userId, input.goalId ?? null);
+  if (latestConversation) {
+    return latestConversation;
+  }
+  
+  return await storage.createConversation({
+    userId,
+    goalId: input.goalId ?? null,
+    title: extractGoalTitleFromMessage(input.message)
+  });
+}
+
+/**
+ * Generate the coach's reply to a message and apply any changes it makes through tool calls
+ */
+async function generateCoachReply(
+  input: ChatInput,
+  onToken?: (token: string) => void
+): Promise<ChatResponse> {
+  const userId = String(input.userId);
+  
+  // Add user message to the history, in the alternating form the providers accept
+  const conversationHistory = normalizeHistory([
+    ...(input.conversationHistory || []),
+    { role: 'user', content: input.message }
+  ]);
+  
+  // Describe the user's goals, including the ids the coach needs to act on them
   let goalsContext = '';
-  let specificGoal: Goal | undefined;
   
-  // If goalId is provided, fetch that specific goal
   if (input.goalId) {
-    specificGoal = await storage.getGoal(input.goalId);
-    if (specificGoal) {
+    const specificGoal = await storage.getGoal(input.goalId);
+    if (specificGoal && specificGoal.userId === userId) {
       goalsContext = `
-This conversation is specifically about the user's goal: "${specificGoal.title}".
+This conversation is specifically about the user's goal: "${specificGoal.title}" (goalId: ${specificGoal.id}).
 Current progress: ${specificGoal.progress}%.
-Tasks for this goal: ${specificGoal.tasks.map(t => 
-  `- ${t.title} (${t.completed ? 'Completed' : 'Not completed'})`
-).join(', ')}
+Tasks for this goal:
+${formatTasksForPrompt(specificGoal)}
 `;
     }
   } else {
-    // Otherwise fetch all goals for this user
-    const goals = await storage.getGoals(String(input.userId));
+    const goals = await storage.getGoals(userId);
     if (goals.length > 0) {
       goalsContext = `
 The user has the following goals:
-${goals.map((g, i) => `${i+1}. "${g.title}" (Progress: ${g.progress}%)`).join('\n')}
+${goals.map((g, i) => `${i+1}. "${g.title}" (goalId: ${g.id}, progress: ${g.progress}%)\n${formatTasksForPrompt(g)}`).join('\n')}
 `;
     }
   }
-
-  // Detect intent to create a new goal from the message
-  const createGoalIntent = detectCreateGoalIntent(input.message);
+  
+  // Calibrate time estimates to how long the user's tasks have actually taken
+  const calibration = await getEstimateCalibration(userId);
   
   // Build system prompt with ADHD-specific coaching strategies
   const systemPrompt = `
@@ -79,250 +154,111 @@ Your role is to:
 - Provide specific, actionable advice for overcoming obstacles
 - Ask clarifying questions to understand the user's specific situation
 - Maintain focus by redirecting tangential conversations back to the goal
-- Provide time estimates for tasks that are realistic for someone with ADHD (often 1.5x typical estimates)
+- Provide time estimates for tasks that are realistic for someone with ADHD (${describeEstimateCalibration(calibration) ?? 'often 1.5x typical estimates'})
 - Suggest accommodations and strategies specific to ADHD challenges
 
-${createGoalIntent ? "The user seems to be expressing a new goal. Help break this down into clear, manageable tasks." : ""}
+You can change the user's goals and tasks with the provided tools. Rules for using them:
+- Only call a tool when the user's latest message explicitly asks for that change. Mentioning a goal, or words like "clear" or "done" in passing, is not a request.
+- Use the goalId and taskId values listed above. Never guess an id.
+- If it's unclear which goal or task the user means, ask instead of calling a tool.
+- When you suggest tasks the user hasn't asked you to add, list them and ask whether to add them.
+- Deleting a goal or removing a task is only proposed: the user must approve it with the buttons shown under your reply, so never say it's already done.
 
 Always respond in the first person as the AI coach.
 `;
 
-  // Generate AI response using the selected model
-  const userPrompt = conversationHistory.map(msg => 
-    `${msg.role}: ${msg.content || "No content"}`
-  ).join('\n');
-  
-  const llmResponse = await generateCompletion({
+  const completionParams = {
     model: getModel(),
     systemPrompt,
-    userPrompt
-  });
+    messages: conversationHistory,
+    tools: coachToolDefinitions
+  };
+  const { text, toolCalls } = onToken
+    ? await streamToolCompletion({ ...completionParams, onToken })
+    : await generateToolCompletion(completionParams);
+  
+  // Validate and apply the requested changes
+  const actions = await executeCoachToolCalls(toolCalls, { userId, conversationId: input.conversationId });
+  const appliedActions = actions.filter(action => action.status === 'applied');
+  const message = composeReply(text, actions);
 
-  // Add assistant response to history for future context
-  conversationHistory.push({
-    role: 'assistant',
-    content: llmResponse
-  });
+  const tasksAdded = appliedActions.some(action => action.tool === 'create_goal' || action.tool === 'add_task');
 
-  // Process response to determine type and any actions needed
-  const responseType = determineResponseType(llmResponse, input.message);
-  let tasksCreated = false;
-  let tasksModified = false;
-  let relatedTasks: string[] = [];
+  return {
+    message,
+    type: tasksAdded ? 'task-creation' : determineResponseType(message, input.message),
+    relatedTasks: appliedActions.flatMap(action => action.taskIds || []),
+    tasksCreated: tasksAdded,
+    actions
+  };
+}
 
-  // Check for removal or edit intents
-  const removeTaskIntent = detectRemoveTaskIntent(input.message);
-  const editTaskIntent = detectEditTaskIntent(input.message);
-  const removeGoalIntent = detectRemoveGoalIntent(input.message);
+/**
+ * Make a history start with the user and alternate between user and assistant, as the Anthropic API requires.
+ * Stored history can break both: the oldest replayed message may be the coach's, and confirming or
+ * rejecting an action stores an assistant message right after the coach's reply.
+ */
+function normalizeHistory(history: ChatHistoryMessage[]): ChatHistoryMessage[] {
+  const normalized: ChatHistoryMessage[] = [];
   
-  // Handle goal removal if needed
-  if (removeGoalIntent) {
-    const goalToRemove = specificGoal || findGoalFromMessage(input.message, await storage.getGoals(String(input.userId)));
+  for (const message of history) {
+    const previous = normalized[normalized.length - 1];
+    if (!previous && message.role === 'assistant') continue;
     
-    if (goalToRemove) {
-      await storage.deleteGoal(goalToRemove.id);
-      tasksModified = true;
-      return {
-        message: `I've deleted your goal "${goalToRemove.title}". Is there anything else you'd like to work on?`,
-        type: 'general',
-        tasksCreated: true
-      };
+    if (previous?.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      normalized.push({ ...message });
     }
   }
   
-  // Handle task removal or editing if needed
-  if ((removeTaskIntent || editTaskIntent) && specificGoal) {
-    // Try to find the task mentioned in the message
-    const taskMentioned = findTaskInMessage(input.message, specificGoal.tasks);
-    
-    if (taskMentioned) {
-      if (removeTaskIntent) {
-        // Remove the task from the goal
-        const updatedTasks = specificGoal.tasks.filter(t => t.id !== taskMentioned.id);
-        
-        await storage.updateGoal(specificGoal.id, {
-          tasks: updatedTasks
-        });
-        
-        tasksModified = true;
-        relatedTasks = updatedTasks.map(t => t.id);
-      } 
-      else if (editTaskIntent) {
-        // Modify the task (mark as complete if that's the intent)
-        const completionIntent = input.message.toLowerCase().includes('complete') || 
-                               input.message.toLowerCase().includes('finished') ||
-                               input.message.toLowerCase().includes('done');
-        
-        const updatedTasks = specificGoal.tasks.map(t => {
-          if (t.id === taskMentioned.id) {
-            // Create updated task object
-            let updatedTask = { ...t };
-            
-            // Handle completion flag
-            if (completionIntent) {
-              updatedTask.completed = true;
-              return updatedTask;
-            }
-            
-            // Check for priority/complexity related keywords
-            const lowercaseMsg = input.message.toLowerCase();
-            
-            // Set complexity based on priority keywords
-            if (lowercaseMsg.includes('high priority') || 
-                lowercaseMsg.includes('urgent') || 
-                lowercaseMsg.includes('important') || 
-                lowercaseMsg.includes('critical')) {
-              updatedTask.complexity = 'high';
-            } else if (lowercaseMsg.includes('medium priority') || 
-                       lowercaseMsg.includes('moderate priority')) {
-              updatedTask.complexity = 'medium';
-            } else if (lowercaseMsg.includes('low priority') || 
-                       lowercaseMsg.includes('not urgent')) {
-              updatedTask.complexity = 'low';
-            }
-            
-            // Check for difficulty-related keywords
-            if (lowercaseMsg.includes('hard') || 
-                lowercaseMsg.includes('difficult') || 
-                lowercaseMsg.includes('challenging')) {
-              updatedTask.complexity = 'high';
-            } else if (lowercaseMsg.includes('medium difficulty') || 
-                       lowercaseMsg.includes('moderate')) {
-              updatedTask.complexity = 'medium';
-            } else if (lowercaseMsg.includes('easy') || 
-                       lowercaseMsg.includes('simple') || 
-                       lowercaseMsg.includes('basic')) {
-              updatedTask.complexity = 'low';
-            }
-            
-            // Check for time estimates in the message
-            const timeMatches = lowercaseMsg.match(/(\d+)\s*(?:min|minute|minutes)/);
-            if (timeMatches && timeMatches[1]) {
-              const minutes = parseInt(timeMatches[1]);
-              if (!isNaN(minutes) && minutes > 0) {
-                updatedTask.estimatedMinutes = minutes;
-              }
-            }
-            
-            // Check for due date information
-            const dateMatches = lowercaseMsg.match(/(today|tomorrow|next week|on|due)/i);
-            if (dateMatches) {
-              // Simple date handling for common phrases
-              const today = new Date();
-              
-              if (lowercaseMsg.includes('today')) {
-                updatedTask.dueDate = today.toISOString();
-              } else if (lowercaseMsg.includes('tomorrow')) {
-                const tomorrow = new Date(today);
-                tomorrow.setDate(tomorrow.getDate() + 1);
-                updatedTask.dueDate = tomorrow.toISOString();
-              } else if (lowercaseMsg.includes('next week')) {
-                const nextWeek = new Date(today);
-                nextWeek.setDate(nextWeek.getDate() + 7);
-                updatedTask.dueDate = nextWeek.toISOString();
-              }
-            }
-            
-            // Update the title if a new one is provided
-            const newTitle = extractNewTaskTitleFromMessage(input.message);
-            if (newTitle) {
-              updatedTask.title = newTitle;
-            }
-            
-            return updatedTask;
-          }
-          return t;
-        });
-        
-        await storage.updateGoal(specificGoal.id, {
-          tasks: updatedTasks
-        });
-        
-        tasksModified = true;
-        relatedTasks = updatedTasks.map(t => t.id);
-      }
-    }
-  }
-
-  // If this is a task creation response, create the tasks in the system
-  if (responseType === 'task-suggestion' || responseType === 'task-creation') {
-    const extractedTasks = extractTasksFromResponse(llmResponse);
-    
-    if (extractedTasks.length > 0 && (createGoalIntent || specificGoal)) {
-      // Create new goal or update existing one
-      if (createGoalIntent && !specificGoal) {
-        // Extract goal title from user message
-        const goalTitle = extractGoalTitleFromMessage(input.message);
-        
-        // Create new goal with the extracted tasks
-        const newGoal = await storage.createGoal({
-          title: goalTitle,
-          tasks: extractedTasks.map(taskTitle => ({
-            id: nanoid(),
-            title: taskTitle,
-            completed: false,
-            subtasks: [],
-            addedToCalendar: false,
-            reminderEnabled: false,
-            enableWhatsapp: false
-          })),
-          userId: String(input.userId),
-          createdAt: new Date().toISOString(),
-          progress: 0,
-          totalEstimatedMinutes: extractedTasks.length * 30, // Rough estimate
-          notificationChannels: []
-        });
-        
-        tasksCreated = true;
-        relatedTasks = newGoal.tasks.map(t => t.id);
-        
-      } else if (specificGoal) {
-        // Add tasks to existing goal
-        const updatedTasks = [
-          ...specificGoal.tasks,
-          ...extractedTasks.map(taskTitle => ({
-            id: nanoid(),
-            title: taskTitle,
-            completed: false,
-            subtasks: [],
-            addedToCalendar: false,
-            reminderEnabled: false,
-            enableWhatsapp: false
-          }))
-        ];
-        
-        // Update the goal with new tasks
-        await storage.updateGoal(specificGoal.id, {
-          tasks: updatedTasks
-        });
-        
-        tasksCreated = true;
-        relatedTasks = updatedTasks.map(t => t.id);
-      }
-    }
-  }
+  return normalized;
+}
 
-  return {
-    message: llmResponse,
-    type: responseType,
-    relatedTasks,
-    tasksCreated: tasksCreated || tasksModified
-  };
+/**
+ * List a goal's tasks with their ids for the system prompt.
+ * Blocked tasks name the tasks they wait for, so the coach only suggests tasks that are ready.
+ */
+function formatTasksForPrompt(goal: Goal): string {
+  if (goal.tasks.length === 0) return '   (no tasks yet)';
+  return goal.tasks.map(t => {
+    const blockedBy = getBlockingTasks(goal.tasks, t);
+    const state = t.completed
+      ? 'completed'
+      : blockedBy.length > 0
+        ? `blocked until done: ${blockedBy.map(b => `"${b.title}"`).join(', ')}`
+        : 'ready';
+    return `   - ${t.title} (taskId: ${t.id}, ${state})`;
+  }).join('\n');
 }
 
 /**
- * Determine if the user's message indicates they want to create a new goal
+ * Combine the model's text with a report of the actions that were (or weren't) applied
  */
-function detectCreateGoalIntent(message: string): boolean {
-  const createGoalPhrases = [
-    'i want to', 'i would like to', 'i need to', 'i wish to',
-    'help me', 'can you help me', 'i have a goal', 'my goal is',
-    'i want', 'i would like', 'i need', 'i wish',
-    'i want', 'i wanna'
-  ];
+function composeReply(text: string, actions: CoachAction[]): string {
+  const parts: string[] = [];
+  const appliedActions = actions.filter(action => action.status === 'applied');
+  const proposedActions = actions.filter(action => action.status === 'proposed');
+  const failedActions = actions.filter(action => action.status === 'failed');
+  
+  if (text.trim()) {
+    parts.push(text.trim());
+  } else if (appliedActions.length > 0) {
+    // Tool-only responses have no text, so describe what was done
+    parts.push(`Done! Here's what I changed:\n${appliedActions.map(action => `- ${action.summary}`).join('\n')}`);
+  }
+  
+  if (proposedActions.length > 0 && !text.trim()) {
+    parts.push(`Before I do this, please confirm:\n${proposedActions.map(action => `- ${action.summary}`).join('\n')}`);
+  }
+  
+  if (failedActions.length > 0) {
+    parts.push(`I couldn't make every change:\n${failedActions.map(action => 
+      `- ${action.summary}${action.error ? ` (${action.error})` : ''}`
+    ).join('\n')}`);
+  }
   
-  const lowercaseMessage = message.toLowerCase();
-  return createGoalPhrases.some(phrase => lowercaseMessage.includes(phrase));
+  return parts.join('\n\n') || "I'm here to help. What would you like to work on?";
 }
 
 /**
@@ -366,229 +302,3 @@ function determineResponseType(response: string, userMessage: string): ChatRespo
   
   return 'general';
 }
-
-/**
- * Detect if the user's message is about removing a goal
- */
-function detectRemoveGoalIntent(message: string): boolean {
-  const removeKeywords = [
-    'remove', 'delete', 'eliminate', 'get rid of', 'cancel', 
-    'drop', 'trash', 'erase', 'take off', 'destroy', 'kill',
-    'wipe', 'clear'
-  ];
-  
-  const lowercaseMessage = message.toLowerCase();
-  return removeKeywords.some(keyword => lowercaseMessage.includes(keyword)) && 
-         (lowercaseMessage.includes('goal') || 
-          lowercaseMessage.includes('project') || 
-          lowercaseMessage.includes('objective') ||
-          /goal\s+(\d+)/i.test(lowercaseMessage));
-}
-
-/**
- * Detect if the user's message is about removing a task
- */
-function detectRemoveTaskIntent(message: string): boolean {
-  const removeKeywords = [
-    'remove', 'delete', 'eliminate', 'get rid of', 'cancel', 
-    'drop', 'trash', 'erase', 'take off', 'destroy', 'kill',
-    'wipe', 'clear'
-  ];
-  
-  const lowercaseMessage = message.toLowerCase();
-  return removeKeywords.some(keyword => lowercaseMessage.includes(keyword)) && 
-         (lowercaseMessage.includes('task') || 
-          lowercaseMessage.includes('to-do') || 
-          lowercaseMessage.includes('item') || 
-          lowercaseMessage.includes('it') ||
-          /task\s+(\d+)/i.test(lowercaseMessage) ||
-          /#(\d+)/.test(lowercaseMessage)) &&
-         !detectRemoveGoalIntent(message); // Make sure it's not about removing a goal
-}
-
-/**
- * Detect if the user's message is about editing a task
- */
-function detectEditTaskIntent(message: string): boolean {
-  const editKeywords = [
-    'edit', 'change', 'update', 'modify', 'alter', 'revise', 
-    'rename', 'adjust', 'call', 'name', 'set'
-  ];
-  
-  const completionKeywords = [
-    'complete', 'finish', 'done', 'mark', 'check off', 'check', 
-    'completed', 'finished', 'did', 'accomplish', 'achieved', 'success'
-  ];
-  
-  const lowercaseMessage = message.toLowerCase();
-  
-  // Special handling for completion-related edits
-  if (completionKeywords.some(keyword => lowercaseMessage.includes(keyword))) {
-    return (lowercaseMessage.includes('task') || 
-            lowercaseMessage.includes('to-do') || 
-            lowercaseMessage.includes('item') || 
-            lowercaseMessage.includes('it') ||
-            /task\s+(\d+)/i.test(lowercaseMessage) ||
-            /#(\d+)/.test(lowercaseMessage));
-  }
-  
-  return editKeywords.some(keyword => lowercaseMessage.includes(keyword)) && 
-         (lowercaseMessage.includes('task') || 
-          lowercaseMessage.includes('to-do') || 
-          lowercaseMessage.includes('item') || 
-          lowercaseMessage.includes('it') ||
-          /task\s+(\d+)/i.test(lowercaseMessage) ||
-          /#(\d+)/.test(lowercaseMessage));
-}
-
-/**
- * Try to find a goal based on the user's message
- */
-function findGoalFromMessage(message: string, goals: Goal[]): Goal | undefined {
-  if (!goals || goals.length === 0) return undefined;
-  
-  const lowercaseMessage = message.toLowerCase();
-  let bestMatch: Goal | undefined = undefined;
-  let highestMatchScore = 0;
-  
-  // Extract goal number if mentioned (e.g., "goal 2")
-  const goalNumberMatch = message.match(/goal\s+(\d+)/i);
-  if (goalNumberMatch && goalNumberMatch[1]) {
-    const goalIndex = parseInt(goalNumberMatch[1]) - 1; // Convert to 0-based index
-    if (goalIndex >= 0 && goalIndex < goals.length) {
-      return goals[goalIndex];
-    }
-  }
-  
-  // Look for goal title mentions
-  for (const goal of goals) {
-    // Direct title match
-    if (lowercaseMessage.includes(goal.title.toLowerCase())) {
-      return goal;
-    }
-    
-    // Partial title match with scoring
-    const goalTitleWords = goal.title.toLowerCase().split(' ').filter(w => w.length > 2);
-    const messageWords = lowercaseMessage.split(' ').filter(w => w.length > 2);
-    
-    let matchScore = 0;
-    for (const titleWord of goalTitleWords) {
-      if (messageWords.some(messageWord => messageWord.includes(titleWord) || titleWord.includes(messageWord))) {
-        matchScore++;
-      }
-    }
-    
-    // Calculate match percentage based on goal title length
-    const matchPercentage = goalTitleWords.length > 0 ? matchScore / goalTitleWords.length : 0;
-    
-    // If we have a good match (3+ common words or 40%+ match)
-    if ((matchScore >= 3 || matchPercentage >= 0.4) && matchScore > highestMatchScore) {
-      bestMatch = goal;
-      highestMatchScore = matchScore;
-    }
-  }
-  
-  return bestMatch;
-}
-
-/**
- * Find a task mentioned in the user's message
- */
-function findTaskInMessage(message: string, tasks: any[]): any | undefined {
-  const lowercaseMessage = message.toLowerCase();
-  let foundTask: any = undefined;
-  
-  // First try to find exact match by task title
-  for (const task of tasks) {
-    if (lowercaseMessage.includes(task.title.toLowerCase())) {
-      return task;
-    }
-    
-    // Also check for partial matches with at least 3 words in common
-    const taskTitleWords = task.title.toLowerCase().split(' ').filter((w: string) => w.length > 2);
-    const messageWords = lowercaseMessage.split(' ').filter(w => w.length > 2);
-    
-    let commonWords = 0;
-    for (const titleWord of taskTitleWords) {
-      if (messageWords.some(messageWord => messageWord.includes(titleWord) || titleWord.includes(messageWord))) {
-        commonWords++;
-      }
-    }
-    
-    // If there are at least 3 common words or 50% of the title words match, it's likely the same task
-    if (commonWords >= 3 || (taskTitleWords.length > 0 && commonWords / taskTitleWords.length >= 0.5)) {
-      foundTask = task;
-    }
-  }
-  
-  if (foundTask) return foundTask;
-  
-  // If no exact match, try to find by keywords or task number mention
-  // e.g., "the first task", "task 2", etc.
-  const taskNumberMatch = message.match(/task\s+(\d+)/i) || message.match(/item\s+(\d+)/i) || message.match(/#(\d+)/);
-  if (taskNumberMatch && taskNumberMatch[1]) {
-    const taskIndex = parseInt(taskNumberMatch[1]) - 1; // Convert to 0-based index
-    if (taskIndex >= 0 && taskIndex < tasks.length) {
-      return tasks[taskIndex];
-    }
-  }
-  
-  return undefined;
-}
-
-/**
- * Extract a new task title from the user's message
- */
-function extractNewTaskTitleFromMessage(message: string): string | null {
-  // Look for phrases like "rename task X to Y" or "change task name to Y"
-  const renameMatches = message.match(/rename.*?to\s+([^,.!?]+)/i) || 
-                       message.match(/change.*?name.*?to\s+([^,.!?]+)/i) ||
-                       message.match(/update.*?title.*?to\s+([^,.!?]+)/i);
-  
-  if (renameMatches && renameMatches[1]) {
-    return renameMatches[1].trim();
-  }
-  
-  // Look for patterns where the task name comes after words like "call it" or "name it"
-  const callItMatch = message.match(/(?:call|name)\s+(?:it|this|that|the\s+task)\s+([^,.!?]+)/i);
-  
-  if (callItMatch && callItMatch[1]) {
-    return callItMatch[1].trim();
-  }
-  
-  return null;
-}
-
-/**
- * Extract task titles from the AI response
- */
-function extractTasksFromResponse(response: string): string[] {
-  const tasks: string[] = [];
-  
-  // Look for numbered or bulleted lists
-  const lines = response.split('\n');
-  
-  for (const line of lines) {
-    // Match numbered list items (1. Task description)
-    const numberedMatch = line.match(/^\s*(\d+)[\.\)]\s+([^\n]+)/);
-    if (numberedMatch) {
-      tasks.push(numberedMatch[2].trim());
-      continue;
-    }
-    
-    // Match bullet points (• Task description or - Task description)
-    const bulletMatch = line.match(/^\s*[•\-\*]\s+([^\n]+)/);
-    if (bulletMatch) {
-      tasks.push(bulletMatch[1].trim());
-      continue;
-    }
-    
-    // Match "Task X: Description" format
-    const taskLabelMatch = line.match(/^\s*Task\s+\d+\s*:?\s*([^\n]+)/i);
-    if (taskLabelMatch) {
-      tasks.push(taskLabelMatch[1].trim());
-    }
-  }
-  
-  return tasks;
-}
\ No newline at end of file
@@ -0,0 +1,346 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { fromZodError } from 'zod-validation-error';
+import { nanoid } from 'nanoid';
+import {
+  Goal,
+  Task,
+  TaskUpdate,
+  coachCreateGoalSchema,
+  coachAddTaskSchema,
+  coachUpdateTaskSchema,
+  coachCompleteTaskSchema,
+  coachRemoveTaskSchema,
+  coachDeleteGoalSchema
+} from '@shared/schema';
+import { storage } from '../storage';
+import { recordTaskCompletions } from '../journal';
+import { notifyCompletions } from '../notifications';
+import type { ToolCall, ToolDefinition } from './types';
+
+export type CoachToolName =
+  | 'create_goal'
+  | 'add_task'
+  | 'update_task'
+  | 'complete_task'
+  | 'remove_task'
+  | 'delete_goal';
+
+// How long the user has to approve a proposed destructive action
+const PENDING_ACTION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * An action the coach attempted or proposed on the user's behalf
+ */
+export interface CoachAction {
+  tool: CoachToolName | string;
+  status: 'applied' | 'failed' | 'proposed' | 'rejected';
+  summary: string; // Human readable description, e.g. 'Added task "Draft outline"'
+  goalId?: number;
+  taskIds?: string[];
+  error?: string;
+  proposalId?: string; // Set for proposed actions that need the user's confirmation
+}
+
+/**
+ * Error with an HTTP status for confirming or rejecting proposed actions
+ */
+export class CoachActionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CoachActionError';
+  }
+}
+
+type ActionResult = Omit<CoachAction, 'tool' | 'status' | 'proposalId'>;
+
+interface CoachTool<T extends z.ZodTypeAny> {
+  name: CoachToolName;
+  description: string;
+  schema: T;
+  execute(args: z.infer<T>, userId: string): Promise<ActionResult>;
+  // Destructive tools only describe the change; it runs once the user approves it
+  propose?(args: z.infer<T>, userId: string): Promise<ActionResult>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(tool: CoachTool<T>): CoachTool<T> {
+  return tool;
+}
+
+/**
+ * Load a goal, treating goals owned by someone else as missing
+ */
+async function getOwnedGoal(goalId: number, userId: string): Promise<Goal> {
+  const goal = await storage.getGoal(goalId);
+  if (!goal || goal.userId !== userId) {
+    throw new Error(`Goal ${goalId} not found`);
+  }
+  return goal;
+}
+
+function findTask(goal: Goal, taskId: string): Task {
+  const task = goal.tasks.find(t => t.id === taskId);
+  if (!task) {
+    throw new Error(`Task ${taskId} not found in goal "${goal.title}"`);
+  }
+  return task;
+}
+
+function buildTask(fields: z.infer<typeof coachAddTaskSchema> | z.infer<typeof coachCreateGoalSchema>['tasks'][number]): Task {
+  return {
+    id: nanoid(),
+    title: fields.title,
+    completed: false,
+    subtasks: [],
+    estimatedMinutes: fields.estimatedMinutes,
+    complexity: fields.complexity,
+    context: fields.context,
+    dueDate: fields.dueDate,
+    addedToCalendar: false,
+    reminderEnabled: false,
+    enableWhatsapp: false
+  };
+}
+
+const coachTools = [
+  defineTool({
+    name: 'create_goal',
+    description: 'Create a new goal for the user, optionally with an initial list of tasks. Only use when the user clearly asks to start a new goal.',
+    schema: coachCreateGoalSchema,
+    async execute(args, userId) {
+      const tasks = args.tasks.map(buildTask);
+      const goal = await storage.createGoal({
+        title: args.title,
+        tasks,
+        userId,
+        createdAt: new Date().toISOString(),
+        progress: 0,
+        totalEstimatedMinutes: tasks.reduce((total, task) => total + (task.estimatedMinutes || 0), 0),
+        notificationChannels: []
+      });
+      return {
+        summary: `Created goal "${goal.title}" with ${tasks.length} task${tasks.length === 1 ? '' : 's'}`,
+        goalId: goal.id,
+        taskIds: tasks.map(t => t.id)
+      };
+    }
+  }),
+  defineTool({
+    name: 'add_task',
+    description: 'Add a task to one of the user\'s existing goals.',
+    schema: coachAddTaskSchema,
+    async execute(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      const task = buildTask(args);
+      await storage.addTask(goal.id, task);
+      return { summary: `Added task "${task.title}" to "${goal.title}"`, goalId: goal.id, taskIds: [task.id] };
+    }
+  }),
+  defineTool({
+    name: 'update_task',
+    description: 'Change details of an existing task (rename it, or set its complexity, time estimate, context or due date). Only include the fields that should change.',
+    schema: coachUpdateTaskSchema,
+    async execute(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      const task = findTask(goal, args.taskId);
+      const { goalId, taskId, ...changes } = args;
+      const definedChanges = Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      ) as TaskUpdate;
+      if (Object.keys(definedChanges).length === 0) {
+        throw new Error('No changes were provided');
+      }
+      await storage.updateTask(goal.id, task.id, definedChanges);
+      return {
+        summary: `Updated ${Object.keys(definedChanges).join(', ')} of task "${task.title}"`,
+        goalId: goal.id,
+        taskIds: [task.id]
+      };
+    }
+  }),
+  defineTool({
+    name: 'complete_task',
+    description: 'Mark a task as completed (or, with completed=false, as not completed). Only use when the user says they finished or want to reopen a specific task.',
+    schema: coachCompleteTaskSchema,
+    async execute(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      const task = findTask(goal, args.taskId);
+      const updatedGoal = await storage.updateTaskCompletion(goal.id, task.id, args.completed);
+      if (updatedGoal) {
+        await recordTaskCompletions(goal, updatedGoal);
+        // Queue notifications to the user's configured channels. A failure here doesn't fail the tool call.
+        await notifyCompletions(goal, updatedGoal)
+          .catch(err => console.error('Failed to send task completion notification:', err));
+      }
+      return {
+        summary: `Marked task "${task.title}" as ${args.completed ? 'completed' : 'not completed'}`,
+        goalId: goal.id,
+        taskIds: [task.id]
+      };
+    }
+  }),
+  defineTool({
+    name: 'remove_task',
+    description: 'Remove a task from a goal. Only use when the user explicitly asks to remove or delete that task.',
+    schema: coachRemoveTaskSchema,
+    async propose(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      const task = findTask(goal, args.taskId);
+      return { summary: `Remove task "${task.title}" from "${goal.title}"`, goalId: goal.id, taskIds: [task.id] };
+    },
+    async execute(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      const task = findTask(goal, args.taskId);
+      await storage.removeTask(goal.id, task.id);
+      return { summary: `Removed task "${task.title}" from "${goal.title}"`, goalId: goal.id, taskIds: [task.id] };
+    }
+  }),
+  defineTool({
+    name: 'delete_goal',
+    description: 'Delete an entire goal and all of its tasks. Only use when the user explicitly asks to delete that goal.',
+    schema: coachDeleteGoalSchema,
+    async propose(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      return { summary: `Delete goal "${goal.title}" and all of its tasks`, goalId: goal.id };
+    },
+    async execute(args, userId) {
+      const goal = await getOwnedGoal(args.goalId, userId);
+      await storage.deleteGoal(goal.id);
+      return { summary: `Deleted goal "${goal.title}"`, goalId: goal.id };
+    }
+  })
+];
+
+/**
+ * Tool definitions to send to the model
+ */
+export const coachToolDefinitions: ToolDefinition[] = coachTools.map(tool => {
+  // Inline every definition and drop the $schema key, which the provider APIs don't expect
+  const { $schema, ...parameters } = zodToJsonSchema(tool.schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return { name: tool.name, description: tool.description, parameters };
+});
+
+/**
+ * Validate and run the tool calls requested by the model, in order.
+ * Destructive calls are stored as proposals instead of being run.
+ */
+export async function executeCoachToolCalls(
+  toolCalls: ToolCall[],
+  context: { userId: string; conversationId?: number }
+): Promise<CoachAction[]> {
+  const actions: CoachAction[] = [];
+
+  for (const call of toolCalls) {
+    const tool = coachTools.find(t => t.name === call.name) as CoachTool<z.ZodTypeAny> | undefined;
+    if (!tool) {
+      actions.push({ tool: call.name, status: 'failed', summary: `Unknown action "${call.name}"`, error: 'Unknown tool' });
+      continue;
+    }
+
+    const parsed = tool.schema.safeParse(call.arguments);
+    if (!parsed.success) {
+      const error = fromZodError(parsed.error).message;
+      actions.push({ tool: tool.name, status: 'failed', summary: `Invalid ${tool.name} request`, error });
+      continue;
+    }
+
+    try {
+      if (tool.propose) {
+        const result = await tool.propose(parsed.data, context.userId);
+        const pendingAction = await storage.createPendingCoachAction({
+          id: nanoid(),
+          userId: context.userId,
+          conversationId: context.conversationId,
+          tool: tool.name,
+          arguments: parsed.data,
+          summary: result.summary
+        });
+        actions.push({ tool: tool.name, status: 'proposed', proposalId: pendingAction.id, ...result });
+      } else {
+        const result = await tool.execute(parsed.data, context.userId);
+        actions.push({ tool: tool.name, status: 'applied', ...result });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      actions.push({ tool: tool.name, status: 'failed', summary: `Could not ${tool.name.replace('_', ' ')}`, error: message });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Claim a pending action for the user, rejecting ones that are missing, resolved or expired
+ */
+async function claimPendingAction(id: string, userId: string, status: 'approved' | 'rejected') {
+  const pendingAction = await storage.getPendingCoachAction(id);
+  if (!pendingAction || pendingAction.userId !== userId) {
+    throw new CoachActionError('Action not found', 404);
+  }
+
+  const createdAt = pendingAction.createdAt ? pendingAction.createdAt.getTime() : 0;
+  if (pendingAction.status === 'pending' && Date.now() - createdAt > PENDING_ACTION_TTL_MS) {
+    await storage.resolvePendingCoachAction(id, 'rejected');
+    throw new CoachActionError('This action has expired. Please ask the coach again.', 410);
+  }
+
+  const resolvedAction = await storage.resolvePendingCoachAction(id, status);
+  if (!resolvedAction) {
+    throw new CoachActionError(`This action was already ${pendingAction.status}`, 409);
+  }
+  return resolvedAction;
+}
+
+/**
+ * Run a proposed action after the user approves it
+ */
+export async function confirmCoachAction(id: string, userId: string): Promise<CoachAction> {
+  const pendingAction = await claimPendingAction(id, userId, 'approved');
+  const tool = coachTools.find(t => t.name === pendingAction.tool) as CoachTool<z.ZodTypeAny> | undefined;
+
+  let action: CoachAction;
+  const parsed = tool?.schema.safeParse(pendingAction.arguments);
+  if (!tool || !parsed?.success) {
+    action = { tool: pendingAction.tool, status: 'failed', summary: pendingAction.summary, error: 'Invalid stored action' };
+  } else {
+    try {
+      const result = await tool.execute(parsed.data, userId);
+      action = { tool: tool.name, status: 'applied', proposalId: id, ...result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      action = { tool: tool.name, status: 'failed', proposalId: id, summary: pendingAction.summary, error: message };
+    }
+  }
+
+  // Record the outcome in the conversation so the coach knows about it next turn
+  if (pendingAction.conversationId) {
+    await storage.addConversationMessage({
+      conversationId: pendingAction.conversationId,
+      role: 'assistant',
+      content: action.status === 'applied'
+        ? `Done: ${action.summary}.`
+        : `I couldn't do that: ${pendingAction.summary} (${action.error}).`,
+      type: 'general'
+    });
+  }
+
+  return action;
+}
+
+/**
+ * Discard a proposed action
+ */
+export async function rejectCoachAction(id: string, userId: string): Promise<CoachAction> {
+  const pendingAction = await claimPendingAction(id, userId, 'rejected');
+
+  if (pendingAction.conversationId) {
+    await storage.addConversationMessage({
+      conversationId: pendingAction.conversationId,
+      role: 'assistant',
+      content: `Okay, I won't do that (${pendingAction.summary}).`,
+      type: 'general'
+    });
+  }
+
+  return { tool: pendingAction.tool, status: 'rejected', proposalId: id, summary: pendingAction.summary };
+}
@@ -0,0 +1,308 @@
+import { type EstimateCalibration, type TaskComplexity } from '@shared/schema';
+import { CoachingContext, TaskDiscussionContext } from './types';
+
+/**
+ * Prompts shared by every LLM provider
+ */
+
+export const GOAL_ANALYSIS_SYSTEM_PROMPT = `You are an expert at analyzing goals and projects. You excel at identifying unstated requirements, 
+    potential challenges, and important context that would help in breaking down a goal into tasks. 
+    Your analysis should be thorough, insightful, and cover multiple perspectives on the goal.`;
+
+/**
+ * Build the chain-of-thought prompt used to analyze a goal before breaking it down
+ */
+export function buildGoalAnalysisPrompt(
+  goalTitle: string,
+  timeConstraintMinutes?: number,
+  additionalInfo?: string
+): string {
+  return `
+    I need to break down this goal into actionable tasks:
+    
+    Goal: "${goalTitle}"
+    ${timeConstraintMinutes ? `Time Constraint: ${timeConstraintMinutes} minutes` : ''}
+    ${additionalInfo ? `Additional Information: ${additionalInfo}` : ''}
+    
+    Before creating a structured task breakdown, I'll think through what this goal might involve and what context I should consider:
+    
+    1. What domain knowledge is required for this goal?
+    2. What might be the implicit steps or prerequisites not stated directly?
+    3. Are there potential bottlenecks or challenging aspects to consider?
+    4. What technical, creative, or logistical components might be involved?
+    5. What resources or skills might be needed?
+    6. If there's a time constraint, how should priorities be adjusted?
+    7. What common pitfalls or roadblocks might occur?
+    8. What would make for a successful outcome?
+    
+    Provide a detailed chain-of-thought analysis (5-10 paragraphs) about this goal before breaking it down.
+    `;
+}
+
+/**
+ * Describe how long a user's tasks take compared to their estimates, for time estimation guidelines
+ * @returns null until there are enough completed tasks to go on
+ */
+export function describeEstimateCalibration(calibration?: EstimateCalibration): string | null {
+  if (!calibration?.overall) return null;
+
+  const levels = (['low', 'medium', 'high'] as TaskComplexity[])
+    .filter(level => calibration.byComplexity[level])
+    .map(level => `${level} complexity ${calibration.byComplexity[level]!.ratio}x`);
+  const byLevel = levels.length > 0 ? ` (${levels.join(', ')})` : '';
+
+  return `This user's completed tasks took ${calibration.overall.ratio}x their estimates${byLevel}, ` +
+    `based on ${calibration.overall.sampleCount} tasks. Multiply your usual estimates by these ratios.`;
+}
+
+export const TASK_BREAKDOWN_SYSTEM_PROMPT = `You are TaskBreaker AI, a world-class productivity expert and project manager specializing in breaking down goals into manageable, actionable tasks.
+
+    Your expertise includes:
+    - Analyzing complex goals and creating structured, logical task breakdowns
+    - Providing accurate time estimates based on task complexity and dependencies
+    - Creating clear, actionable task descriptions with specific guidance
+    - Identifying potential roadblocks and suggesting effective strategies
+    - Adapting task breakdowns to fit time constraints when specified
+    - Breaking learning processes into concrete, measurable steps
+    - Organizing tasks in optimal sequence for efficient execution
+    
+    Your task breakdown is exceptional because you:
+    1. Use active verbs and clear language
+    2. Create specific, measurable outcomes for each task
+    3. Provide detailed context that explains WHY each task matters
+    4. Include step-by-step guidance on HOW to complete each task
+    5. Consider skill levels and learning curves in time estimates
+    6. Highlight dependencies between tasks
+    7. Balance thoroughness with practicality
+    
+    Always maintain a helpful, encouraging tone while providing highly detailed, actionable advice tailored to the specific goal.`;
+
+/**
+ * Build the prompt that asks for a goal's task breakdown as JSON
+ */
+export function buildTaskBreakdownPrompt(
+  goalTitle: string,
+  goalAnalysis: string,
+  timeConstraintMinutes?: number,
+  additionalInfo?: string,
+  calibration?: EstimateCalibration
+): string {
+  let timeConstraintText = "";
+  if (timeConstraintMinutes) {
+    timeConstraintText = `
+    IMPORTANT: The user has specified that they need to complete this goal within ${timeConstraintMinutes} minutes.
+    Please optimize your task breakdown to fit within this timeframe and prioritize accordingly.
+    `;
+  }
+  
+  let additionalInfoText = "";
+  if (additionalInfo && additionalInfo.trim()) {
+    additionalInfoText = `
+    The user has provided additional context about this goal:
+    "${additionalInfo}"
+    
+    Use this information to create a more accurate and relevant task breakdown.
+    `;
+  }
+  
+  let analysisText = "";
+  if (goalAnalysis && goalAnalysis.trim()) {
+    analysisText = `
+    CHAIN-OF-THOUGHT ANALYSIS:
+    ${goalAnalysis}
+    
+    Use this detailed analysis to inform your task breakdown, considering all the aspects, potential challenges, 
+    and context identified above.
+    `;
+  }
+  
+  return `
+      Break down the following goal into manageable tasks and subtasks with detailed time estimates and rich contextual information:
+      
+      Goal: "${goalTitle}"
+      
+      ${timeConstraintText}
+      ${additionalInfoText}
+      ${analysisText}
+      
+      IMPORTANT TASK BREAKDOWN GUIDELINES:
+      - Analyze this goal deeply and provide a comprehensive breakdown into 5-10 specific, actionable tasks.
+      - For every task, include 2-5 detailed subtasks that are specific, measurable, and achievable.
+      - Make sure each task and subtask has a clear outcome that can be marked as completed.
+      - Use active verbs at the beginning of task titles (e.g., "Create", "Implement", "Research", "Design").
+      - Ensure tasks are sequenced in a logical order of execution.
+      - Break down complex operations into smaller, manageable pieces.
+      - If the goal involves learning something new, include research and practice tasks with specific outcomes.
+      
+      FOR EACH TASK, PROVIDE:
+      1. A clear, specific title (10 words or less)
+      2. Realistic time estimates in minutes (be generous for complex tasks)
+      3. Complexity assessment (low, medium, high) based on skill required and cognitive load
+      4. Detailed context explaining WHY this task matters and HOW to approach it effectively (3-5 sentences)
+      5. 2-4 specific action items that provide step-by-step guidance
+      6. A suggested due date in ISO format (YYYY-MM-DD) based on task complexity and dependencies
+      7. Dependencies: the 0-based indexes of EARLIER tasks in the list that must be completed before this one can start (an empty array if it can start right away)
+      
+      FOR EACH SUBTASK, PROVIDE:
+      1. A specific, actionable title (8 words or less)
+      2. Accurate time estimates in minutes
+      3. Rich contextual information explaining exactly how to complete this subtask (2-3 sentences)
+      4. A suggested due date in ISO format (YYYY-MM-DD) that falls before the parent task due date
+      
+      TIME ESTIMATION GUIDELINES:
+      - ${describeEstimateCalibration(calibration) ?? "For unfamiliar activities, add 50% more time than you think is needed"}
+      - Consider setup time, learning curves, and potential roadblocks
+      - Break down estimates to specific minutes (not rounded hours)
+      - If the user provided a time constraint, ensure tasks are prioritized to fit within it
+      
+      Return your response as a JSON object with the following structure:
+      {
+        "tasks": [
+          {
+            "title": "Clear, specific task title with action verb",
+            "estimatedMinutes": 45,
+            "complexity": "medium",
+            "context": "Detailed explanation of this task's importance and approach. Include specific guidance on methodology, tools to use, and expected outcome. Offer insights that would help someone unfamiliar with this type of task.",
+            "actionItems": [
+              "Specific step 1 with exact details on what to do",
+              "Specific step 2 with guidance on potential challenges",
+              "Specific step 3 with clear success criteria"
+            ],
+            "dependsOn": [],
+            "subtasks": [
+              { 
+                "title": "Clear subtask title with action verb", 
+                "estimatedMinutes": 20,
+                "context": "Precise instructions for this subtask including specific approach, potential challenges, and how to verify completion." 
+              },
+              { 
+                "title": "Another specific subtask", 
+                "estimatedMinutes": 25,
+                "context": "Detailed context explaining exactly how to complete this specific component, including any resources needed and verification steps." 
+              }
+            ]
+          }
+        ],
+        "totalEstimatedMinutes": 200,
+        "overallSuggestions": "Provide 3-5 strategic recommendations for approaching this goal effectively. Include potential roadblocks to anticipate, efficiency tips, resources that might help, and success criteria for the overall goal. Offer encouragement and highlight the most critical aspects to focus on."
+      }
+      
+      FINAL REQUIREMENTS:
+      - Make every task and subtask title specific, actionable, and measurable
+      - Ensure the total time is the sum of all task estimated times (double-check your math)
+      - Provide DETAILED context for ALL tasks and subtasks that gives meaningful guidance
+      - Focus on practical advice that someone could follow without additional research
+      - If the goal is technical, include specific technical guidance in the context
+      - If the goal is creative, provide specific creative approaches and examples
+      - If the goal is learning-oriented, break down the learning process into concrete steps
+    `;
+}
+
+export const COACHING_SYSTEM_PROMPT = `You are Coach AI, an expert productivity coach and motivator for the TaskBreaker app.
+    
+    Your coaching style:
+    - Compassionate but action-oriented
+    - Personalized to the user's specific goals and progress
+    - Backed by behavioral psychology and productivity research
+    - Balances warmth with accountability
+    - Attuned to emotional needs while focusing on practical next steps
+
+    Core responsibilities:
+    1. Analyze the user's current goals and progress data precisely
+    2. Identify specific achievements to celebrate and acknowledge
+    3. Recognize patterns in their work (roadblocks, progress spurts, etc.)
+    4. Provide personalized encouragement tailored to their situation
+    5. Offer actionable tips when appropriate (but not overwhelming)
+    6. Adapt your tone based on their progress (celebratory, supportive, motivating)
+    
+    Message types to use based on context:
+    - encouragement: Supportive messages for ongoing work or when motivation might be needed
+    - tip: One specific, actionable piece of strategic advice relevant to their current goals
+    - congratulation: Celebratory messages for completed tasks or significant progress
+    - milestone: Recognition of reaching important points in the goal journey
+    
+    Coaching guidelines:
+    - Analyze overall progress, recent activity, and any roadblocks thoroughly
+    - For users with many completed tasks, highlight accomplishments specifically
+    - For users with roadblocks, acknowledge the challenge and provide ONE specific tip
+    - If the user asked for help with a roadblock (needsHelp), address that roadblock first
+    - Mention an active streak (currentStreak) when it's worth celebrating; if it ended, nudge them to start a new one
+    - If the user finished focus sessions (recentFocusSessions), acknowledge that focused work by naming the task
+    - For users just starting out, be especially encouraging and forward-looking
+    - For users with slow progress, be supportive without judgment
+    - Personalize by referencing the specific goal title or task they're working on
+    - Keep messages concise (2-3 sentences maximum)
+    - Use natural, conversational language (not overly formal or robotic)
+    - Include specific details about their goals to make the message feel personal
+    
+    Respond with JSON in this format:
+    {
+      "message": "Your personalized encouraging message here",
+      "type": "encouragement | tip | congratulation | milestone"
+    }`;
+
+/**
+ * Build the prompt for a coaching message from the user's progress
+ */
+export function buildCoachingPrompt(contextData: CoachingContext): string {
+  return JSON.stringify(contextData);
+}
+
+export const ROADBLOCK_TIPS_SYSTEM_PROMPT = `You are Coach AI, an expert in overcoming productivity roadblocks and obstacles.
+
+    Your expertise includes:
+    - Breaking through procrastination and motivation issues
+    - Solving technical and creative challenges
+    - Overcoming resource limitations
+    - Navigating complexity and uncertainty
+    - Building better habits and systems
+    
+    When presented with a goal and a roadblock, your job is to provide 3-5 highly specific, 
+    practical tips that directly address the roadblock described. Your advice should be:
+    
+    1. SPECIFIC: Tailored exactly to the roadblock described, not generic advice
+    2. ACTIONABLE: Something the user can implement immediately
+    3. PRACTICAL: Realistic for someone to execute without special resources
+    4. INSIGHTFUL: Offering a perspective or approach they might not have considered
+    5. VARIED: Covering different approaches to solving the problem
+    
+    For technical roadblocks: Provide specific technical approaches
+    For motivation roadblocks: Focus on psychological techniques and habit formation
+    For resource roadblocks: Suggest creative workarounds and alternative approaches
+    For skill-based roadblocks: Break down the learning process into manageable steps
+    
+    Format your response as a JSON object with a "tips" array of strings, each containing 
+    one practical tip (1-2 sentences per tip, be concise but specific).`;
+
+/**
+ * Build the prompt asking for tips on a goal's roadblock
+ */
+export function buildRoadblockTipsPrompt(goalTitle: string, roadblock: string): string {
+  return `Goal: ${goalTitle}\nRoadblock: ${roadblock || "Unknown roadblock"}`;
+}
+
+export const TASK_DISCUSSION_SYSTEM_PROMPT = `You are a helpful AI task assistant in the TaskBreaker app. Your role is to help users with their tasks by:
+    
+    1. Answering specific questions about how to accomplish the task
+    2. Suggesting approaches or methodologies for complex tasks
+    3. Breaking down confusing aspects into clearer steps
+    4. Providing relevant resources or techniques that might help
+    5. Offering encouragement and practical advice for roadblocks
+    
+    You have access to the task details including its context, complexity, action items, and subtasks.
+    
+    Guidelines:
+    - Keep responses practical, action-oriented, and specific to the task at hand
+    - If the task is technical, provide technical guidance appropriate to the user's level
+    - If the task is creative, help with brainstorming and structure
+    - Avoid generic advice - tie everything back to the specific task details
+    - Be conversational but efficient - focus on helping them move forward
+    - Consider the overall goal the task belongs to for context
+    - When appropriate, refer to specific subtasks or action items from the task data`;
+
+/**
+ * Build the prompt for a question about a specific task
+ */
+export function buildTaskDiscussionPrompt(taskContext: TaskDiscussionContext, message: string): string {
+  return `Task: ${JSON.stringify(taskContext)}\n\nMy question/comment: ${message}`;
+}
@@ -0,0 +1,111 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { BaseLLMProvider } from './base';
+import { CompletionRequest, ToolCall, ToolCompletionRequest, ToolCompletionResult } from '../types';
+
+/**
+ * Provider for Anthropic's Messages API
+ */
+export class AnthropicProvider extends BaseLLMProvider {
+  name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  constructor(apiKey: string | undefined = process.env.ANTHROPIC_API_KEY) {
+    super();
+    if (apiKey) {
+      this.client = new Anthropic({ apiKey });
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.client;
+  }
+
+  // Callers' default model names are OpenAI models, so they're ignored here
+  getModel(): string {
+    // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+    return process.env.ANTHROPIC_MODEL || 'claude-3-7-sonnet-20250219';
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      throw new Error(`LLM provider "${this.name}" is not configured`);
+    }
+    return this.client;
+  }
+
+  private buildTools(request: ToolCompletionRequest): Anthropic.Tool[] {
+    return request.tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+    }));
+  }
+
+  async generateCompletion(request: CompletionRequest): Promise<string> {
+    const response = await this.getClient().messages.create({
+      model: request.model || this.getModel(),
+      max_tokens: 4000,
+      messages: [{ role: 'user', content: request.userPrompt }],
+      system: request.systemPrompt, // System prompt is a separate parameter
+    });
+
+    return extractText(response);
+  }
+
+  async streamCompletion(request: CompletionRequest, onToken: (token: string) => void): Promise<string> {
+    const stream = this.getClient().messages.stream({
+      model: request.model || this.getModel(),
+      max_tokens: 4000,
+      messages: [{ role: 'user', content: request.userPrompt }],
+      system: request.systemPrompt,
+    });
+    stream.on('text', onToken);
+
+    return extractText(await stream.finalMessage());
+  }
+
+  async generateToolCompletion(request: ToolCompletionRequest): Promise<ToolCompletionResult> {
+    const response = await this.getClient().messages.create({
+      model: request.model || this.getModel(),
+      max_tokens: 4000,
+      messages: request.messages,
+      system: request.systemPrompt,
+      tools: this.buildTools(request),
+    });
+
+    return { text: extractText(response), toolCalls: extractToolCalls(response) };
+  }
+
+  async streamToolCompletion(
+    request: ToolCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<ToolCompletionResult> {
+    const stream = this.getClient().messages.stream({
+      model: request.model || this.getModel(),
+      max_tokens: 4000,
+      messages: request.messages,
+      system: request.systemPrompt,
+      tools: this.buildTools(request),
+    });
+    stream.on('text', onToken);
+
+    const response = await stream.finalMessage();
+    return { text: extractText(response), toolCalls: extractToolCalls(response) };
+  }
+}
+
+function extractText(response: Anthropic.Message): string {
+  return response.content
+    .map(block => block.type === 'text' ? block.text : '')
+    .join('');
+}
+
+function extractToolCalls(response: Anthropic.Message): ToolCall[] {
+  const toolCalls: ToolCall[] = [];
+  for (const block of response.content) {
+    if (block.type === 'tool_use') {
+      toolCalls.push({ id: block.id, name: block.name, arguments: block.input });
+    }
+  }
+  return toolCalls;
+}
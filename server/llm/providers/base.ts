@@ -0,0 +1,175 @@
+import { z, ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { type EstimateCalibration } from '@shared/schema';
+import {
+  LLMProvider,
+  CompletionRequest,
+  ToolCompletionRequest,
+  ToolCompletionResult,
+  TaskBreakdownResponse,
+  CoachMessage,
+  CoachingContext,
+  TaskDiscussionContext,
+  taskBreakdownResponseSchema,
+  coachMessageSchema,
+  roadblockTipsResponseSchema
+} from '../types';
+import {
+  GOAL_ANALYSIS_SYSTEM_PROMPT,
+  buildGoalAnalysisPrompt,
+  TASK_BREAKDOWN_SYSTEM_PROMPT,
+  buildTaskBreakdownPrompt,
+  COACHING_SYSTEM_PROMPT,
+  buildCoachingPrompt,
+  ROADBLOCK_TIPS_SYSTEM_PROMPT,
+  buildRoadblockTipsPrompt,
+  TASK_DISCUSSION_SYSTEM_PROMPT,
+  buildTaskDiscussionPrompt
+} from '../prompts';
+
+// How many times a JSON response is requested before giving up (the first attempt plus re-prompts)
+const MAX_JSON_ATTEMPTS = Number(process.env.LLM_JSON_MAX_ATTEMPTS) || 3;
+
+/**
+ * Thrown when the model keeps returning JSON that doesn't match the expected schema
+ */
+export class LLMResponseValidationError extends Error {
+  constructor(message: string, public lastResponse: string) {
+    super(message);
+    this.name = 'LLMResponseValidationError';
+  }
+}
+
+/**
+ * Parse a JSON response, repairing the usual wrapping (markdown code fences, text around the object)
+ */
+export function parseJsonResponse(content: string): unknown {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
+
+/**
+ * Base class for LLM providers.
+ * Subclasses implement the raw completion calls; the goal and coaching features are built on top of them here.
+ */
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract name: string;
+
+  abstract isAvailable(): boolean;
+  abstract getModel(defaultModel?: string): string;
+  abstract generateCompletion(request: CompletionRequest): Promise<string>;
+  abstract streamCompletion(request: CompletionRequest, onToken: (token: string) => void): Promise<string>;
+  abstract generateToolCompletion(request: ToolCompletionRequest): Promise<ToolCompletionResult>;
+  abstract streamToolCompletion(
+    request: ToolCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<ToolCompletionResult>;
+
+  /**
+   * Request a JSON response and validate it against a schema.
+   * Invalid responses are sent back to the model with the validation errors, up to MAX_JSON_ATTEMPTS in total.
+   */
+  protected async generateValidatedJson<T extends z.ZodTypeAny>(
+    request: CompletionRequest,
+    schema: T
+  ): Promise<z.infer<T>> {
+    let userPrompt = request.userPrompt;
+    let lastResponse = '';
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+      lastResponse = await this.generateCompletion({ ...request, userPrompt, responseFormat: 'json_object' });
+
+      try {
+        return schema.parse(parseJsonResponse(lastResponse));
+      } catch (error) {
+        lastError = error instanceof ZodError
+          ? fromZodError(error).message
+          : `Invalid JSON: ${error instanceof Error ? error.message : 'unknown error'}`;
+        console.warn(`${this.name} returned an invalid response (attempt ${attempt} of ${MAX_JSON_ATTEMPTS}): ${lastError}`);
+      }
+
+      // Re-prompt with the original request, the rejected response and what was wrong with it
+      userPrompt = `${request.userPrompt}
+
+Your previous response could not be used:
+${lastResponse}
+
+Problem: ${lastError}
+
+Respond again with only a corrected JSON object in the requested format.`;
+    }
+
+    throw new LLMResponseValidationError(
+      `No valid response after ${MAX_JSON_ATTEMPTS} attempts: ${lastError}`,
+      lastResponse
+    );
+  }
+
+  async analyzeGoalWithChainOfThought(
+    goalTitle: string,
+    timeConstraintMinutes?: number,
+    additionalInfo?: string
+  ): Promise<string> {
+    return await this.generateCompletion({
+      systemPrompt: GOAL_ANALYSIS_SYSTEM_PROMPT,
+      userPrompt: buildGoalAnalysisPrompt(goalTitle, timeConstraintMinutes, additionalInfo),
+      model: this.getModel('gpt-4o-mini')
+    });
+  }
+
+  async breakdownGoalIntoTasks(
+    goalTitle: string,
+    goalAnalysis: string,
+    timeConstraintMinutes?: number,
+    additionalInfo?: string,
+    calibration?: EstimateCalibration
+  ): Promise<TaskBreakdownResponse> {
+    return await this.generateValidatedJson({
+      systemPrompt: TASK_BREAKDOWN_SYSTEM_PROMPT,
+      userPrompt: buildTaskBreakdownPrompt(goalTitle, goalAnalysis, timeConstraintMinutes, additionalInfo, calibration),
+      model: this.getModel('gpt-4o-mini')
+    }, taskBreakdownResponseSchema);
+  }
+
+  async generateCoachingMessage(contextData: CoachingContext): Promise<CoachMessage> {
+    return await this.generateValidatedJson({
+      systemPrompt: COACHING_SYSTEM_PROMPT,
+      userPrompt: buildCoachingPrompt(contextData),
+      model: this.getModel('gpt-4o-mini')
+    }, coachMessageSchema);
+  }
+
+  async generateRoadblockTips(goalTitle: string, roadblock: string): Promise<string[]> {
+    const result = await this.generateValidatedJson({
+      systemPrompt: ROADBLOCK_TIPS_SYSTEM_PROMPT,
+      userPrompt: buildRoadblockTipsPrompt(goalTitle, roadblock),
+      model: this.getModel('gpt-4o-mini')
+    }, roadblockTipsResponseSchema);
+
+    return result.tips;
+  }
+
+  async discussTask(
+    taskContext: TaskDiscussionContext,
+    message: string,
+    onToken?: (token: string) => void
+  ): Promise<string> {
+    const request: CompletionRequest = {
+      systemPrompt: TASK_DISCUSSION_SYSTEM_PROMPT,
+      userPrompt: buildTaskDiscussionPrompt(taskContext, message),
+      model: this.getModel('gpt-4o-mini')
+    };
+
+    return onToken
+      ? await this.streamCompletion(request, onToken)
+      : await this.generateCompletion(request);
+  }
+}
@@ -0,0 +1,201 @@
+import { LLMProvider, CompletionRequest, ToolCompletionRequest, ToolCompletionResult } from '../types';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { OfflineProvider, loadOfflineFixtures } from './offline';
+
+export { BaseLLMProvider, LLMResponseValidationError } from './base';
+export { OpenAICompatibleProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { OfflineProvider, loadOfflineFixtures } from './offline';
+export type { ToolDefinition, ToolCall } from '../types';
+
+// The preferred provider (default to OpenAI)
+export const LLM_PROVIDER = process.env.LLM_PROVIDER || 'openai';
+
+// Order in which the other providers are tried when the preferred one isn't available
+const DEFAULT_FALLBACK_ORDER = ['openai', 'anthropic', 'deepseek', 'grok', 'local'];
+
+const NO_PROVIDER_MESSAGE = 'No LLM provider available. Please check your API keys.';
+
+// Registered providers, keyed by name
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider, replacing any existing provider with the same name
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get a registered provider by name
+ */
+export function getProvider(name: string): LLMProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * The names of providers to try, in order: the preferred provider first, then the fallbacks
+ */
+export function getProviderOrder(): string[] {
+  const fallbackOrder = process.env.LLM_FALLBACK_ORDER
+    ? process.env.LLM_FALLBACK_ORDER.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_FALLBACK_ORDER;
+
+  return Array.from(new Set([LLM_PROVIDER, ...fallbackOrder, ...Array.from(providers.keys())]));
+}
+
+/**
+ * Get the provider to use: the preferred provider if it's available, otherwise the first available fallback
+ */
+export function getActiveProvider(): LLMProvider | undefined {
+  for (const name of getProviderOrder()) {
+    const provider = providers.get(name);
+    if (provider?.isAvailable()) {
+      return provider;
+    }
+  }
+  return undefined;
+}
+
+registerProvider(new OpenAICompatibleProvider({
+  name: 'openai',
+  apiKey: process.env.OPENAI_API_KEY,
+  model: process.env.OPENAI_MODEL,
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+  defaultModel: 'gpt-4o-mini',
+  useRequestedDefaultModel: true
+}));
+
+registerProvider(new AnthropicProvider());
+
+registerProvider(new OpenAICompatibleProvider({
+  name: 'deepseek',
+  apiKey: process.env.DEEPSEEK_API_KEY,
+  baseURL: process.env.DEEPSEEK_API_KEY ? (process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com') : undefined,
+  model: process.env.DEEPSEEK_MODEL,
+  defaultModel: 'deepseek-chat'
+}));
+
+registerProvider(new OpenAICompatibleProvider({
+  name: 'grok',
+  apiKey: process.env.GROK_API_KEY || process.env.XAI_API_KEY,
+  baseURL: process.env.GROK_API_KEY || process.env.XAI_API_KEY
+    ? (process.env.GROK_BASE_URL || 'https://api.x.ai/v1')
+    : undefined,
+  model: process.env.GROK_MODEL,
+  defaultModel: 'grok-2-1212'
+}));
+
+// Any OpenAI-compatible server (Ollama, LM Studio, vLLM, ...) - enabled by setting its base URL
+registerProvider(new OpenAICompatibleProvider({
+  name: 'local',
+  apiKey: process.env.LOCAL_LLM_API_KEY,
+  baseURL: process.env.LOCAL_LLM_BASE_URL,
+  model: process.env.LOCAL_LLM_MODEL,
+  defaultModel: 'llama3.1'
+}));
+
+// Deterministic provider with no network access - only used when selected via LLM_PROVIDER or LLM_FALLBACK_ORDER
+registerProvider(new OfflineProvider({
+  enabled: LLM_PROVIDER === 'offline' || (process.env.LLM_FALLBACK_ORDER || '').split(',').some(name => name.trim() === 'offline'),
+  fixtures: process.env.LLM_FIXTURES_PATH ? loadOfflineFixtures(process.env.LLM_FIXTURES_PATH) : []
+}));
+
+/**
+ * Get the appropriate model for the active provider
+ */
+export function getModel(defaultModel = 'gpt-4o-mini'): string {
+  const provider = getActiveProvider();
+  return provider ? provider.getModel(defaultModel) : defaultModel;
+}
+
+/**
+ * Check if any LLM provider is available
+ */
+export function isLLMAvailable(): boolean {
+  return !!getActiveProvider();
+}
+
+/**
+ * Make a completion request to the active LLM provider
+ */
+export async function generateCompletion(params: CompletionRequest): Promise<string> {
+  const provider = getActiveProvider();
+  if (!provider) {
+    console.warn('No LLM provider available, returning fallback response');
+    return NO_PROVIDER_MESSAGE;
+  }
+
+  try {
+    return await provider.generateCompletion(params);
+  } catch (error) {
+    console.error(`Error generating completion with ${provider.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Make a completion request and stream the text as it is generated
+ * @param onToken Called with each chunk of text as it arrives
+ * @returns The full completion text
+ */
+export async function streamCompletion(
+  params: CompletionRequest & { onToken: (token: string) => void }
+): Promise<string> {
+  const { onToken, ...request } = params;
+  const provider = getActiveProvider();
+  if (!provider) {
+    console.warn('No LLM provider available, returning fallback response');
+    onToken(NO_PROVIDER_MESSAGE);
+    return NO_PROVIDER_MESSAGE;
+  }
+
+  try {
+    return await provider.streamCompletion(request, onToken);
+  } catch (error) {
+    console.error(`Error streaming completion with ${provider.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Make a completion request that lets the model call tools
+ */
+export async function generateToolCompletion(params: ToolCompletionRequest): Promise<ToolCompletionResult> {
+  const provider = getActiveProvider();
+  if (!provider) {
+    console.warn('No LLM provider available, returning fallback response');
+    return { text: NO_PROVIDER_MESSAGE, toolCalls: [] };
+  }
+
+  try {
+    return await provider.generateToolCompletion(params);
+  } catch (error) {
+    console.error(`Error generating tool completion with ${provider.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Make a tool-enabled completion request, streaming the text as it is generated.
+ * Tool calls are only returned once the model has finished.
+ */
+export async function streamToolCompletion(
+  params: ToolCompletionRequest & { onToken: (token: string) => void }
+): Promise<ToolCompletionResult> {
+  const { onToken, ...request } = params;
+  const provider = getActiveProvider();
+  if (!provider) {
+    console.warn('No LLM provider available, returning fallback response');
+    onToken(NO_PROVIDER_MESSAGE);
+    return { text: NO_PROVIDER_MESSAGE, toolCalls: [] };
+  }
+
+  try {
+    return await provider.streamToolCompletion(request, onToken);
+  } catch (error) {
+    console.error(`Error streaming tool completion with ${provider.name}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { type Goal } from "@shared/schema";
+import { registerRoutes } from "../../routes";
+import { getActiveProvider, getProvider, OfflineProvider } from "./index";
+
+// The whole flow runs on the offline provider (LLM_PROVIDER=offline in vitest.config.ts)
+describe("offline provider", () => {
+  let user: request.Agent;
+  let offline: OfflineProvider;
+  let goal: Goal;
+
+  beforeAll(async () => {
+    offline = getProvider("offline") as OfflineProvider;
+
+    const app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+
+    user = request.agent(app);
+    await user.post("/api/register")
+      .send({ username: "offline", email: "offline@example.com", password: "secret123" })
+      .expect(201);
+  });
+
+  it("is the active provider", () => {
+    expect(getActiveProvider()).toBe(offline);
+  });
+
+  it("breaks a goal down into dependent tasks", async () => {
+    const response = await user.post("/api/goals")
+      .send({ title: "Plan a trip", additionalInfo: "book flights and find a hotel", timeConstraintMinutes: 120 })
+      .expect(201);
+    goal = response.body;
+
+    expect(goal.tasks.map(task => task.title)).toEqual([
+      "Define what done looks like for: Plan a trip",
+      "Work on: book flights",
+      "Work on: find a hotel",
+      "Review and wrap up: Plan a trip"
+    ]);
+    expect(goal.totalEstimatedMinutes).toBe(120);
+
+    const [defineTask, flightsTask, hotelTask, reviewTask] = goal.tasks;
+    expect(flightsTask.dependsOn).toEqual([defineTask.id]);
+    expect(reviewTask.dependsOn).toEqual([flightsTask.id, hotelTask.id]);
+  });
+
+  it("applies the tool calls of a chat reply", async () => {
+    const [defineTask] = goal.tasks;
+    offline.addFixture({
+      match: "I defined done",
+      response: "Nice work! I've ticked that off and added a packing task.",
+      toolCalls: [
+        { name: "complete_task", arguments: { goalId: goal.id, taskId: defineTask.id } },
+        { name: "add_task", arguments: { goalId: goal.id, title: "Pack a bag", complexity: "low" } }
+      ]
+    });
+
+    const response = await user.post("/api/coach/chat")
+      .send({ message: "I defined done for my trip, and I still need to pack", goalId: goal.id })
+      .expect(200);
+
+    expect(response.body.message).toContain("Nice work!");
+    expect(response.body.tasksCreated).toBe(true);
+    expect(response.body.actions).toEqual([
+      expect.objectContaining({ tool: "complete_task", status: "applied" }),
+      expect.objectContaining({ tool: "add_task", status: "applied", summary: 'Added task "Pack a bag" to "Plan a trip"' })
+    ]);
+
+    const updated = await user.get(`/api/goals/${goal.id}`).expect(200);
+    expect(updated.body.tasks[0].completed).toBe(true);
+    expect(updated.body.tasks.map((task: { title: string }) => task.title)).toContain("Pack a bag");
+  });
+
+  it("doesn't report tasks created for changes to existing tasks", async () => {
+    const [, flightsTask] = goal.tasks;
+    offline.addFixture({
+      match: "flights takes longer",
+      response: "Updated the estimate.",
+      toolCalls: [{ name: "update_task", arguments: { goalId: goal.id, taskId: flightsTask.id, estimatedMinutes: 90 } }]
+    });
+
+    const response = await user.post("/api/coach/chat")
+      .send({ message: "Booking flights takes longer than I thought", goalId: goal.id })
+      .expect(200);
+
+    expect(response.body.actions).toEqual([expect.objectContaining({ tool: "update_task", status: "applied" })]);
+    expect(response.body.tasksCreated).toBe(false);
+  });
+
+  it("only deletes a goal once the user confirms", async () => {
+    offline.addFixture({
+      match: "cancel the trip",
+      response: "",
+      toolCalls: [{ name: "delete_goal", arguments: { goalId: goal.id } }]
+    });
+
+    const response = await user.post("/api/coach/chat")
+      .send({ message: "Please cancel the trip, it's not happening", goalId: goal.id })
+      .expect(200);
+
+    const [proposal] = response.body.actions;
+    expect(proposal).toMatchObject({ tool: "delete_goal", status: "proposed", goalId: goal.id });
+    expect(response.body.message).toContain(proposal.summary);
+    await user.get(`/api/goals/${goal.id}`).expect(200);
+
+    const confirmed = await user.post(`/api/coach/actions/${proposal.proposalId}/confirm`).expect(200);
+
+    expect(confirmed.body).toMatchObject({ tool: "delete_goal", status: "applied", proposalId: proposal.proposalId });
+    await user.get(`/api/goals/${goal.id}`).expect(404);
+    await user.post(`/api/coach/actions/${proposal.proposalId}/confirm`).expect(409);
+  });
+
+  it("replays the conversation to the model as alternating turns starting with the user", async () => {
+    const [conversation] = (await user.get("/api/coach/conversations").expect(200)).body;
+    const generateToolCompletion = vi.spyOn(offline, "generateToolCompletion");
+
+    // The last stored turns are the coach's proposal and its "Done" note after the confirmation
+    await user.post("/api/coach/chat")
+      .send({ message: "What should I plan next?", conversationId: conversation.id })
+      .expect(200);
+
+    const { messages } = generateToolCompletion.mock.calls[0][0];
+    expect(messages[0].role).toBe("user");
+    expect(messages.every((message, index) => message.role === (index % 2 === 0 ? "user" : "assistant"))).toBe(true);
+    expect(messages[messages.length - 1]).toEqual({ role: "user", content: "What should I plan next?" });
+    expect(messages[messages.length - 2].content).toContain("Done: Deleted goal");
+    generateToolCompletion.mockRestore();
+  });
+});
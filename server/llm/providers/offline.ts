@@ -0,0 +1,290 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { type EstimateCalibration, type TaskComplexity } from '@shared/schema';
+import { BaseLLMProvider } from './base';
+import {
+  CompletionRequest,
+  ToolCompletionRequest,
+  ToolCompletionResult,
+  TaskBreakdownResponse,
+  CoachMessage,
+  CoachingContext,
+  TaskDiscussionContext
+} from '../types';
+import { buildRoadblockTipsPrompt, buildTaskDiscussionPrompt } from '../prompts';
+
+/**
+ * A recorded response, matched against the user prompt (or latest chat message)
+ */
+const offlineFixtureSchema = z.object({
+  match: z.string().min(1), // Substring of the prompt this fixture answers
+  response: z.string(),
+  toolCalls: z.array(z.object({
+    name: z.string(),
+    arguments: z.unknown()
+  })).optional()
+});
+
+const offlineFixturesFileSchema = z.union([
+  z.array(offlineFixtureSchema),
+  z.object({ fixtures: z.array(offlineFixtureSchema) })
+]);
+
+export type OfflineFixture = z.infer<typeof offlineFixtureSchema>;
+
+const OFFLINE_TEXT_RESPONSE = "I'm running in offline mode, so here's a simple suggestion: pick the smallest next step you can finish in 10 minutes and start there.";
+
+// Scale an estimate by the user's ratio for its complexity, or their overall ratio
+function calibrateMinutes(minutes: number, complexity: TaskComplexity, calibration?: EstimateCalibration): number {
+  const estimateRatio = calibration?.byComplexity[complexity] || calibration?.overall;
+  return estimateRatio ? Math.max(1, Math.round(minutes * estimateRatio.ratio)) : minutes;
+}
+
+/**
+ * Load recorded fixtures from a JSON file: either an array of fixtures or { "fixtures": [...] }
+ */
+export function loadOfflineFixtures(path: string): OfflineFixture[] {
+  const file = offlineFixturesFileSchema.parse(JSON.parse(fs.readFileSync(path, 'utf-8')));
+  return Array.isArray(file) ? file : file.fixtures;
+}
+
+/**
+ * Deterministic provider that needs no network access.
+ * Recorded fixtures are used when one matches the prompt; otherwise responses are generated by simple rules.
+ */
+export class OfflineProvider extends BaseLLMProvider {
+  name = 'offline';
+  private enabled: boolean;
+  private fixtures: OfflineFixture[];
+
+  constructor(options: { enabled: boolean; fixtures?: OfflineFixture[] }) {
+    super();
+    this.enabled = options.enabled;
+    this.fixtures = options.fixtures || [];
+  }
+
+  // Only used when selected, so a missing API key never silently switches to canned responses
+  isAvailable(): boolean {
+    return this.enabled;
+  }
+
+  getModel(): string {
+    return 'offline';
+  }
+
+  /**
+   * Add a recorded response (fixtures added later take precedence)
+   */
+  addFixture(fixture: OfflineFixture): void {
+    this.fixtures.unshift(fixture);
+  }
+
+  private findFixture(prompt: string): OfflineFixture | undefined {
+    return this.fixtures.find(fixture => prompt.includes(fixture.match));
+  }
+
+  async generateCompletion(request: CompletionRequest): Promise<string> {
+    const fixture = this.findFixture(request.userPrompt);
+    if (fixture) return fixture.response;
+
+    return request.responseFormat === 'json_object' ? '{}' : OFFLINE_TEXT_RESPONSE;
+  }
+
+  async streamCompletion(request: CompletionRequest, onToken: (token: string) => void): Promise<string> {
+    const text = await this.generateCompletion(request);
+    streamWords(text, onToken);
+    return text;
+  }
+
+  async generateToolCompletion(request: ToolCompletionRequest): Promise<ToolCompletionResult> {
+    const latestUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const fixture = latestUserMessage ? this.findFixture(latestUserMessage.content) : undefined;
+
+    if (!fixture) {
+      return { text: OFFLINE_TEXT_RESPONSE, toolCalls: [] };
+    }
+
+    return {
+      text: fixture.response,
+      toolCalls: (fixture.toolCalls || []).map((call, index) => ({
+        id: `offline-call-${index + 1}`,
+        name: call.name,
+        arguments: call.arguments
+      }))
+    };
+  }
+
+  async streamToolCompletion(
+    request: ToolCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<ToolCompletionResult> {
+    const result = await this.generateToolCompletion(request);
+    streamWords(result.text, onToken);
+    return result;
+  }
+
+  // The analysis only feeds the breakdown prompt, so it's skipped offline to keep fixtures simple
+  async analyzeGoalWithChainOfThought(): Promise<string> {
+    return '';
+  }
+
+  async breakdownGoalIntoTasks(
+    goalTitle: string,
+    goalAnalysis: string,
+    timeConstraintMinutes?: number,
+    additionalInfo?: string,
+    calibration?: EstimateCalibration
+  ): Promise<TaskBreakdownResponse> {
+    if (this.findFixture(goalTitle)) {
+      return await super.breakdownGoalIntoTasks(goalTitle, goalAnalysis, timeConstraintMinutes, additionalInfo, calibration);
+    }
+
+    // One work task per part of the goal ("X and Y", bullet points, ...), between a planning and a review task
+    const parts = splitIntoParts(additionalInfo && additionalInfo.trim() ? additionalInfo : goalTitle);
+    const workTitles = parts.length > 1 ? parts : [goalTitle];
+    const titles = [
+      `Define what done looks like for: ${goalTitle}`,
+      ...workTitles.map(part => `Work on: ${part}`),
+      `Review and wrap up: ${goalTitle}`
+    ];
+
+    // Share the time constraint across tasks, or assume 30 minutes per task
+    const minutesPerTask = timeConstraintMinutes
+      ? Math.max(5, Math.floor(timeConstraintMinutes / titles.length))
+      : 30;
+
+    const tasks: TaskBreakdownResponse['tasks'] = titles.map((title, index) => {
+      const isWorkTask = index > 0 && index < titles.length - 1;
+      const complexity = isWorkTask ? 'medium' : 'low';
+      const minutes = calibrateMinutes(minutesPerTask, complexity, calibration);
+      const firstHalf = Math.ceil(minutes / 2);
+      return {
+        title,
+        estimatedMinutes: minutes,
+        complexity,
+        context: isWorkTask
+          ? 'Focus on this part only. Stop when it works well enough to move on.'
+          : 'A short step that keeps the goal clear and manageable.',
+        actionItems: [
+          'Set a timer before you start',
+          'Write down anything that blocks you'
+        ],
+        // Work starts once done is defined; the review waits for all the work
+        dependsOn: index === 0 ? [] : isWorkTask ? [0] : titles.slice(1, -1).map((_, i) => i + 1),
+        subtasks: [
+          { title: 'Get everything you need ready', estimatedMinutes: firstHalf },
+          { title: 'Finish the main step', estimatedMinutes: minutes - firstHalf }
+        ]
+      };
+    });
+
+    return {
+      tasks,
+      totalEstimatedMinutes: tasks.reduce((sum, task) => sum + task.estimatedMinutes, 0),
+      overallSuggestions: 'Work through the tasks in order and take a short break between them.'
+    };
+  }
+
+  async generateCoachingMessage(contextData: CoachingContext): Promise<CoachMessage> {
+    if (this.findFixture(JSON.stringify(contextData))) {
+      return await super.generateCoachingMessage(contextData);
+    }
+
+    const { userName, goals, overallProgress, totalTasks, totalCompletedTasks, currentStreak, recentFocusSessions } = contextData;
+    const roadblockGoal = goals.find(goal => goal.needsHelp) || goals.find(goal => goal.hasRoadblocks);
+    const topGoal = [...goals].sort((a, b) => b.progress - a.progress)[0];
+
+    if (goals.length === 0 || totalTasks === 0) {
+      return {
+        message: `Hi ${userName}! Add a goal and I'll help you break it into small steps.`,
+        type: 'encouragement'
+      };
+    }
+    if (topGoal.progress === 100) {
+      return {
+        message: `You finished "${topGoal.title}", ${userName}! Take a moment to enjoy that.`,
+        type: 'congratulation'
+      };
+    }
+    if (recentFocusSessions.length > 0) {
+      const minutes = recentFocusSessions.reduce((acc, session) => acc + session.focusedMinutes, 0);
+      const lastSession = recentFocusSessions[recentFocusSessions.length - 1];
+      return {
+        message: `Nice focus, ${userName}! ${minutes} minutes of deep work, most recently on "${lastSession.taskTitle}".`,
+        type: 'congratulation'
+      };
+    }
+    if (roadblockGoal) {
+      return {
+        message: `"${roadblockGoal.title}" has a roadblock. Try shrinking the next step until it feels easy to start.`,
+        type: 'tip'
+      };
+    }
+    if (currentStreak >= 3) {
+      return {
+        message: `${currentStreak} days in a row, ${userName}! One task today keeps the streak going.`,
+        type: 'milestone'
+      };
+    }
+    if (overallProgress >= 50) {
+      return {
+        message: `You're past halfway, ${userName}: ${totalCompletedTasks} of ${totalTasks} tasks done.`,
+        type: 'milestone'
+      };
+    }
+    return {
+      message: `Keep going, ${userName}! Pick one task from "${topGoal.title}" and start with five minutes.`,
+      type: 'encouragement'
+    };
+  }
+
+  async generateRoadblockTips(goalTitle: string, roadblock: string): Promise<string[]> {
+    if (this.findFixture(buildRoadblockTipsPrompt(goalTitle, roadblock))) {
+      return await super.generateRoadblockTips(goalTitle, roadblock);
+    }
+
+    return [
+      `Write down the smallest next step for "${goalTitle}" and do only that.`,
+      'Ask someone who has done this before for a quick pointer.',
+      'Set a 10-minute timer and work on it without judging the result.'
+    ];
+  }
+
+  async discussTask(
+    taskContext: TaskDiscussionContext,
+    message: string,
+    onToken?: (token: string) => void
+  ): Promise<string> {
+    if (this.findFixture(buildTaskDiscussionPrompt(taskContext, message))) {
+      return await super.discussTask(taskContext, message, onToken);
+    }
+
+    const nextSubtask = taskContext.subtasks.find(subtask => !subtask.completed);
+    const response = nextSubtask
+      ? `For "${taskContext.title}", start with "${nextSubtask.title}". Keep it small and check it off when it's done.`
+      : `For "${taskContext.title}", decide on the very first action and give it 10 focused minutes.`;
+
+    if (onToken) streamWords(response, onToken);
+    return response;
+  }
+}
+
+/**
+ * Emit text word by word to mimic a streamed response
+ */
+function streamWords(text: string, onToken: (token: string) => void): void {
+  for (const token of text.match(/\S+\s*/g) || []) {
+    onToken(token);
+  }
+}
+
+/**
+ * Split a goal description into parts on bullet points, lines, commas and "and"
+ */
+function splitIntoParts(text: string): string[] {
+  return text
+    .split(/\n|;|,|\band\b/i)
+    .map(part => part.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(part => part.length > 2)
+    .slice(0, 6);
+}
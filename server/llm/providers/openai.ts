@@ -0,0 +1,173 @@
+import OpenAI from 'openai';
+import { BaseLLMProvider } from './base';
+import { CompletionRequest, ToolCall, ToolCompletionRequest, ToolCompletionResult } from '../types';
+
+/**
+ * Configuration for a provider that speaks the OpenAI chat completions API
+ */
+export interface OpenAICompatibleConfig {
+  name: string;
+  apiKey?: string;
+  baseURL?: string; // Omit for OpenAI itself
+  model?: string; // Model configured for this provider
+  defaultModel: string; // Used when no model is configured
+  useRequestedDefaultModel?: boolean; // Whether callers' default model names apply (OpenAI only)
+}
+
+/**
+ * Provider for OpenAI and OpenAI-compatible endpoints (DeepSeek, Grok, local servers)
+ */
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  name: string;
+  private client: OpenAI | null = null;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super();
+    this.name = config.name;
+    this.config = config;
+
+    // Local servers usually don't need a key, but the client requires one
+    if (config.apiKey || config.baseURL) {
+      this.client = new OpenAI({ apiKey: config.apiKey || 'not-needed', baseURL: config.baseURL });
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.client;
+  }
+
+  getModel(defaultModel?: string): string {
+    if (this.config.model) return this.config.model;
+    return (this.config.useRequestedDefaultModel && defaultModel) || this.config.defaultModel;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error(`LLM provider "${this.name}" is not configured`);
+    }
+    return this.client;
+  }
+
+  private buildMessages(
+    systemPrompt: string | undefined,
+    messages: { role: 'user' | 'assistant'; content: string }[]
+  ): { role: 'system' | 'user' | 'assistant'; content: string }[] {
+    const openaiMessages: { role: 'system' | 'user' | 'assistant'; content: string }[] = [];
+
+    if (systemPrompt) {
+      openaiMessages.push({
+        role: 'system',
+        content: systemPrompt,
+      });
+    }
+    openaiMessages.push(...messages);
+
+    return openaiMessages;
+  }
+
+  private buildTools(request: ToolCompletionRequest) {
+    return request.tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  async generateCompletion(request: CompletionRequest): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model || this.getModel(),
+      messages: this.buildMessages(request.systemPrompt, [{ role: 'user', content: request.userPrompt }]),
+      response_format: request.responseFormat === 'json_object' ? { type: 'json_object' } : undefined,
+    });
+
+    return response.choices[0].message.content || '';
+  }
+
+  async streamCompletion(request: CompletionRequest, onToken: (token: string) => void): Promise<string> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model || this.getModel(),
+      messages: this.buildMessages(request.systemPrompt, [{ role: 'user', content: request.userPrompt }]),
+      response_format: request.responseFormat === 'json_object' ? { type: 'json_object' } : undefined,
+      stream: true,
+    });
+
+    let text = '';
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+    }
+
+    return text;
+  }
+
+  async generateToolCompletion(request: ToolCompletionRequest): Promise<ToolCompletionResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model || this.getModel(),
+      messages: this.buildMessages(request.systemPrompt, request.messages),
+      tools: this.buildTools(request),
+    });
+
+    const message = response.choices[0].message;
+    const toolCalls = (message.tool_calls || []).map(call =>
+      parseToolCall(call.id, call.function.name, call.function.arguments)
+    );
+
+    return { text: message.content || '', toolCalls };
+  }
+
+  async streamToolCompletion(
+    request: ToolCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<ToolCompletionResult> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model || this.getModel(),
+      messages: this.buildMessages(request.systemPrompt, request.messages),
+      tools: this.buildTools(request),
+      stream: true,
+    });
+
+    // Tool call ids, names and arguments arrive in fragments keyed by index
+    let text = '';
+    const partialCalls: { id: string; name: string; arguments: string }[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        text += delta.content;
+        onToken(delta.content);
+      }
+
+      for (const callDelta of delta.tool_calls || []) {
+        const call = partialCalls[callDelta.index] ||= { id: '', name: '', arguments: '' };
+        if (callDelta.id) call.id = callDelta.id;
+        if (callDelta.function?.name) call.name += callDelta.function.name;
+        if (callDelta.function?.arguments) call.arguments += callDelta.function.arguments;
+      }
+    }
+
+    const toolCalls = partialCalls
+      .filter(Boolean)
+      .map(call => parseToolCall(call.id, call.name, call.arguments));
+
+    return { text, toolCalls };
+  }
+}
+
+function parseToolCall(id: string, name: string, rawArguments: string): ToolCall {
+  // Malformed argument JSON is passed through as undefined and fails validation later
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArguments);
+  } catch {
+    args = undefined;
+  }
+  return { id, name, arguments: args };
+}
@@ -1,27 +1,75 @@
-import { Task } from "@shared/schema";
+import { Task, type EstimateCalibration } from "@shared/schema";
 import { nanoid } from "nanoid";
-import { generateCompletion, getModel, isLLMAvailable } from "./providers";
+import { getActiveProvider, LLMResponseValidationError } from "./providers";
+import { LLMProvider, TaskBreakdownResponse } from "./types";
 
 /**
- * Response format for task breakdown
+ * Generic breakdown used when no usable response can be had from an LLM
  */
-interface TaskBreakdownResponse {
-  tasks: {
-    title: string;
-    estimatedMinutes: number;
-    complexity: 'low' | 'medium' | 'high';
-    context?: string; 
-    actionItems?: string[]; 
-    dueDate?: string;
-    subtasks?: {
-      title: string;
-      estimatedMinutes: number;
-      context?: string;
-      dueDate?: string;
-    }[];
-  }[];
-  totalEstimatedMinutes: number;
-  overallSuggestions?: string;
+function getDefaultBreakdown(
+  goalTitle: string,
+  timeConstraintMinutes?: number
+): { tasks: Task[], totalEstimatedMinutes: number } {
+  // Each step builds on the one before it
+  const [researchId, planId, executeId] = [nanoid(), nanoid(), nanoid()];
+  return {
+    tasks: [
+      {
+        id: researchId,
+        title: `Research how to: ${goalTitle}`,
+        completed: false,
+        estimatedMinutes: 30,
+        complexity: 'medium',
+        addedToCalendar: false,
+        reminderEnabled: false,
+        reminderTime: undefined,
+        enableWhatsapp: false,
+        whatsappNumber: undefined,
+        reminderFrequency: 'task-only',
+        subtasks: []
+      },
+      {
+        id: planId,
+        title: `Create a plan for: ${goalTitle}`,
+        dependsOn: [researchId],
+        completed: false,
+        estimatedMinutes: 30,
+        complexity: 'medium',
+        addedToCalendar: false,
+        reminderEnabled: false,
+        reminderTime: undefined,
+        enableWhatsapp: false,
+        whatsappNumber: undefined,
+        reminderFrequency: 'task-only',
+        subtasks: []
+      },
+      {
+        id: executeId,
+        title: `Execute the plan for: ${goalTitle}`,
+        dependsOn: [planId],
+        completed: false,
+        estimatedMinutes: timeConstraintMinutes ? timeConstraintMinutes - 60 : 60,
+        complexity: 'medium',
+        addedToCalendar: false,
+        reminderEnabled: false,
+        reminderTime: undefined,
+        enableWhatsapp: false,
+        whatsappNumber: undefined,
+        reminderFrequency: 'task-only',
+        subtasks: []
+      }
+    ],
+    totalEstimatedMinutes: timeConstraintMinutes || 120
+  };
+}
+
+/**
+ * Convert the indexes of the tasks a task depends on to task ids.
+ * Only earlier tasks are kept, so the model can't introduce a dependency cycle.
+ */
+function toDependencyIds(dependsOn: number[] | undefined, taskIndex: number, taskIds: string[]): string[] {
+  return Array.from(new Set((dependsOn ?? []).filter(index => index < taskIndex)))
+    .map(index => taskIds[index]);
 }
 
 /**
@@ -29,48 +77,15 @@ interface TaskBreakdownResponse {
  * before performing the actual breakdown
  */
 async function analyzeGoalWithChainOfThought(
+  provider: LLMProvider,
   goalTitle: string,
   timeConstraintMinutes?: number,
   additionalInfo?: string
 ): Promise<string> {
   console.log(`Starting chain-of-thought analysis for goal: "${goalTitle}"`);
   
-  if (!isLLMAvailable()) {
-    console.log('No LLM provider available, skipping chain-of-thought analysis');
-    return "";
-  }
-  
   try {
-    const prompt = `
-    I need to break down this goal into actionable tasks:
-    
-    Goal: "${goalTitle}"
-    ${timeConstraintMinutes ? `Time Constraint: ${timeConstraintMinutes} minutes` : ''}
-    ${additionalInfo ? `Additional Information: ${additionalInfo}` : ''}
-    
-    Before creating a structured task breakdown, I'll think through what this goal might involve and what context I should consider:
-    
-    1. What domain knowledge is required for this goal?
-    2. What might be the implicit steps or prerequisites not stated directly?
-    3. Are there potential bottlenecks or challenging aspects to consider?
-    4. What technical, creative, or logistical components might be involved?
-    5. What resources or skills might be needed?
-    6. If there's a time constraint, how should priorities be adjusted?
-    7. What common pitfalls or roadblocks might occur?
-    8. What would make for a successful outcome?
-    
-    Provide a detailed chain-of-thought analysis (5-10 paragraphs) about this goal before breaking it down.
-    `;
-    
-    const systemPrompt = `You are an expert at analyzing goals and projects. You excel at identifying unstated requirements, 
-    potential challenges, and important context that would help in breaking down a goal into tasks. 
-    Your analysis should be thorough, insightful, and cover multiple perspectives on the goal.`;
-    
-    const analysis = await generateCompletion({
-      systemPrompt,
-      userPrompt: prompt,
-      model: getModel('gpt-4o-mini')
-    });
+    const analysis = await provider.analyzeGoalWithChainOfThought(goalTitle, timeConstraintMinutes, additionalInfo);
     
     console.log(`Completed chain-of-thought analysis for goal: "${goalTitle}"`);
     console.log(`Analysis length: ${analysis.length} characters`);
@@ -83,214 +98,56 @@ async function analyzeGoalWithChainOfThought(
   }
 }
 
+/**
+ * Break a goal down into tasks with an LLM, falling back to a generic breakdown
+ * @param calibration How long the user's tasks take compared to their estimates, to calibrate new estimates
+ */
 export async function breakdownGoal(
   goalTitle: string, 
   timeConstraintMinutes?: number,
-  additionalInfo?: string
+  additionalInfo?: string,
+  calibration?: EstimateCalibration
 ): Promise<{ tasks: Task[], totalEstimatedMinutes: number, overallSuggestions?: string }> {
   try {
-    // First, perform chain-of-thought analysis to gather more context
-    const goalAnalysis = await analyzeGoalWithChainOfThought(goalTitle, timeConstraintMinutes, additionalInfo);
+    const provider = getActiveProvider();
     
-    if (!isLLMAvailable()) {
-      return {
-        tasks: [
-          {
-            id: nanoid(),
-            title: `Research how to: ${goalTitle}`,
-            completed: false,
-            estimatedMinutes: 30,
-            complexity: 'medium',
-            addedToCalendar: false,
-            reminderEnabled: false,
-            reminderTime: undefined,
-            enableWhatsapp: false,
-            whatsappNumber: undefined,
-            reminderFrequency: 'task-only',
-            subtasks: []
-          },
-          {
-            id: nanoid(),
-            title: `Create a plan for: ${goalTitle}`,
-            completed: false,
-            estimatedMinutes: 30,
-            complexity: 'medium',
-            addedToCalendar: false,
-            reminderEnabled: false,
-            reminderTime: undefined,
-            enableWhatsapp: false,
-            whatsappNumber: undefined,
-            reminderFrequency: 'task-only',
-            subtasks: []
-          },
-          {
-            id: nanoid(),
-            title: `Execute the plan for: ${goalTitle}`,
-            completed: false,
-            estimatedMinutes: timeConstraintMinutes ? timeConstraintMinutes - 60 : 60,
-            complexity: 'medium',
-            addedToCalendar: false,
-            reminderEnabled: false,
-            reminderTime: undefined,
-            enableWhatsapp: false,
-            whatsappNumber: undefined,
-            reminderFrequency: 'task-only',
-            subtasks: []
-          }
-        ],
-        totalEstimatedMinutes: timeConstraintMinutes || 120
-      };
-    }
-    
-    let timeConstraintText = "";
-    if (timeConstraintMinutes) {
-      timeConstraintText = `
-      IMPORTANT: The user has specified that they need to complete this goal within ${timeConstraintMinutes} minutes.
-      Please optimize your task breakdown to fit within this timeframe and prioritize accordingly.
-      `;
-    }
-    
-    let additionalInfoText = "";
-    if (additionalInfo && additionalInfo.trim()) {
-      additionalInfoText = `
-      The user has provided additional context about this goal:
-      "${additionalInfo}"
-      
-      Use this information to create a more accurate and relevant task breakdown.
-      `;
+    if (!provider) {
+      console.log('No LLM provider available, using the default task breakdown');
+      return getDefaultBreakdown(goalTitle, timeConstraintMinutes);
     }
     
-    let analysisText = "";
-    if (goalAnalysis && goalAnalysis.trim()) {
-      analysisText = `
-      CHAIN-OF-THOUGHT ANALYSIS:
-      ${goalAnalysis}
-      
-      Use this detailed analysis to inform your task breakdown, considering all the aspects, potential challenges, 
-      and context identified above.
-      `;
-    }
+    // First, perform chain-of-thought analysis to gather more context
+    const goalAnalysis = await analyzeGoalWithChainOfThought(provider, goalTitle, timeConstraintMinutes, additionalInfo);
     
-    const prompt = `
-      Break down the following goal into manageable tasks and subtasks with detailed time estimates and rich contextual information:
-      
-      Goal: "${goalTitle}"
-      
-      ${timeConstraintText}
-      ${additionalInfoText}
-      ${analysisText}
-      
-      IMPORTANT TASK BREAKDOWN GUIDELINES:
-      - Analyze this goal deeply and provide a comprehensive breakdown into 5-10 specific, actionable tasks.
-      - For every task, include 2-5 detailed subtasks that are specific, measurable, and achievable.
-      - Make sure each task and subtask has a clear outcome that can be marked as completed.
-      - Use active verbs at the beginning of task titles (e.g., "Create", "Implement", "Research", "Design").
-      - Ensure tasks are sequenced in a logical order of execution.
-      - Break down complex operations into smaller, manageable pieces.
-      - If the goal involves learning something new, include research and practice tasks with specific outcomes.
-      
-      FOR EACH TASK, PROVIDE:
-      1. A clear, specific title (10 words or less)
-      2. Realistic time estimates in minutes (be generous for complex tasks)
-      3. Complexity assessment (low, medium, high) based on skill required and cognitive load
-      4. Detailed context explaining WHY this task matters and HOW to approach it effectively (3-5 sentences)
-      5. 2-4 specific action items that provide step-by-step guidance
-      6. A suggested due date in ISO format (YYYY-MM-DD) based on task complexity and dependencies
-      
-      FOR EACH SUBTASK, PROVIDE:
-      1. A specific, actionable title (8 words or less)
-      2. Accurate time estimates in minutes
-      3. Rich contextual information explaining exactly how to complete this subtask (2-3 sentences)
-      4. A suggested due date in ISO format (YYYY-MM-DD) that falls before the parent task due date
-      
-      TIME ESTIMATION GUIDELINES:
-      - For unfamiliar activities, add 50% more time than you think is needed
-      - Consider setup time, learning curves, and potential roadblocks
-      - Break down estimates to specific minutes (not rounded hours)
-      - If the user provided a time constraint, ensure tasks are prioritized to fit within it
-      
-      Return your response as a JSON object with the following structure:
-      {
-        "tasks": [
-          {
-            "title": "Clear, specific task title with action verb",
-            "estimatedMinutes": 45,
-            "complexity": "medium",
-            "context": "Detailed explanation of this task's importance and approach. Include specific guidance on methodology, tools to use, and expected outcome. Offer insights that would help someone unfamiliar with this type of task.",
-            "actionItems": [
-              "Specific step 1 with exact details on what to do",
-              "Specific step 2 with guidance on potential challenges",
-              "Specific step 3 with clear success criteria"
-            ],
-            "subtasks": [
-              { 
-                "title": "Clear subtask title with action verb", 
-                "estimatedMinutes": 20,
-                "context": "Precise instructions for this subtask including specific approach, potential challenges, and how to verify completion." 
-              },
-              { 
-                "title": "Another specific subtask", 
-                "estimatedMinutes": 25,
-                "context": "Detailed context explaining exactly how to complete this specific component, including any resources needed and verification steps." 
-              }
-            ]
-          }
-        ],
-        "totalEstimatedMinutes": 200,
-        "overallSuggestions": "Provide 3-5 strategic recommendations for approaching this goal effectively. Include potential roadblocks to anticipate, efficiency tips, resources that might help, and success criteria for the overall goal. Offer encouragement and highlight the most critical aspects to focus on."
+    let parsedResponse: TaskBreakdownResponse;
+    try {
+      parsedResponse = await provider.breakdownGoalIntoTasks(
+        goalTitle,
+        goalAnalysis,
+        timeConstraintMinutes,
+        additionalInfo,
+        calibration
+      );
+    } catch (error) {
+      // The model kept returning unusable breakdowns - fall back rather than failing goal creation
+      if (error instanceof LLMResponseValidationError) {
+        console.error(`Invalid task breakdown for goal: "${goalTitle}", using the default breakdown:`, error.message);
+        return getDefaultBreakdown(goalTitle, timeConstraintMinutes);
       }
-      
-      FINAL REQUIREMENTS:
-      - Make every task and subtask title specific, actionable, and measurable
-      - Ensure the total time is the sum of all task estimated times (double-check your math)
-      - Provide DETAILED context for ALL tasks and subtasks that gives meaningful guidance
-      - Focus on practical advice that someone could follow without additional research
-      - If the goal is technical, include specific technical guidance in the context
-      - If the goal is creative, provide specific creative approaches and examples
-      - If the goal is learning-oriented, break down the learning process into concrete steps
-    `;
-
-    const systemPrompt = `You are TaskBreaker AI, a world-class productivity expert and project manager specializing in breaking down goals into manageable, actionable tasks.
-
-    Your expertise includes:
-    - Analyzing complex goals and creating structured, logical task breakdowns
-    - Providing accurate time estimates based on task complexity and dependencies
-    - Creating clear, actionable task descriptions with specific guidance
-    - Identifying potential roadblocks and suggesting effective strategies
-    - Adapting task breakdowns to fit time constraints when specified
-    - Breaking learning processes into concrete, measurable steps
-    - Organizing tasks in optimal sequence for efficient execution
-    
-    Your task breakdown is exceptional because you:
-    1. Use active verbs and clear language
-    2. Create specific, measurable outcomes for each task
-    3. Provide detailed context that explains WHY each task matters
-    4. Include step-by-step guidance on HOW to complete each task
-    5. Consider skill levels and learning curves in time estimates
-    6. Highlight dependencies between tasks
-    7. Balance thoroughness with practicality
-    
-    Always maintain a helpful, encouraging tone while providing highly detailed, actionable advice tailored to the specific goal.`;
-
-    const content = await generateCompletion({
-      systemPrompt,
-      userPrompt: prompt,
-      model: getModel('gpt-4o-mini'),
-      responseFormat: 'json_object'
-    });
-
-    // Parse the response
-    const parsedResponse = JSON.parse(content) as TaskBreakdownResponse;
+      throw error;
+    }
     
     // Transform to our data model with IDs, time estimates, and context
-    const tasks: Task[] = parsedResponse.tasks.map(task => ({
-      id: nanoid(),
+    const taskIds = parsedResponse.tasks.map(() => nanoid());
+    const tasks: Task[] = parsedResponse.tasks.map((task, index) => ({
+      id: taskIds[index],
       title: task.title,
       completed: false,
       estimatedMinutes: task.estimatedMinutes,
       complexity: task.complexity,
       context: task.context,
       actionItems: task.actionItems,
+      dependsOn: toDependencyIds(task.dependsOn, index, taskIds),
       dueDate: task.dueDate,
       addedToCalendar: false,
       reminderEnabled: false,
@@ -1,47 +1,59 @@
+import { type EstimateCalibration, type TaskComplexity } from '@shared/schema';
 import { generateCompletion, getModel } from './providers';
+import { describeEstimateCalibration } from './prompts';
+
+export interface TaskDifficulty {
+  complexity: TaskComplexity;
+  estimatedMinutes?: number; // Only when the model gave an estimate
+}
 
 /**
- * Analyzes a task description to determine its complexity level
+ * Analyzes a task description to determine its complexity level and how long it will take
  * @param taskTitle The title or description of the task
  * @param context Additional context about the task (optional)
- * @returns The complexity level: 'high', 'medium', or 'low'
+ * @param calibration How long the user's tasks take compared to their estimates (optional)
+ * @returns The complexity level: 'high', 'medium', or 'low', and an estimate in minutes
  */
 export async function analyzeTaskDifficulty(
   taskTitle: string,
-  context?: string
-): Promise<'high' | 'medium' | 'low'> {
+  context?: string,
+  calibration?: EstimateCalibration
+): Promise<TaskDifficulty> {
+  const calibrationText = describeEstimateCalibration(calibration);
   const systemPrompt = `
-You are an assistant that helps analyze tasks to determine their complexity level.
+You are an assistant that helps analyze tasks to determine their complexity level and how long they will take.
 Analyze the task provided and categorize it as:
 - 'high': Complex, time-consuming tasks requiring significant effort or expertise
 - 'medium': Moderate difficulty tasks requiring some thought but not overwhelming
 - 'low': Simple, straightforward tasks that can be completed quickly
-
-Provide ONLY the complexity level in your response, nothing else.
+${calibrationText ? `\nWhen estimating the time: ${calibrationText}\n` : ''}
+Provide ONLY the complexity level followed by your estimate in whole minutes, e.g. "medium 45", nothing else.
 `;
 
   const taskContext = context ? `\nAdditional context: ${context}` : '';
   const userPrompt = `Task: ${taskTitle}${taskContext}`;
-  
+
   try {
     const response = await generateCompletion({
       model: getModel('gpt-4o-mini'),
       systemPrompt,
       userPrompt
     });
-    
-    const complexity = response.trim().toLowerCase();
-    
+
+    const answer = response.trim().toLowerCase();
+    const estimate = answer.match(/^(?:high|medium|low)\s+(\d+)/);
+    const estimatedMinutes = estimate && Number(estimate[1]) > 0 ? Number(estimate[1]) : undefined;
+
     // Normalize the response
-    if (complexity.includes('high')) return 'high';
-    if (complexity.includes('medium')) return 'medium';
-    if (complexity.includes('low')) return 'low';
-    
+    if (answer.includes('high')) return { complexity: 'high', estimatedMinutes };
+    if (answer.includes('medium')) return { complexity: 'medium', estimatedMinutes };
+    if (answer.includes('low')) return { complexity: 'low', estimatedMinutes };
+
     // Default to medium if the response doesn't match expected values
-    return 'medium';
+    return { complexity: 'medium' };
   } catch (error) {
     console.error('Error analyzing task difficulty:', error);
     // Default to medium difficulty if analysis fails
-    return 'medium';
+    return { complexity: 'medium' };
   }
-}
\ No newline at end of file
+}
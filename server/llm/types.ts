@@ -1,32 +1,61 @@
+import { z } from 'zod';
+import { type EstimateCalibration } from '@shared/schema';
+
+const complexitySchema = z.preprocess(
+  // Models sometimes capitalize the level ("Medium")
+  value => typeof value === 'string' ? value.trim().toLowerCase() : value,
+  z.enum(['low', 'medium', 'high'])
+);
+
+// Accepts numbers sent as strings ("45")
+const numericSchema = (schema: z.ZodNumber) => z.preprocess(
+  value => typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value,
+  schema
+);
+
 /**
  * Response format for task breakdown
  */
-export interface TaskBreakdownResponse {
-  tasks: {
-    title: string;
-    estimatedMinutes: number;
-    complexity: 'low' | 'medium' | 'high';
-    context?: string; // Additional context about the task for AI
-    actionItems?: string[]; // Specific action items for this task
-    dueDate?: string; // Due date for the task (ISO string)
-    subtasks?: {
-      title: string;
-      estimatedMinutes: number;
-      context?: string; // Additional context about the subtask
-      dueDate?: string; // Due date for the subtask (ISO string)
-    }[];
-  }[];
-  totalEstimatedMinutes: number;
-  overallSuggestions?: string; // General suggestions for approaching the goal
-}
+export const taskBreakdownResponseSchema = z.object({
+  tasks: z.array(z.object({
+    title: z.string().min(1),
+    estimatedMinutes: numericSchema(z.number().positive()),
+    complexity: complexitySchema,
+    context: z.string().optional(), // Additional context about the task for AI
+    actionItems: z.array(z.string()).optional(), // Specific action items for this task
+    dependsOn: z.array(numericSchema(z.number().int().nonnegative())).optional(), // Indexes of earlier tasks that must be done first
+    dueDate: z.string().optional(), // Due date for the task (ISO string)
+    subtasks: z.array(z.object({
+      title: z.string().min(1),
+      estimatedMinutes: numericSchema(z.number().positive()),
+      context: z.string().optional(), // Additional context about the subtask
+      dueDate: z.string().optional(), // Due date for the subtask (ISO string)
+    })).optional(),
+  })).min(1),
+  totalEstimatedMinutes: numericSchema(z.number().nonnegative()),
+  overallSuggestions: z.string().optional(), // General suggestions for approaching the goal
+});
+
+export type TaskBreakdownResponse = z.infer<typeof taskBreakdownResponseSchema>;
 
 /**
  * Coach message format
  */
-export interface CoachMessage {
-  message: string;
-  type: 'encouragement' | 'tip' | 'congratulation' | 'milestone';
-}
+export const coachMessageSchema = z.object({
+  message: z.string().min(1),
+  type: z.enum(['encouragement', 'tip', 'congratulation', 'milestone']),
+});
+
+export type CoachMessage = z.infer<typeof coachMessageSchema>;
+
+/**
+ * Response format for roadblock tips
+ */
+export const roadblockTipsResponseSchema = z.object({
+  tips: z.array(z.string().min(1)).min(1),
+});
+
+export type RoadblockTipsResponse = z.infer<typeof roadblockTipsResponseSchema>;
 
 /**
  * Context for coaching messages
@@ -38,14 +67,25 @@ export interface CoachingContext {
     progress: number;
     tasksCompleted: number;
     totalTasks: number;
-    hasRoadblocks: boolean;
+    hasRoadblocks: boolean; // Unresolved roadblocks only
     roadblockDescription: string;
+    needsHelp: boolean; // The user asked for help with a roadblock
     timeConstraint: number;
   }[];
   overallProgress: number;
   totalCompletedTasks: number;
   totalTasks: number;
   hasGoalsWithRoadblocks: boolean;
+  currentStreak: number; // Days in a row with at least one completed task or subtask
+  longestStreak: number;
+  completionsLast7Days: number;
+  // Focus sessions finished since the last coaching message
+  recentFocusSessions: {
+    goalTitle: string;
+    taskTitle: string; // The subtask's title when the session was spent on a subtask
+    focusedMinutes: number; // Work intervals only, not breaks
+    completedIntervals: number;
+  }[];
 }
 
 /**
@@ -66,6 +106,52 @@ export interface TaskDiscussionContext {
   goalTitle: string;
 }
 
+/**
+ * A tool (function) the model may call
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema for the tool arguments
+}
+
+/**
+ * A tool call requested by the model. Arguments are unvalidated.
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: unknown;
+}
+
+/**
+ * Parameters for a single-turn completion request
+ */
+export interface CompletionRequest {
+  systemPrompt?: string;
+  userPrompt: string;
+  model?: string;
+  responseFormat?: 'json_object' | 'text';
+}
+
+/**
+ * Parameters for a multi-turn completion request that lets the model call tools
+ */
+export interface ToolCompletionRequest {
+  systemPrompt?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  tools: ToolDefinition[];
+  model?: string;
+}
+
+/**
+ * Result of a tool-enabled completion
+ */
+export interface ToolCompletionResult {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
 /**
  * Interface for all LLM providers
  */
@@ -80,6 +166,39 @@ export interface LLMProvider {
    */
   isAvailable(): boolean;
 
+  /**
+   * Get the model to use with this provider
+   * @param defaultModel Model to fall back to when none is configured (ignored by providers it doesn't apply to)
+   */
+  getModel(defaultModel?: string): string;
+
+  /**
+   * Make a completion request
+   * @returns The completion text
+   */
+  generateCompletion(request: CompletionRequest): Promise<string>;
+
+  /**
+   * Make a completion request, streaming the text as it is generated
+   * @param onToken Called with each chunk of text as it arrives
+   * @returns The full completion text
+   */
+  streamCompletion(request: CompletionRequest, onToken: (token: string) => void): Promise<string>;
+
+  /**
+   * Make a completion request that lets the model call tools
+   */
+  generateToolCompletion(request: ToolCompletionRequest): Promise<ToolCompletionResult>;
+
+  /**
+   * Make a tool-enabled completion request, streaming the text as it is generated.
+   * Tool calls are only returned once the model has finished.
+   */
+  streamToolCompletion(
+    request: ToolCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<ToolCompletionResult>;
+
   /**
    * Analyze a goal with chain-of-thought to gather more context
    * @param goalTitle The title of the goal
@@ -99,13 +218,15 @@ export interface LLMProvider {
    * @param goalAnalysis Chain-of-thought analysis of the goal
    * @param timeConstraintMinutes Optional time constraint in minutes
    * @param additionalInfo Optional additional information
+   * @param calibration How long the user's tasks take compared to their estimates, to calibrate new estimates
    * @returns Task breakdown response
    */
   breakdownGoalIntoTasks(
     goalTitle: string,
     goalAnalysis: string,
     timeConstraintMinutes?: number,
-    additionalInfo?: string
+    additionalInfo?: string,
+    calibration?: EstimateCalibration
   ): Promise<TaskBreakdownResponse>;
 
   /**
@@ -127,7 +248,12 @@ export interface LLMProvider {
    * Discuss a task with the AI
    * @param taskContext Task context data
    * @param message User's message
+   * @param onToken Optional callback that receives the response as it streams in
    * @returns AI's response as a string
    */
-  discussTask(taskContext: TaskDiscussionContext, message: string): Promise<string>;
-}
\ No newline at end of file
+  discussTask(
+    taskContext: TaskDiscussionContext,
+    message: string,
+    onToken?: (token: string) => void
+  ): Promise<string>;
+}
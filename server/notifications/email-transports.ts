@@ -0,0 +1,156 @@
+import sgMail from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+
+/**
+ * An email ready to send, with HTML and plain-text versions of the body
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * The outcome of sending an email through a transport
+ */
+export interface EmailDeliveryResult {
+  transport: string;
+  success: boolean;
+  messageId?: string; // The transport's id for the message, when it gives one
+  error?: string;
+}
+
+/**
+ * A way of delivering email
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage, from: string): Promise<EmailDeliveryResult>;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Logs emails to the console instead of sending them, for development
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: EmailMessage, from: string): Promise<EmailDeliveryResult> {
+    console.log(`
+==== MOCK EMAIL ====
+To: ${message.to}
+From: ${from}
+Subject: ${message.subject}
+Body:
+${message.text}
+==================
+`);
+    return { transport: this.name, success: true };
+  }
+}
+
+/**
+ * Sends email through the SendGrid API
+ */
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = "sendgrid";
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage, from: string): Promise<EmailDeliveryResult> {
+    try {
+      const [response] = await sgMail.send({ ...message, from });
+      const messageId = response.headers["x-message-id"];
+      return {
+        transport: this.name,
+        success: response.statusCode >= 200 && response.statusCode < 300,
+        messageId: typeof messageId === "string" ? messageId : undefined
+      };
+    } catch (error) {
+      return { transport: this.name, success: false, error: toErrorMessage(error) };
+    }
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends email through an SMTP server
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined
+    });
+  }
+
+  async send(message: EmailMessage, from: string): Promise<EmailDeliveryResult> {
+    try {
+      const info = await this.transporter.sendMail({ ...message, from });
+      const success = info.rejected.length === 0;
+      return {
+        transport: this.name,
+        success,
+        messageId: info.messageId,
+        error: success ? undefined : `Rejected by the SMTP server: ${info.rejected.join(", ")}`
+      };
+    } catch (error) {
+      return { transport: this.name, success: false, error: toErrorMessage(error) };
+    }
+  }
+}
+
+/**
+ * Create the transport chosen by EMAIL_TRANSPORT (sendgrid, smtp or console).
+ * Without it, SendGrid is used when SENDGRID_API_KEY is set, then SMTP when SMTP_HOST is set,
+ * and otherwise emails are logged to the console.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const name = env.EMAIL_TRANSPORT || (env.SENDGRID_API_KEY ? "sendgrid" : env.SMTP_HOST ? "smtp" : "console");
+
+  switch (name) {
+    case "sendgrid":
+      if (!env.SENDGRID_API_KEY) {
+        throw new Error("EMAIL_TRANSPORT=sendgrid requires SENDGRID_API_KEY");
+      }
+      return new SendGridEmailTransport(env.SENDGRID_API_KEY);
+
+    case "smtp": {
+      if (!env.SMTP_HOST) {
+        throw new Error("EMAIL_TRANSPORT=smtp requires SMTP_HOST");
+      }
+      const port = Number(env.SMTP_PORT) || 587;
+      return new SmtpEmailTransport({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE !== undefined ? env.SMTP_SECURE === "true" : port === 465,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD
+      });
+    }
+
+    case "console":
+      return new ConsoleEmailTransport();
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}" (expected sendgrid, smtp or console)`);
+  }
+}
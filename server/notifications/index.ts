@@ -1,7 +1,7 @@
 import { Goal, Task } from '@shared/schema';
-import * as slackService from './slack';
-import * as emailService from './email';
-import * as whatsappService from './whatsapp';
+import { type NotificationEvent } from './templates';
+import { enqueueNotification, type NotificationTarget } from './outbox';
+import { getNotificationContact, type NotificationContact } from '../user-settings';
 
 /**
  * Notification channels enum
@@ -12,40 +12,52 @@ export enum NotificationChannel {
   WHATSAPP = 'whatsapp'
 }
 
+// Leave out WhatsApp for users who turned WhatsApp notifications off
+function allowedChannels(channels: NotificationChannel[], contact: NotificationContact): NotificationChannel[] {
+  return contact.whatsappEnabled ? channels : channels.filter(channel => channel !== NotificationChannel.WHATSAPP);
+}
+
 /**
- * Send goal creation notification to all enabled channels
+ * Work out where a goal's notification goes, with the contact details from its owner's settings.
+ * Without channels asked for, the goal's channels are used, and then the owner's default channels.
+ * WhatsApp is left out when the owner has turned WhatsApp notifications off.
  */
-export async function notifyGoalCreated(
-  goal: Goal, 
-  channels: NotificationChannel[] = [],
-  email?: string,
-  phoneNumber?: string
-): Promise<void> {
-  // If no channels specified, check goal's notification channels
-  if (channels.length === 0 && goal.notificationChannels) {
-    channels = goal.notificationChannels as NotificationChannel[];
-  }
-  
-  // Skip if no channels
-  if (!channels || channels.length === 0) return;
-  
-  // Send to each enabled channel
-  const promises: Promise<any>[] = [];
+async function resolveDelivery(goal: Goal, channels: NotificationChannel[]): Promise<NotificationTarget> {
+  const contact = await getNotificationContact(goal.userId);
   
-  if (channels.includes(NotificationChannel.SLACK)) {
-    promises.push(slackService.notifyGoalCreated(goal));
+  if (channels.length === 0 && goal.notificationChannels && goal.notificationChannels.length > 0) {
+    channels = goal.notificationChannels as NotificationChannel[];
   }
-  
-  if (channels.includes(NotificationChannel.EMAIL) && email) {
-    promises.push(emailService.emailGoalCreated(goal, email));
+  if (channels.length === 0) {
+    channels = contact.defaultChannels as NotificationChannel[];
   }
   
-  if (channels.includes(NotificationChannel.WHATSAPP) && phoneNumber) {
-    promises.push(whatsappService.notifyGoalCreatedWhatsApp(goal, phoneNumber));
-  }
+  return {
+    userId: goal.userId ?? null,
+    channels: allowedChannels(channels, contact),
+    email: contact.email,
+    phoneNumber: contact.phoneNumber
+  };
+}
+
+/**
+ * Queue a notification about an event on each of the channels it can reach; the outbox delivers it
+ */
+async function dispatch(event: NotificationEvent, target: NotificationTarget): Promise<void> {
+  // Skip if no channels
+  if (target.channels.length === 0) return;
   
-  // Wait for all notifications to complete
-  await Promise.allSettled(promises);
+  await enqueueNotification(event, target);
+}
+
+/**
+ * Send goal creation notification to all enabled channels
+ */
+export async function notifyGoalCreated(
+  goal: Goal, 
+  requestedChannels: NotificationChannel[] = []
+): Promise<void> {
+  await dispatch({ type: 'goalCreated', goal }, await resolveDelivery(goal, requestedChannels));
 }
 
 /**
@@ -54,35 +66,36 @@ export async function notifyGoalCreated(
 export async function notifyTaskCompleted(
   goal: Goal,
   task: Task,
-  channels: NotificationChannel[] = [],
-  email?: string,
-  phoneNumber?: string
+  requestedChannels: NotificationChannel[] = []
 ): Promise<void> {
-  // If no channels specified, check goal's notification channels
-  if (channels.length === 0 && goal.notificationChannels) {
-    channels = goal.notificationChannels as NotificationChannel[];
-  }
-  
-  // Skip if no channels
-  if (!channels || channels.length === 0) return;
-  
-  // Send to each enabled channel
-  const promises: Promise<any>[] = [];
-  
-  if (channels.includes(NotificationChannel.SLACK)) {
-    promises.push(slackService.notifyTaskCompleted(goal, task));
-  }
+  await dispatch({ type: 'taskCompleted', goal, task }, await resolveDelivery(goal, requestedChannels));
+}
+
+/**
+ * Notify the goal's channels of the work an update completed: each task that became complete
+ * (including a task completed by finishing its last subtask), and the goal itself when its
+ * progress reached 100%. Occurrences of recurring tasks are left out, so daily tasks don't notify every day.
+ * @param before The goal before the update
+ * @param after The goal after the update
+ */
+export async function notifyCompletions(
+  before: Goal,
+  after: Goal,
+  requestedChannels: NotificationChannel[] = []
+): Promise<void> {
+  const events: NotificationEvent[] = after.tasks
+    .filter(task => task.completed && before.tasks.some(t => t.id === task.id && !t.completed))
+    .map(task => ({ type: 'taskCompleted', goal: after, task }));
   
-  if (channels.includes(NotificationChannel.EMAIL) && email) {
-    promises.push(emailService.emailTaskCompleted(goal, task, email));
+  if (after.progress === 100 && before.progress !== 100) {
+    events.push({ type: 'goalCompleted', goal: after });
   }
+  if (events.length === 0) return;
   
-  if (channels.includes(NotificationChannel.WHATSAPP) && phoneNumber) {
-    promises.push(whatsappService.notifyTaskCompletedWhatsApp(goal, task, phoneNumber));
+  const target = await resolveDelivery(after, requestedChannels);
+  for (const event of events) {
+    await dispatch(event, target);
   }
-  
-  // Wait for all notifications to complete
-  await Promise.allSettled(promises);
 }
 
 /**
@@ -91,40 +104,12 @@ export async function notifyTaskCompleted(
 export async function notifyProgressUpdate(
   goal: Goal,
   progressUpdate: string,
-  channels: NotificationChannel[] = [],
-  email?: string,
-  phoneNumber?: string
+  requestedChannels: NotificationChannel[] = []
 ): Promise<void> {
-  // If no channels specified, check goal's notification channels
-  if (channels.length === 0 && goal.notificationChannels) {
-    channels = goal.notificationChannels as NotificationChannel[];
-  }
-  
-  // Skip if no channels
-  if (!channels || channels.length === 0) return;
-  
-  // Send to each enabled channel
-  const promises: Promise<any>[] = [];
-  
-  if (channels.includes(NotificationChannel.SLACK)) {
-    promises.push(slackService.notifyProgressUpdate(goal, progressUpdate));
-  }
-  
-  if (channels.includes(NotificationChannel.EMAIL) && email) {
-    // Email doesn't have a direct progress update method
-    // Could implement one in the future
-  }
-  
-  if (channels.includes(NotificationChannel.WHATSAPP) && phoneNumber) {
-    // Send directly as a WhatsApp message
-    promises.push(whatsappService.sendWhatsAppMessage(
-      phoneNumber, 
-      `📝 *Progress Update*\nGoal: "${goal.title}"\n\n${progressUpdate}`
-    ));
-  }
-  
-  // Wait for all notifications to complete
-  await Promise.allSettled(promises);
+  await dispatch(
+    { type: 'progressUpdate', goal, update: progressUpdate },
+    await resolveDelivery(goal, requestedChannels)
+  );
 }
 
 /**
@@ -133,33 +118,56 @@ export async function notifyProgressUpdate(
 export async function notifyRoadblock(
   goal: Goal,
   roadblockDescription: string,
-  channels: NotificationChannel[] = [],
-  email?: string,
-  phoneNumber?: string
+  requestedChannels: NotificationChannel[] = []
+): Promise<void> {
+  await dispatch(
+    { type: 'roadblock', goal, description: roadblockDescription },
+    await resolveDelivery(goal, requestedChannels)
+  );
+}
+
+/**
+ * Send task reminder notification to the given channels.
+ * WhatsApp goes to the task's own number, if it has one, rather than the owner's.
+ */
+export async function notifyTaskReminder(
+  goal: Goal,
+  task: Task,
+  channels: NotificationChannel[] = []
 ): Promise<void> {
-  // If no channels specified, check goal's notification channels
-  if (channels.length === 0 && goal.notificationChannels) {
-    channels = goal.notificationChannels as NotificationChannel[];
-  }
-  
   // Skip if no channels
   if (!channels || channels.length === 0) return;
   
-  // Send to each enabled channel
-  const promises: Promise<any>[] = [];
-  
-  if (channels.includes(NotificationChannel.SLACK)) {
-    promises.push(slackService.notifyRoadblock(goal, roadblockDescription));
-  }
-  
-  if (channels.includes(NotificationChannel.EMAIL) && email) {
-    promises.push(emailService.emailRoadblockReported(goal, roadblockDescription, email));
-  }
-  
-  if (channels.includes(NotificationChannel.WHATSAPP) && phoneNumber) {
-    promises.push(whatsappService.notifyRoadblockWhatsApp(goal, roadblockDescription, phoneNumber));
-  }
-  
-  // Wait for all notifications to complete
-  await Promise.allSettled(promises);
-}
\ No newline at end of file
+  const contact = await getNotificationContact(goal.userId);
+  await dispatch({ type: 'taskReminder', goal, task }, {
+    userId: goal.userId ?? null,
+    channels,
+    email: contact.email,
+    phoneNumber: task.whatsappNumber || contact.phoneNumber
+  });
+}
+
+/**
+ * Send a user a summary of their goals in progress, on the given channels or else their default channels
+ * (WhatsApp only when they've turned it on).
+ * Goals with nothing left to do are left out, and nothing is sent when no goal remains.
+ */
+export async function notifyDailyDigest(
+  userId: string,
+  goals: Goal[],
+  requestedChannels: NotificationChannel[] = []
+): Promise<void> {
+  const goalsInProgress = goals.filter(goal => goal.tasks.some(task => !task.completed));
+  if (goalsInProgress.length === 0) return;
+  
+  const contact = await getNotificationContact(userId);
+  await dispatch({ type: 'dailyDigest', goals: goalsInProgress }, {
+    userId,
+    channels: allowedChannels(
+      requestedChannels.length > 0 ? requestedChannels : contact.defaultChannels as NotificationChannel[],
+      contact
+    ),
+    email: contact.email,
+    phoneNumber: contact.phoneNumber
+  });
+}
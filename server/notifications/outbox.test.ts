@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { type InsertOutboxNotification } from "@shared/schema";
+import { storage } from "../storage";
+import { sendEmail } from "./email";
+import { runOutboxDelivery, getRetryDelayMs, MAX_DELIVERY_ATTEMPTS } from "./outbox";
+
+vi.mock("./email", () => ({ sendEmail: vi.fn() }));
+
+const SECOND_MS = 1000;
+
+function emailNotification(userId: string): InsertOutboxNotification {
+  return {
+    userId,
+    goalId: null,
+    eventType: "goalCreated",
+    summary: "🎯 New Goal Created: Learn Spanish",
+    channel: "email",
+    recipient: "learner@example.com",
+    payload: { subject: "TaskBreaker: Goal Created - Learn Spanish", text: "Learn Spanish", html: "<p>Learn Spanish</p>" }
+  };
+}
+
+describe("outbox delivery", () => {
+  // Queued notifications are due from when they're created, so runs happen just after that
+  let start: Date;
+
+  beforeEach(() => {
+    vi.mocked(sendEmail).mockReset();
+    start = new Date(Date.now() + SECOND_MS);
+  });
+
+  it("retries with growing delays, then marks the notification failed", async () => {
+    vi.mocked(sendEmail).mockResolvedValue({ transport: "test", success: false, error: "Mailbox unavailable" });
+    const [queued] = await storage.createOutboxNotifications([emailNotification("retry-user")]);
+
+    let now = start;
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      // Not retried before its next attempt is due
+      if (attempt > 1) {
+        expect(await runOutboxDelivery(new Date(now.getTime() - SECOND_MS))).toBe(0);
+      }
+      expect(await runOutboxDelivery(now)).toBe(0);
+
+      const [notification] = await storage.getOutboxNotifications("retry-user", { limit: 50 });
+      expect(notification).toMatchObject({ id: queued.id, attempts: attempt, lastError: "Mailbox unavailable" });
+      if (attempt < MAX_DELIVERY_ATTEMPTS) {
+        expect(notification.status).toBe("pending");
+        delays.push(notification.nextAttemptAt.getTime() - now.getTime());
+        now = notification.nextAttemptAt;
+      } else {
+        expect(notification.status).toBe("failed");
+      }
+    }
+
+    expect(delays).toEqual([30, 60, 120, 240].map(seconds => seconds * SECOND_MS));
+    expect(sendEmail).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS);
+
+    // A failed notification isn't tried again
+    expect(await runOutboxDelivery(new Date(now.getTime() + 24 * 60 * 60 * SECOND_MS))).toBe(0);
+    expect(sendEmail).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS);
+  });
+
+  it("caps the retry delay at an hour", () => {
+    expect(getRetryDelayMs(1)).toBe(30 * SECOND_MS);
+    expect(getRetryDelayMs(20)).toBe(60 * 60 * SECOND_MS);
+  });
+
+  it("delivers a notification once when runs overlap", async () => {
+    vi.mocked(sendEmail).mockResolvedValue({ transport: "test", success: true });
+    await storage.createOutboxNotifications([emailNotification("overlap-user")]);
+
+    const sentCounts = await Promise.all([runOutboxDelivery(start), runOutboxDelivery(start)]);
+
+    expect(sentCounts.reduce((sum, count) => sum + count, 0)).toBe(1);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    const [notification] = await storage.getOutboxNotifications("overlap-user", { limit: 50 });
+    expect(notification).toMatchObject({ status: "sent", attempts: 1 });
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  notificationChannels, notificationStatuses,
+  type InsertOutboxNotification, type OutboxNotification, type NotificationChannelName,
+  type NotificationDeliveryLog, type NotificationDeliveryCounts, type NotificationLogQuery
+} from "@shared/schema";
+import { storage } from "../storage";
+import { postSlackMessage, isSlackEnabled } from "./slack";
+import { sendEmail } from "./email";
+import { sendWhatsAppMessage } from "./whatsapp";
+import {
+  type NotificationEvent, renderSlackMessage, renderEmail, renderWhatsAppMessage, summarizeEvent
+} from "./templates";
+
+// A notification is given up on after this many failed attempts
+export const MAX_DELIVERY_ATTEMPTS = 5;
+// Wait before the first retry; each retry after that waits twice as long, up to the maximum
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_WORKER_INTERVAL_MS = 15 * 1000;
+// Notifications delivered per run; the rest wait for the next run
+const DELIVERY_BATCH_SIZE = 50;
+// A claimed notification is retried after this long if its delivery never finished (e.g. the process died)
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Who a notification is for and where it goes
+ */
+export interface NotificationTarget {
+  userId: string | null;
+  channels: NotificationChannelName[];
+  email?: string;
+  phoneNumber?: string;
+}
+
+/**
+ * How long to wait before the next attempt after the given number of failed attempts
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Render an event for each channel it can reach. Slack is skipped when it isn't configured,
+ * and email and WhatsApp when there's no address or number to send to.
+ */
+function toOutboxNotifications(event: NotificationEvent, target: NotificationTarget): InsertOutboxNotification[] {
+  const notification = {
+    userId: target.userId,
+    goalId: "goal" in event ? event.goal.id : null,
+    eventType: event.type,
+    summary: summarizeEvent(event)
+  };
+  const notifications: InsertOutboxNotification[] = [];
+
+  if (target.channels.includes("slack") && isSlackEnabled()) {
+    notifications.push({ ...notification, channel: "slack", recipient: null, payload: renderSlackMessage(event) });
+  }
+
+  if (target.channels.includes("email") && target.email) {
+    notifications.push({ ...notification, channel: "email", recipient: target.email, payload: renderEmail(event) });
+  }
+
+  if (target.channels.includes("whatsapp") && target.phoneNumber) {
+    notifications.push({
+      ...notification,
+      channel: "whatsapp",
+      recipient: target.phoneNumber,
+      payload: { text: renderWhatsAppMessage(event) }
+    });
+  }
+
+  return notifications;
+}
+
+/**
+ * Queue a notification about an event on each of the target's channels, then start delivering it.
+ * Queued notifications survive failures and restarts: the worker retries them until they're delivered.
+ */
+export async function enqueueNotification(event: NotificationEvent, target: NotificationTarget): Promise<OutboxNotification[]> {
+  const notifications = toOutboxNotifications(event, target);
+  if (notifications.length === 0) return [];
+
+  const queued = await storage.createOutboxNotifications(notifications);
+
+  // Deliver right away rather than waiting for the worker's next run
+  deliverPendingNotifications()
+    .catch(err => console.error("Error delivering notifications:", err));
+
+  return queued;
+}
+
+/**
+ * Send a notification on its channel. Throws if it wasn't delivered.
+ */
+async function deliver(notification: OutboxNotification): Promise<void> {
+  const { channel, recipient, payload } = notification;
+
+  switch (channel) {
+    case "slack":
+      await postSlackMessage(payload);
+      return;
+
+    case "email": {
+      const result = await sendEmail(recipient!, {
+        subject: payload.subject ?? notification.summary,
+        text: payload.text,
+        html: payload.html ?? ""
+      });
+      if (!result.success) {
+        throw new Error(result.error ?? `Email was not accepted by ${result.transport}`);
+      }
+      return;
+    }
+
+    case "whatsapp":
+      if (!await sendWhatsAppMessage(recipient!, payload.text)) {
+        throw new Error("WhatsApp message was not accepted by the provider");
+      }
+      return;
+  }
+}
+
+/**
+ * Claim each notification that's due and attempt it, recording the outcome. Claiming keeps other runs
+ * and processes from sending it too. A failed notification is retried with exponential backoff,
+ * and marked failed after MAX_DELIVERY_ATTEMPTS attempts.
+ * @returns The number of notifications delivered
+ */
+export async function runOutboxDelivery(now: Date = new Date()): Promise<number> {
+  const dueNotifications = await storage.claimDueOutboxNotifications(
+    now,
+    DELIVERY_BATCH_SIZE,
+    new Date(now.getTime() + CLAIM_TIMEOUT_MS)
+  );
+  let sentCount = 0;
+
+  for (const notification of dueNotifications) {
+    const attempts = notification.attempts + 1;
+
+    try {
+      await deliver(notification);
+      await storage.updateOutboxNotification(notification.id, {
+        status: "sent",
+        attempts,
+        lastError: null,
+        sentAt: new Date()
+      });
+      sentCount++;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const givenUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+      console.error(
+        `Failed to deliver ${notification.channel} notification ${notification.id} (attempt ${attempts}):`,
+        lastError
+      );
+
+      await storage.updateOutboxNotification(notification.id, {
+        status: givenUp ? "failed" : "pending",
+        attempts,
+        lastError,
+        nextAttemptAt: givenUp ? now : new Date(now.getTime() + getRetryDelayMs(attempts))
+      });
+    }
+  }
+
+  return sentCount;
+}
+
+let deliveryInProgress = false;
+let deliveryRequested = false;
+
+/**
+ * Deliver due notifications, one run at a time. A request during a run starts another run after it,
+ * so notifications queued meanwhile aren't left for the worker.
+ */
+async function deliverPendingNotifications(): Promise<void> {
+  if (deliveryInProgress) {
+    deliveryRequested = true;
+    return;
+  }
+  deliveryInProgress = true;
+
+  try {
+    do {
+      deliveryRequested = false;
+      await runOutboxDelivery();
+    } while (deliveryRequested);
+  } finally {
+    deliveryInProgress = false;
+  }
+}
+
+/**
+ * Start the background worker that retries notifications
+ * @returns A function that stops the worker
+ */
+export function startOutboxWorker(
+  intervalMs: number = Number(process.env.NOTIFICATION_WORKER_INTERVAL_MS) || DEFAULT_WORKER_INTERVAL_MS
+): () => void {
+  const run = () => {
+    deliverPendingNotifications()
+      .catch(error => console.error('Error delivering notifications:', error));
+  };
+
+  const timer = setInterval(run, intervalMs);
+  // Don't keep the process alive just for notifications
+  timer.unref();
+  run();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * A user's notifications, newest first, with how many are pending, sent and failed on each channel
+ */
+export async function getDeliveryLog(userId: string, query: NotificationLogQuery): Promise<NotificationDeliveryLog> {
+  const [notifications, statusCounts] = await Promise.all([
+    storage.getOutboxNotifications(userId, query),
+    storage.countOutboxNotifications(userId)
+  ]);
+
+  const counts = Object.fromEntries(notificationChannels.map(channel => [
+    channel,
+    Object.fromEntries(notificationStatuses.map(status => [status, 0]))
+  ])) as NotificationDeliveryCounts;
+  for (const { channel, status, count } of statusCounts) {
+    counts[channel][status] = count;
+  }
+
+  return {
+    counts,
+    entries: notifications.map(({ payload, ...entry }) => entry)
+  };
+}
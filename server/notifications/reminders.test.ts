@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { storage } from "../storage";
+import { type Task } from "@shared/schema";
+import { runDailyDigestSweep, getReminderOccurrence } from "./reminders";
+
+describe("one-off reminders", () => {
+  const task: Task = {
+    id: "task-1",
+    title: "Call the dentist",
+    completed: false,
+    subtasks: [],
+    addedToCalendar: false,
+    reminderEnabled: true,
+    reminderTime: "10:00",
+    dueDate: new Date(2026, 0, 5).toISOString(),
+    enableWhatsapp: false
+  };
+
+  it("get a new occurrence when the task is rescheduled", () => {
+    const first = getReminderOccurrence(task, new Date(2026, 0, 5, 10, 5));
+    const rescheduled = getReminderOccurrence(
+      { ...task, dueDate: new Date(2026, 0, 7).toISOString() },
+      new Date(2026, 0, 7, 10, 5)
+    );
+
+    expect(first?.occurrenceKey).toBe(new Date(2026, 0, 5, 10, 0).toISOString());
+    expect(rescheduled?.occurrenceKey).toBe(new Date(2026, 0, 7, 10, 0).toISOString());
+  });
+});
+
+describe("daily digest", () => {
+  let userId: string;
+
+  beforeAll(async () => {
+    const user = await storage.createUser({ username: "digest", email: "digest@example.com" });
+    userId = String(user.id);
+    await storage.saveUserSettings(user.id, {
+      defaultNotificationChannels: ["email"],
+      reminderFrequency: "daily",
+      reminderTime: "09:00"
+    });
+    await storage.createGoal({
+      title: "Run a marathon",
+      userId,
+      createdAt: new Date().toISOString(),
+      tasks: [{
+        id: "task-1",
+        title: "Buy running shoes",
+        completed: false,
+        subtasks: [],
+        addedToCalendar: false,
+        reminderEnabled: false,
+        enableWhatsapp: false
+      }]
+    });
+  });
+
+  async function digestCount(): Promise<number> {
+    const notifications = await storage.getOutboxNotifications(userId, { limit: 50 });
+    return notifications.filter(notification => notification.eventType === "dailyDigest").length;
+  }
+
+  it("waits for the user's reminder time", async () => {
+    expect(await runDailyDigestSweep(new Date(2026, 0, 5, 8, 59))).toBe(0);
+    expect(await digestCount()).toBe(0);
+  });
+
+  it("sends the digest once per day", async () => {
+    expect(await runDailyDigestSweep(new Date(2026, 0, 5, 9, 0))).toBe(1);
+    expect(await runDailyDigestSweep(new Date(2026, 0, 5, 18, 0))).toBe(0);
+    expect(await digestCount()).toBe(1);
+
+    expect(await runDailyDigestSweep(new Date(2026, 0, 6, 9, 30))).toBe(1);
+    expect(await digestCount()).toBe(2);
+  });
+});
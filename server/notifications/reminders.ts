@@ -0,0 +1,289 @@
+import { Goal, Task, UserSettings } from '@shared/schema';
+import { storage } from '../storage';
+import { notifyTaskReminder, notifyDailyDigest, NotificationChannel } from './index';
+
+// How often the scheduler scans goals for due reminders
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// How late a one-off reminder may still be delivered (e.g. after a restart)
+const ONE_OFF_GRACE_MS = 12 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * A reminder occurrence that is due to be sent
+ */
+export interface DueReminder {
+  goal: Goal;
+  task: Task;
+  occurrenceKey: string; // The scheduled time (ISO) for one-off reminders, otherwise the local date (YYYY-MM-DD)
+  scheduledFor: Date;
+}
+
+// A user's defaults for task reminders that don't set their own, from their settings
+export type ReminderDefaults = Partial<Pick<UserSettings, 'reminderFrequency' | 'reminderTime' | 'reminderDays'>>;
+
+/**
+ * Parse a reminder time, which is either a time of day ("09:30") or a full ISO timestamp
+ */
+function parseReminderTime(reminderTime: string): { hours: number; minutes: number; date?: Date } | null {
+  const timeOfDay = reminderTime.match(/^(\d{1,2}):(\d{2})/);
+  if (timeOfDay) {
+    const hours = parseInt(timeOfDay[1]);
+    const minutes = parseInt(timeOfDay[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return { hours, minutes };
+  }
+
+  const date = new Date(reminderTime);
+  if (isNaN(date.getTime())) return null;
+  return { hours: date.getHours(), minutes: date.getMinutes(), date };
+}
+
+function atTimeOfDay(day: Date, hours: number, minutes: number): Date {
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Convert a day name ("monday", "Mon") into a JS weekday index (0 = Sunday)
+ */
+function toWeekdayIndex(day: string): number | undefined {
+  const normalized = day.trim().toLowerCase();
+  if (normalized.length < 3) return undefined;
+  const index = WEEKDAYS.findIndex(weekday => weekday.startsWith(normalized));
+  return index === -1 ? undefined : index;
+}
+
+/**
+ * Work out which reminder occurrence of a task (if any) is due at the given time
+ * @param defaults The owner's reminder settings, for what the task doesn't set
+ */
+export function getReminderOccurrence(
+  task: Task,
+  now: Date = new Date(),
+  defaults: ReminderDefaults = {}
+): { occurrenceKey: string; scheduledFor: Date } | null {
+  const reminderTime = task.reminderTime || defaults.reminderTime;
+  if (!task.reminderEnabled || task.completed || !reminderTime) return null;
+
+  const time = parseReminderTime(reminderTime);
+  if (!time) return null;
+
+  const frequency = task.reminderFrequency || defaults.reminderFrequency || 'task-only';
+
+  if (frequency === 'task-only') {
+    // One-off reminder: an explicit timestamp, the reminder time on the due date,
+    // or - when there's no due date - the reminder time on the current day
+    let scheduledFor = time.date;
+    if (!scheduledFor) {
+      const dueDate = task.dueDate ? new Date(task.dueDate) : undefined;
+      const day = dueDate && !isNaN(dueDate.getTime()) ? dueDate : now;
+      scheduledFor = atTimeOfDay(day, time.hours, time.minutes);
+    }
+
+    const lateness = now.getTime() - scheduledFor.getTime();
+    if (lateness < 0 || lateness > ONE_OFF_GRACE_MS) return null;
+    // Keyed by time, so a reminder moved to another time is sent again
+    return { occurrenceKey: scheduledFor.toISOString(), scheduledFor };
+  }
+
+  const scheduledFor = atTimeOfDay(now, time.hours, time.minutes);
+  if (now < scheduledFor) return null;
+
+  if (frequency === 'weekly') {
+    const days = task.reminderDays && task.reminderDays.length > 0 ? task.reminderDays : defaults.reminderDays;
+    let reminderDays = (days || [])
+      .map(toWeekdayIndex)
+      .filter((day): day is number => day !== undefined);
+
+    // Without explicit days, repeat on the weekday of the reminder or due date
+    if (reminderDays.length === 0) {
+      const anchor = time.date || (task.dueDate ? new Date(task.dueDate) : undefined);
+      if (!anchor || isNaN(anchor.getTime())) return null;
+      reminderDays = [anchor.getDay()];
+    }
+
+    if (!reminderDays.includes(now.getDay())) return null;
+  }
+
+  return { occurrenceKey: toDateKey(now), scheduledFor };
+}
+
+/**
+ * Collect every reminder that is due across the given goals
+ * @param settingsByUserId The goal owners' settings, for their reminder defaults
+ */
+export function getDueReminders(
+  goals: Goal[],
+  now: Date = new Date(),
+  settingsByUserId: Map<string, UserSettings | undefined> = new Map()
+): DueReminder[] {
+  const dueReminders: DueReminder[] = [];
+
+  for (const goal of goals) {
+    const settings = settingsByUserId.get(goal.userId || 'anonymous');
+    for (const task of goal.tasks) {
+      const occurrence = getReminderOccurrence(task, now, settings);
+      if (occurrence) {
+        dueReminders.push({ goal, task, ...occurrence });
+      }
+    }
+  }
+
+  return dueReminders;
+}
+
+/**
+ * Channels a task reminder should go out on
+ * @param settings The goal owner's settings
+ */
+function getReminderChannels(goal: Goal, task: Task, settings?: UserSettings): NotificationChannel[] {
+  const goalChannels = (goal.notificationChannels || []) as NotificationChannel[];
+  const defaultChannels = (settings?.defaultNotificationChannels || []) as NotificationChannel[];
+
+  // WhatsApp reminders are opted into per task, or for every task in the owner's settings
+  const channels: NotificationChannel[] = (goalChannels.length > 0 ? goalChannels : defaultChannels)
+    .filter(channel => channel !== NotificationChannel.WHATSAPP);
+
+  const whatsappNumber = task.whatsappNumber || settings?.whatsappNumber || settings?.contactPhone;
+  if ((task.enableWhatsapp || settings?.enableWhatsappNotifications) && whatsappNumber) {
+    channels.push(NotificationChannel.WHATSAPP);
+  }
+
+  return channels;
+}
+
+/**
+ * Load the settings of each goal's owner
+ */
+async function getOwnerSettings(goals: Goal[]): Promise<Map<string, UserSettings | undefined>> {
+  const settingsByUserId = new Map<string, UserSettings | undefined>();
+
+  for (const goal of goals) {
+    const userId = goal.userId || 'anonymous';
+    if (settingsByUserId.has(userId)) continue;
+
+    const numericId = Number(userId);
+    settingsByUserId.set(userId, Number.isInteger(numericId) ? await storage.getUserSettings(numericId) : undefined);
+  }
+
+  return settingsByUserId;
+}
+
+/**
+ * Send every due reminder that hasn't been sent yet
+ * @returns The number of reminders dispatched
+ */
+export async function runReminderSweep(now: Date = new Date()): Promise<number> {
+  const goals = await storage.getGoals();
+  const settingsByUserId = await getOwnerSettings(goals);
+  const dueReminders = getDueReminders(goals, now, settingsByUserId);
+  let sentCount = 0;
+
+  for (const { goal, task, occurrenceKey } of dueReminders) {
+    const channels = getReminderChannels(goal, task, settingsByUserId.get(goal.userId || 'anonymous'));
+    if (channels.length === 0) continue;
+
+    // Claim the occurrence before sending so a restart never sends it twice
+    const claimed = await storage.claimReminderDelivery({
+      goalId: goal.id,
+      taskId: task.id,
+      occurrenceKey,
+      channels
+    });
+    if (!claimed) continue;
+
+    // Contact details come from the owner's settings
+    await notifyTaskReminder(goal, task, channels);
+    sentCount++;
+  }
+
+  return sentCount;
+}
+
+/**
+ * When a user's daily digest is due today: at their reminder time, for users whose settings ask for daily reminders
+ * @returns The time it's due, or null when they don't get a digest or it isn't due yet
+ */
+export function getDigestTime(settings: UserSettings | undefined, now: Date = new Date()): Date | null {
+  if (settings?.reminderFrequency !== 'daily' || !settings.reminderTime) return null;
+
+  const time = parseReminderTime(settings.reminderTime);
+  if (!time) return null;
+
+  const scheduledFor = atTimeOfDay(now, time.hours, time.minutes);
+  return now >= scheduledFor ? scheduledFor : null;
+}
+
+/**
+ * Send each due daily digest that hasn't been sent yet, once per user per day
+ * @returns The number of digests dispatched
+ */
+export async function runDailyDigestSweep(now: Date = new Date()): Promise<number> {
+  const goals = await storage.getGoals();
+  const settingsByUserId = await getOwnerSettings(goals);
+  let sentCount = 0;
+
+  for (const [userId, settings] of Array.from(settingsByUserId)) {
+    if (!getDigestTime(settings, now)) continue;
+
+    const userGoals = goals.filter(goal => goal.userId === userId);
+    if (!userGoals.some(goal => goal.tasks.some(task => !task.completed))) continue;
+
+    // Claim the day before sending so a restart never sends it twice
+    const claimed = await storage.claimDigestDelivery(userId, toDateKey(now));
+    if (!claimed) continue;
+
+    await notifyDailyDigest(userId, userGoals);
+    sentCount++;
+  }
+
+  return sentCount;
+}
+
+/**
+ * Start the background reminder scheduler
+ * @returns A function that stops the scheduler
+ */
+export function startReminderScheduler(
+  intervalMs: number = Number(process.env.REMINDER_SWEEP_INTERVAL_MS) || DEFAULT_SWEEP_INTERVAL_MS
+): () => void {
+  let sweepInProgress = false;
+
+  const sweep = async () => {
+    // Skip this tick if the previous sweep is still running
+    if (sweepInProgress) return;
+    sweepInProgress = true;
+
+    try {
+      const sentCount = await runReminderSweep();
+      if (sentCount > 0) {
+        console.log(`Sent ${sentCount} task reminder(s)`);
+      }
+
+      const digestCount = await runDailyDigestSweep();
+      if (digestCount > 0) {
+        console.log(`Sent ${digestCount} daily digest(s)`);
+      }
+    } catch (error) {
+      console.error('Error running reminder sweep:', error);
+    } finally {
+      sweepInProgress = false;
+    }
+  };
+
+  const timer = setInterval(sweep, intervalMs);
+  // Don't keep the process alive just for reminders
+  timer.unref();
+  sweep();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,85 @@
+import { Goal } from "@shared/schema";
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeHtml, escapeSlack, getProgress, htmlList, nextTasks } from "./format";
+
+// Goals listed in full in chat messages; the rest are counted
+const MAX_CHAT_GOALS = 3;
+
+function remainingTaskCount(goal: Goal): number {
+  return goal.tasks.filter(t => !t.completed).length;
+}
+
+export const dailyDigestTemplates: EventTemplates<EventOfType<"dailyDigest">> = {
+  summary: ({ goals }) => `⏰ Daily TaskBreaker Reminder: ${goals.length} goals in progress`,
+
+  slack: ({ goals }) => ({
+    text: `⏰ Daily TaskBreaker Reminder: ${goals.length} goals in progress`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: "⏰ Daily TaskBreaker Reminder", emoji: true }
+      },
+      ...goals.slice(0, MAX_CHAT_GOALS).map(goal => ({
+        type: "section" as const,
+        text: {
+          type: "mrkdwn" as const,
+          text: `*${escapeSlack(goal.title)}* (${getProgress(goal).percentage}% complete)\n${nextTasks(goal).map(task => `• ${escapeSlack(task.title)}`).join('\n')}`
+        }
+      })),
+      ...(goals.length > MAX_CHAT_GOALS
+        ? [{
+            type: "context" as const,
+            elements: [{ type: "mrkdwn" as const, text: `... and ${goals.length - MAX_CHAT_GOALS} more goals` }]
+          }]
+        : [])
+    ]
+  }),
+
+  email: ({ goals }) => {
+    const summaries = goals.map(goal => ({
+      title: `${goal.title} (${getProgress(goal).percentage}% complete)`,
+      nextTasks: nextTasks(goal).map(task => task.title)
+    }));
+
+    const text = `
+Daily TaskBreaker Reminder
+
+Here's your daily summary of goals in progress:
+${summaries.map(summary => `
+- ${summary.title}
+  Next tasks:
+${summary.nextTasks.map(task => `  * ${task}`).join('\n')}`).join('\n')}
+
+Log in to TaskBreaker to continue making progress!
+`;
+
+    const html = emailLayout("Daily TaskBreaker Reminder", `
+    <p>Here's your daily summary of goals in progress:</p>
+    ${summaries.map(summary => `
+    <h2 style="font-size:16px;margin-bottom:4px;">${escapeHtml(summary.title)}</h2>
+    ${summary.nextTasks.length > 0 ? `<p style="margin:0;">Next tasks:</p>${htmlList(summary.nextTasks)}` : ''}`).join('')}
+    <p>Log in to TaskBreaker to continue making progress!</p>`);
+
+    return { subject: 'TaskBreaker: Your Daily Goal Summary', text, html };
+  },
+
+  whatsapp: ({ goals }) => {
+    const goalsList = goals
+      .slice(0, MAX_CHAT_GOALS)
+      .map(goal => `• *${goal.title}* - ${remainingTaskCount(goal)} tasks remaining`)
+      .join('\n');
+    const remainingGoalsCount = goals.length - MAX_CHAT_GOALS;
+    const remainingGoalsText = remainingGoalsCount > 0
+      ? `\n... and ${remainingGoalsCount} more goals`
+      : '';
+
+    return `
+⏰ *Daily TaskBreaker Reminder*
+
+You have incomplete tasks in these goals:
+${goalsList}${remainingGoalsText}
+
+Stay focused and keep making progress!
+`;
+  }
+};
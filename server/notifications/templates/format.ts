@@ -0,0 +1,64 @@
+import { Goal, Task } from "@shared/schema";
+
+// Where a goal can be opened in the app
+export const goalUrl = (goalId: number) => `taskbreaker-app.example.com/goals/${goalId}`;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Slack reads &, < and > in message text as markup (links, mentions)
+export function escapeSlack(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * How many of a goal's tasks are done
+ */
+export function getProgress(goal: Goal): { completed: number; total: number; percentage: number } {
+  const total = goal.tasks.length;
+  const completed = goal.tasks.filter(t => t.completed).length;
+  return { completed, total, percentage: total > 0 ? Math.round((completed / total) * 100) : 0 };
+}
+
+export function formatDueDate(task: Task): string | null {
+  return task.dueDate ? new Date(task.dueDate).toLocaleDateString() : null;
+}
+
+// The first few incomplete tasks of a goal
+export function nextTasks(goal: Goal, count = 3): Task[] {
+  return goal.tasks.filter(task => !task.completed).slice(0, count);
+}
+
+/**
+ * Wrap the body of an HTML email in the shared layout
+ */
+export function emailLayout(heading: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    <h1 style="margin:0 0 16px;font-size:20px;color:#111827;">${escapeHtml(heading)}</h1>
+    ${body}
+    <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">You're receiving this because notifications are turned on in your TaskBreaker settings.</p>
+  </div>
+</body>
+</html>`;
+}
+
+export function htmlList(items: string[]): string {
+  return `<ul style="padding-left:20px;">${items.map(item => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+}
+
+// A block of text the user wrote, e.g. a progress update, keeping its line breaks
+export function htmlQuote(text: string, color: string): string {
+  return `<blockquote style="margin:0;padding:8px 16px;border-left:4px solid ${color};background:#f9fafb;white-space:pre-wrap;">${escapeHtml(text)}</blockquote>`;
+}
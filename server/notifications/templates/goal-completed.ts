@@ -0,0 +1,43 @@
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeHtml, escapeSlack } from "./format";
+
+export const goalCompletedTemplates: EventTemplates<EventOfType<"goalCompleted">> = {
+  summary: ({ goal }) => `🏆 Goal Completed: ${goal.title}`,
+
+  slack: ({ goal }) => ({
+    text: `🏆 Goal Completed: ${escapeSlack(goal.title)}`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: "🏆 Goal Completed", emoji: true }
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*${escapeSlack(goal.title)}*\nAll ${goal.tasks.length} tasks are done.` }
+      }
+    ]
+  }),
+
+  email: ({ goal }) => {
+    const text = `
+Goal Completed: ${goal.title}
+
+Congratulations! You've finished all ${goal.tasks.length} tasks of your goal.
+
+Take a moment to celebrate, then log in to TaskBreaker to set your next goal.
+`;
+
+    const html = emailLayout(`Goal Completed: ${goal.title}`, `
+    <p>Congratulations! You've finished all <strong>${goal.tasks.length} tasks</strong> of <strong>${escapeHtml(goal.title)}</strong>.</p>
+    <p>Take a moment to celebrate, then log in to TaskBreaker to set your next goal.</p>`);
+
+    return { subject: `TaskBreaker: Goal Completed - ${goal.title}`, text, html };
+  },
+
+  whatsapp: ({ goal }) => `
+🏆 *Goal Completed*
+*${goal.title}*
+
+All ${goal.tasks.length} tasks are done. Congratulations! 🎉
+`
+};
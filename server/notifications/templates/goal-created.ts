@@ -0,0 +1,110 @@
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeHtml, escapeSlack, goalUrl, htmlList } from "./format";
+
+export const goalCreatedTemplates: EventTemplates<EventOfType<"goalCreated">> = {
+  summary: ({ goal }) => `🎯 New Goal Created: ${goal.title}`,
+
+  slack: ({ goal }) => {
+    const taskList = goal.tasks.map(task =>
+      `• ${escapeSlack(task.title)} (${task.estimatedMinutes || 0} mins, ${task.complexity || 'medium'} complexity)`
+    ).join('\n');
+
+    return {
+      text: `🎯 New Goal Created: ${escapeSlack(goal.title)}`,
+      blocks: [
+        {
+          type: "header",
+          text: { type: "plain_text", text: "🎯 New Goal Created", emoji: true }
+        },
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `*${escapeSlack(goal.title)}*\n${escapeSlack(goal.additionalInfo || '')}` }
+        },
+        {
+          type: "section",
+          fields: [
+            { type: "mrkdwn", text: `*Estimated Time:*\n${goal.totalEstimatedMinutes || 0} minutes` },
+            {
+              type: "mrkdwn",
+              text: `*Time Constraint:*\n${goal.timeConstraintMinutes ? `${goal.timeConstraintMinutes} minutes` : 'None'}`
+            }
+          ]
+        },
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `*Tasks Overview:*\n${taskList}` }
+        },
+        {
+          type: "actions",
+          elements: [
+            {
+              type: "button",
+              text: { type: "plain_text", text: "Update Progress", emoji: true },
+              value: `update_progress_${goal.id}`,
+              action_id: "update_progress"
+            },
+            {
+              type: "button",
+              text: { type: "plain_text", text: "Report Roadblock", emoji: true },
+              value: `report_roadblock_${goal.id}`,
+              action_id: "report_roadblock"
+            }
+          ]
+        }
+      ]
+    };
+  },
+
+  email: ({ goal }) => {
+    const tasks = goal.tasks.map(task =>
+      `${task.title} (${task.estimatedMinutes || 0} mins, ${task.complexity || 'medium'} complexity)`
+    );
+
+    const text = `
+New Goal Created: ${goal.title}
+You've taken the first step toward achieving your goal with TaskBreaker!
+
+Your Goal Plan:
+${tasks.map(task => `- ${task}`).join('\n')}
+
+Total estimated time: ${goal.totalEstimatedMinutes || 0} minutes
+
+Log in to your TaskBreaker account to start making progress on your goal.
+`;
+
+    const html = emailLayout(`New Goal Created: ${goal.title}`, `
+    <p>You've taken the first step toward achieving your goal with TaskBreaker!</p>
+    ${goal.additionalInfo ? `<p>${escapeHtml(goal.additionalInfo)}</p>` : ''}
+    <h2 style="font-size:16px;">Your Goal Plan</h2>
+    ${htmlList(tasks)}
+    <p>Total estimated time: <strong>${goal.totalEstimatedMinutes || 0} minutes</strong></p>
+    <p>Log in to your TaskBreaker account to start making progress on your goal.</p>`);
+
+    return { subject: `TaskBreaker: Goal Created - ${goal.title}`, text, html };
+  },
+
+  whatsapp: ({ goal }) => {
+    const tasksSummary = goal.tasks
+      .slice(0, 3)
+      .map(task => `• ${task.title} (${task.estimatedMinutes || 0} mins)`)
+      .join("\n");
+    const remainingTasksCount = goal.tasks.length - 3;
+    const remainingTasksText = remainingTasksCount > 0
+      ? `\n... and ${remainingTasksCount} more tasks`
+      : '';
+
+    return `
+📋 *New Goal Created*
+*${goal.title}*
+
+${goal.additionalInfo ? goal.additionalInfo + "\n" : ""}
+⏱️ Total Time: ${goal.totalEstimatedMinutes || 0} minutes
+${goal.timeConstraintMinutes ? `⏳ Time Constraint: ${goal.timeConstraintMinutes} minutes\n` : ''}
+
+*Key Tasks:*
+${tasksSummary}${remainingTasksText}
+
+Track your progress at: ${goalUrl(goal.id)}
+`;
+  }
+};
@@ -0,0 +1,57 @@
+import {
+  type NotificationEvent, type NotificationEventType, type EventOfType, type EventTemplates,
+  type SlackMessage, type EmailContent
+} from "./types";
+import { goalCreatedTemplates } from "./goal-created";
+import { taskCompletedTemplates } from "./task-completed";
+import { goalCompletedTemplates } from "./goal-completed";
+import { progressUpdateTemplates } from "./progress-update";
+import { roadblockTemplates } from "./roadblock";
+import { taskReminderTemplates } from "./task-reminder";
+import { dailyDigestTemplates } from "./daily-digest";
+
+export type { NotificationEvent, NotificationEventType, SlackMessage, EmailContent } from "./types";
+
+// Every event type has a template for every channel
+const templates: { [T in NotificationEventType]: EventTemplates<EventOfType<T>> } = {
+  goalCreated: goalCreatedTemplates,
+  taskCompleted: taskCompletedTemplates,
+  goalCompleted: goalCompletedTemplates,
+  progressUpdate: progressUpdateTemplates,
+  roadblock: roadblockTemplates,
+  taskReminder: taskReminderTemplates,
+  dailyDigest: dailyDigestTemplates
+};
+
+// The templates for an event, typed for any event (the map above ties each type to its event)
+function templatesFor(event: NotificationEvent): EventTemplates<NotificationEvent> {
+  return templates[event.type] as EventTemplates<NotificationEvent>;
+}
+
+/**
+ * Render an event as a Slack message with blocks
+ */
+export function renderSlackMessage(event: NotificationEvent): SlackMessage {
+  return templatesFor(event).slack(event);
+}
+
+/**
+ * Render an event as an email with HTML and plain-text bodies
+ */
+export function renderEmail(event: NotificationEvent): EmailContent {
+  return templatesFor(event).email(event);
+}
+
+/**
+ * Render an event as a WhatsApp message, in WhatsApp's markdown
+ */
+export function renderWhatsAppMessage(event: NotificationEvent): string {
+  return templatesFor(event).whatsapp(event);
+}
+
+/**
+ * One line describing an event in plain text, as shown in the delivery log
+ */
+export function summarizeEvent(event: NotificationEvent): string {
+  return templatesFor(event).summary(event);
+}
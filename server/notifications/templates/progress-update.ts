@@ -0,0 +1,43 @@
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeHtml, escapeSlack, getProgress, htmlQuote } from "./format";
+
+export const progressUpdateTemplates: EventTemplates<EventOfType<"progressUpdate">> = {
+  summary: ({ goal }) => `📝 Progress Update: Goal - "${goal.title}"`,
+
+  slack: ({ goal, update }) => ({
+    text: `📝 Progress Update: Goal - "${escapeSlack(goal.title)}"`,
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*📝 Progress Update*: Goal - "${escapeSlack(goal.title)}"` }
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: escapeSlack(update) }
+      }
+    ]
+  }),
+
+  email: ({ goal, update }) => {
+    const { completed, total, percentage } = getProgress(goal);
+
+    const text = `
+Progress Update for "${goal.title}"
+
+${update}
+
+Current progress: ${percentage}% (${completed}/${total} tasks complete)
+
+Log in to TaskBreaker to see the rest of your plan.
+`;
+
+    const html = emailLayout(`Progress Update for "${goal.title}"`, `
+    ${htmlQuote(update, "#3b82f6")}
+    <p>Current progress: <strong>${percentage}%</strong> (${completed}/${total} tasks complete)</p>
+    <p>Log in to TaskBreaker to see the rest of your plan for <strong>${escapeHtml(goal.title)}</strong>.</p>`);
+
+    return { subject: `TaskBreaker: Progress Update - ${goal.title}`, text, html };
+  },
+
+  whatsapp: ({ goal, update }) => `📝 *Progress Update*\nGoal: "${goal.title}"\n\n${update}`
+};
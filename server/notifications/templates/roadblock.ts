@@ -0,0 +1,60 @@
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeSlack, htmlQuote } from "./format";
+
+export const roadblockTemplates: EventTemplates<EventOfType<"roadblock">> = {
+  summary: ({ goal }) => `🚧 Roadblock Reported: Goal - "${goal.title}"`,
+
+  slack: ({ goal, description }) => ({
+    text: `🚧 Roadblock Reported: Goal - "${escapeSlack(goal.title)}"`,
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*🚧 Roadblock Reported*: Goal - "${escapeSlack(goal.title)}"` }
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: escapeSlack(description) }
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "Offer Help", emoji: true },
+            value: `offer_help_${goal.id}`,
+            action_id: "offer_help"
+          }
+        ]
+      }
+    ]
+  }),
+
+  email: ({ goal, description }) => {
+    const text = `
+Roadblock Reported for "${goal.title}"
+
+The following roadblock has been reported:
+
+${description}
+
+This has been recorded in your goal progress. If you need help, consider reaching out to a friend or mentor.
+`;
+
+    const html = emailLayout(`Roadblock Reported for "${goal.title}"`, `
+    <p>The following roadblock has been reported:</p>
+    ${htmlQuote(description, "#f59e0b")}
+    <p>This has been recorded in your goal progress. If you need help, consider reaching out to a friend or mentor.</p>`);
+
+    return { subject: `TaskBreaker: Roadblock Reported - ${goal.title}`, text, html };
+  },
+
+  whatsapp: ({ goal, description }) => `
+🚧 *Roadblock Reported*
+Goal: "${goal.title}"
+
+*Issue:*
+${description}
+
+Need help? Reply to this message.
+`
+};
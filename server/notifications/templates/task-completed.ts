@@ -0,0 +1,68 @@
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeHtml, escapeSlack, getProgress } from "./format";
+
+export const taskCompletedTemplates: EventTemplates<EventOfType<"taskCompleted">> = {
+  summary: ({ task }) => `✅ Task Completed: "${task.title}"`,
+
+  slack: ({ goal, task }) => {
+    const { completed, total, percentage } = getProgress(goal);
+
+    return {
+      text: `✅ Task Completed: "${escapeSlack(task.title)}"`,
+      blocks: [
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `✅ *Task Completed*: "${escapeSlack(task.title)}"` }
+        },
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `*Goal*: ${escapeSlack(goal.title)}` }
+        },
+        {
+          type: "section",
+          fields: [
+            { type: "mrkdwn", text: `*Progress*: ${percentage}% (${completed}/${total} tasks)` }
+          ]
+        }
+      ]
+    };
+  },
+
+  email: ({ goal, task }) => {
+    const { completed, total, percentage } = getProgress(goal);
+
+    const text = `
+Task Completed in ${goal.title}!
+
+You've completed: "${task.title}"
+
+Current progress: ${percentage}% (${completed}/${total} tasks complete)
+
+Keep up the great work!
+`;
+
+    const html = emailLayout(`Task Completed in ${goal.title}!`, `
+    <p>You've completed: <strong>${escapeHtml(task.title)}</strong></p>
+    <p>Current progress: <strong>${percentage}%</strong> (${completed}/${total} tasks complete)</p>
+    <div style="background:#e5e7eb;border-radius:4px;height:8px;">
+      <div style="background:#16a34a;border-radius:4px;height:8px;width:${percentage}%;"></div>
+    </div>
+    <p>Keep up the great work!</p>`);
+
+    return { subject: `TaskBreaker: Task Completed - ${task.title}`, text, html };
+  },
+
+  whatsapp: ({ goal, task }) => {
+    const { completed, total, percentage } = getProgress(goal);
+
+    return `
+✅ *Task Completed*
+You completed: "${task.title}"
+
+*Goal:* ${goal.title}
+*Progress:* ${percentage}% (${completed}/${total} tasks)
+
+Keep going! 💪
+`;
+  }
+};
@@ -0,0 +1,61 @@
+import { type EventTemplates, type EventOfType } from "./types";
+import { emailLayout, escapeHtml, escapeSlack, formatDueDate, htmlList } from "./format";
+
+export const taskReminderTemplates: EventTemplates<EventOfType<"taskReminder">> = {
+  summary: ({ task }) => `⏰ Reminder: "${task.title}"`,
+
+  slack: ({ goal, task }) => ({
+    text: `⏰ Reminder: "${escapeSlack(task.title)}"`,
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `⏰ *Reminder*: "${escapeSlack(task.title)}"` }
+      },
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Goal*: ${escapeSlack(goal.title)}` },
+          { type: "mrkdwn", text: `*Due*: ${formatDueDate(task) ?? 'No due date'}` }
+        ]
+      }
+    ]
+  }),
+
+  email: ({ goal, task }) => {
+    const nextSubtasks = task.subtasks
+      .filter(subtask => !subtask.completed)
+      .slice(0, 3)
+      .map(subtask => subtask.title);
+    const dueDate = formatDueDate(task);
+
+    const text = `
+Reminder: ${task.title}
+
+This is your reminder for a task in "${goal.title}".
+${dueDate ? `\nDue: ${dueDate}\n` : ''}
+${nextSubtasks.length > 0 ? `Next steps:\n${nextSubtasks.map(subtask => `- ${subtask}`).join('\n')}\n` : ''}
+Log in to TaskBreaker to mark it as done when you're finished.
+`;
+
+    const html = emailLayout(`Reminder: ${task.title}`, `
+    <p>This is your reminder for a task in <strong>${escapeHtml(goal.title)}</strong>.</p>
+    ${dueDate ? `<p>Due: <strong>${escapeHtml(dueDate)}</strong></p>` : ''}
+    ${nextSubtasks.length > 0 ? `<p style="margin-bottom:0;">Next steps:</p>${htmlList(nextSubtasks)}` : ''}
+    <p>Log in to TaskBreaker to mark it as done when you're finished.</p>`);
+
+    return { subject: `TaskBreaker: Reminder - ${task.title}`, text, html };
+  },
+
+  whatsapp: ({ goal, task }) => {
+    const dueDate = formatDueDate(task);
+
+    return `
+⏰ *Reminder*
+"${task.title}"
+
+*Goal:* ${goal.title}
+${dueDate ? `*Due:* ${dueDate}\n` : ''}
+You've got this! 💪
+`;
+  }
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { type Goal, type Task } from "@shared/schema";
+import {
+  type NotificationEvent, type NotificationEventType,
+  renderSlackMessage, renderEmail, renderWhatsAppMessage, summarizeEvent
+} from "./index";
+
+// User-entered text with characters that are markup in Slack and HTML
+const goalTitle = "Ship <b>v2</b> & celebrate";
+const taskTitle = "Fix <script> & test";
+const message = "Waiting on <@U123> & legal";
+
+const task: Task = {
+  id: "task-1",
+  title: taskTitle,
+  completed: false,
+  subtasks: [],
+  estimatedMinutes: 30,
+  addedToCalendar: false,
+  reminderEnabled: false,
+  enableWhatsapp: false
+};
+
+const goal: Goal = {
+  id: 1,
+  title: goalTitle,
+  userId: "1",
+  progress: 0,
+  createdAt: "2026-01-05T09:00:00.000Z",
+  totalEstimatedMinutes: 30,
+  timeConstraintMinutes: null,
+  additionalInfo: message,
+  overallSuggestions: null,
+  notificationChannels: ["email"],
+  lastProgressUpdate: null,
+  roadblocks: null,
+  complexity: "medium",
+  tasks: [task]
+};
+
+interface TemplateCase {
+  event: NotificationEvent;
+  heading: string; // What every rendering calls the event
+  subject: string; // The user's text the rendering is about
+}
+
+// One event of every type
+const cases: { [T in NotificationEventType]: TemplateCase } = {
+  goalCreated: { event: { type: "goalCreated", goal }, heading: "Goal Created", subject: goalTitle },
+  taskCompleted: { event: { type: "taskCompleted", goal, task }, heading: "Task Completed", subject: taskTitle },
+  goalCompleted: { event: { type: "goalCompleted", goal }, heading: "Goal Completed", subject: goalTitle },
+  progressUpdate: { event: { type: "progressUpdate", goal, update: message }, heading: "Progress Update", subject: goalTitle },
+  roadblock: { event: { type: "roadblock", goal, description: message }, heading: "Roadblock Reported", subject: goalTitle },
+  taskReminder: { event: { type: "taskReminder", goal, task }, heading: "Reminder", subject: taskTitle },
+  dailyDigest: { event: { type: "dailyDigest", goals: [goal] }, heading: "Daily", subject: goalTitle }
+};
+
+const rawMarkup = ["<b>", "<script>", "<@U123>"];
+
+// How the user's text should look in Slack mrkdwn and HTML
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+describe.each(Object.entries(cases))("%s templates", (_type, { event, heading, subject }) => {
+  it("renders a Slack message with the user's text escaped", () => {
+    const slack = renderSlackMessage(event);
+    const rendered = JSON.stringify(slack);
+
+    expect(slack.text).toContain(heading);
+    expect(rendered).toContain(escapeMarkup(subject));
+    for (const markup of rawMarkup) {
+      expect(rendered).not.toContain(markup);
+    }
+  });
+
+  it("renders an email with the user's text escaped in the HTML", () => {
+    const email = renderEmail(event);
+
+    expect(email.subject).toContain(heading);
+    expect(email.text).toContain(subject);
+    expect(email.html).toContain(heading);
+    expect(email.html).toContain(escapeMarkup(subject));
+    for (const markup of rawMarkup) {
+      expect(email.html).not.toContain(markup);
+    }
+  });
+
+  it("renders a WhatsApp message with the user's text as written", () => {
+    const whatsapp = renderWhatsAppMessage(event);
+
+    expect(whatsapp).toContain(heading);
+    expect(whatsapp).toContain(subject);
+  });
+
+  it("summarizes the event in plain text", () => {
+    const summary = summarizeEvent(event);
+
+    expect(summary).toContain(heading);
+    expect(summary).not.toContain("&amp;");
+  });
+});
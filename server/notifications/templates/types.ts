@@ -0,0 +1,46 @@
+import type { KnownBlock } from "@slack/web-api";
+import { Goal, Task } from "@shared/schema";
+
+/**
+ * Something that happened that users get notified about
+ */
+export type NotificationEvent =
+  | { type: "goalCreated"; goal: Goal }
+  | { type: "taskCompleted"; goal: Goal; task: Task }
+  | { type: "goalCompleted"; goal: Goal }
+  | { type: "progressUpdate"; goal: Goal; update: string }
+  | { type: "roadblock"; goal: Goal; description: string }
+  | { type: "taskReminder"; goal: Goal; task: Task }
+  | { type: "dailyDigest"; goals: Goal[] }; // Goals that still have tasks to do
+
+export type NotificationEventType = NotificationEvent["type"];
+
+// The event of the given type
+export type EventOfType<T extends NotificationEventType> = Extract<NotificationEvent, { type: T }>;
+
+/**
+ * A Slack message: blocks, and the plain text shown where blocks can't be (e.g. notifications)
+ */
+export interface SlackMessage {
+  text: string;
+  blocks: KnownBlock[];
+}
+
+/**
+ * A rendered email: its subject, plus HTML and plain-text bodies with the same content
+ */
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * How one type of event looks on each channel. WhatsApp messages use WhatsApp's markdown.
+ */
+export interface EventTemplates<E extends NotificationEvent> {
+  summary(event: E): string; // One line of plain text, e.g. for the delivery log
+  slack(event: E): SlackMessage;
+  email(event: E): EmailContent;
+  whatsapp(event: E): string;
+}
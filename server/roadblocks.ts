@@ -0,0 +1,147 @@
+import {
+  type Goal, type Roadblock,
+  type RoadblockRequest, type UpdateRoadblockRequest, type RoadblockUpdate
+} from "@shared/schema";
+import { storage } from "./storage";
+import { notifyRoadblock, NotificationChannel } from "./notifications";
+
+/**
+ * Error for a roadblock request that can't be carried out, with the HTTP status to respond with
+ */
+export class RoadblockError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RoadblockError";
+  }
+}
+
+/**
+ * Open and mitigating roadblocks still stand in the way; resolved ones don't
+ */
+export function isOpenRoadblock(roadblock: Roadblock): boolean {
+  return roadblock.status !== "resolved";
+}
+
+/**
+ * The goal's unresolved roadblocks, newest first
+ */
+export async function getOpenRoadblocks(goalId: number): Promise<Roadblock[]> {
+  const roadblocks = await storage.getRoadblocks(goalId);
+  return roadblocks.filter(isOpenRoadblock);
+}
+
+// Reject blocked task ids that aren't tasks of the goal
+function validateBlockedTasks(goal: Goal, blockedTaskIds: string[]): void {
+  const unknown = blockedTaskIds.filter(id => !goal.tasks.some(task => task.id === id));
+  if (unknown.length > 0) {
+    throw new RoadblockError(`Unknown task ID(s): ${unknown.join(", ")}`, 400);
+  }
+}
+
+// The goal's roadblocks field summarizes its most recent unresolved roadblock, if any
+async function syncGoalRoadblocks(goal: Goal): Promise<Goal> {
+  const [latest] = await getOpenRoadblocks(goal.id);
+  const updatedGoal = await storage.updateGoal(goal.id, {
+    roadblocks: latest ? latest.description : null
+  });
+  return updatedGoal ?? goal;
+}
+
+/**
+ * Report a roadblock on a goal. A roadblock the user needs help with is escalated
+ * to the goal's notification channels as well as the ones asked for.
+ * @returns The new roadblock and the goal with its updated roadblock summary
+ */
+export async function reportRoadblock(
+  goal: Goal,
+  input: Omit<RoadblockRequest, "goalId">
+): Promise<{ roadblock: Roadblock; goal: Goal }> {
+  const blockedTaskIds = Array.from(new Set(input.blockedTaskIds ?? []));
+  validateBlockedTasks(goal, blockedTaskIds);
+
+  const needsHelp = input.needsHelp ?? false;
+  const roadblock = await storage.createRoadblock({
+    goalId: goal.id,
+    description: input.description,
+    blockedTaskIds,
+    severity: input.severity ?? "medium",
+    status: "open",
+    needsHelp,
+    escalatedAt: needsHelp ? new Date() : null
+  });
+
+  await storage.addJournalEntry({
+    goalId: goal.id,
+    type: "roadblock",
+    message: roadblock.description,
+    roadblockId: roadblock.id
+  });
+
+  const updatedGoal = await syncGoalRoadblocks(goal);
+
+  let channels = (input.notifyChannels || []) as NotificationChannel[];
+  let description = roadblock.description;
+  if (needsHelp) {
+    const goalChannels = (updatedGoal.notificationChannels || []) as NotificationChannel[];
+    channels = Array.from(new Set([...channels, ...goalChannels]));
+    description = `${description} (help needed)`;
+  }
+
+  // Queue notifications to the contact details in the user's settings
+  await notifyRoadblock(updatedGoal, description, channels)
+    .catch(err => console.error("Failed to send roadblock notification:", err));
+
+  return { roadblock, goal: updatedGoal };
+}
+
+/**
+ * Update a goal's roadblock. Resolving or reopening it is recorded in the goal's journal.
+ * @returns The updated roadblock and the goal with its updated roadblock summary
+ */
+export async function updateRoadblock(
+  goal: Goal,
+  roadblockId: number,
+  updates: UpdateRoadblockRequest
+): Promise<{ roadblock: Roadblock; goal: Goal }> {
+  const existing = await storage.getRoadblock(roadblockId);
+  if (!existing || existing.goalId !== goal.id) {
+    throw new RoadblockError("Roadblock not found", 404);
+  }
+
+  const changes: RoadblockUpdate = {};
+  if (updates.severity !== undefined) changes.severity = updates.severity;
+  if (updates.blockedTaskIds !== undefined) {
+    changes.blockedTaskIds = Array.from(new Set(updates.blockedTaskIds));
+    validateBlockedTasks(goal, changes.blockedTaskIds);
+  }
+  if (updates.resolutionNote !== undefined) changes.resolutionNote = updates.resolutionNote.trim() || null;
+
+  const resolving = updates.status === "resolved" && existing.status !== "resolved";
+  const reopening = updates.status !== undefined && updates.status !== "resolved" && existing.status === "resolved";
+  if (updates.status !== undefined) changes.status = updates.status;
+  if (resolving) changes.resolvedAt = new Date();
+  if (reopening) changes.resolvedAt = null;
+
+  const roadblock = await storage.updateRoadblock(roadblockId, changes);
+  if (!roadblock) {
+    throw new RoadblockError("Roadblock not found", 404);
+  }
+
+  if (resolving) {
+    await storage.addJournalEntry({
+      goalId: goal.id,
+      type: "roadblock_resolved",
+      message: roadblock.resolutionNote || "Roadblock resolved",
+      roadblockId: roadblock.id
+    });
+  } else if (reopening) {
+    await storage.addJournalEntry({
+      goalId: goal.id,
+      type: "roadblock",
+      message: `Reopened: ${roadblock.description}`,
+      roadblockId: roadblock.id
+    });
+  }
+
+  return { roadblock, goal: await syncGoalRoadblocks(goal) };
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import express from "express";
+import request from "supertest";
+import { type Goal, type DueTask } from "@shared/schema";
+import { registerRoutes } from "./routes";
+
+type Method = "get" | "post" | "patch" | "delete";
+
+interface GoalRoute {
+  method: Method;
+  path: (goalId: string | number) => string;
+  body?: (goalId: string | number) => Record<string, unknown>;
+}
+
+// Routes that take the goal id from the URL
+const paramRoutes: GoalRoute[] = [
+  { method: "get", path: id => `/api/goals/${id}` },
+  { method: "patch", path: id => `/api/goals/${id}`, body: () => ({ title: "Taken over" }) },
+  { method: "delete", path: id => `/api/goals/${id}` },
+  { method: "post", path: id => `/api/goals/${id}/tasks`, body: () => ({ title: "Sneaky task" }) },
+  { method: "post", path: id => `/api/goals/${id}/progress`, body: () => ({ updateMessage: "Done" }) },
+  { method: "post", path: id => `/api/goals/${id}/roadblock`, body: () => ({ description: "Stuck" }) },
+  { method: "get", path: id => `/api/goals/${id}/roadblocks` },
+  { method: "patch", path: id => `/api/goals/${id}/roadblocks/1`, body: () => ({ status: "resolved" }) },
+  { method: "post", path: id => `/api/goals/${id}/time-entries`, body: () => ({ taskId: "task" }) },
+  { method: "post", path: id => `/api/goals/${id}/time-entries/1/stop` },
+  { method: "get", path: id => `/api/goals/${id}/time-entries` },
+  { method: "get", path: id => `/api/goals/${id}/time-report` },
+  { method: "post", path: id => `/api/goals/${id}/focus-sessions`, body: () => ({ taskId: "task" }) },
+  { method: "get", path: id => `/api/goals/${id}/focus-sessions` },
+  { method: "get", path: id => `/api/goals/${id}/journal` },
+  { method: "get", path: id => `/api/goals/${id}/tasks/task/occurrences` },
+  { method: "get", path: id => `/api/coach/roadblock-tips/${id}` },
+];
+
+// Routes that take the goal id from the request body
+const bodyRoutes: GoalRoute[] = [
+  "/api/tasks",
+  "/api/tasks/edit",
+  "/api/subtasks",
+  "/api/subtasks/edit",
+  "/api/tasks/schedule",
+  "/api/subtasks/schedule",
+].map(path => ({ method: "patch" as const, path: () => path, body: goalId => ({ goalId, taskId: "task" }) }));
+
+bodyRoutes.push(
+  ...["/api/coach/discuss-task", "/api/coach/discuss-task/stream"].map(path => ({
+    method: "post" as const,
+    path: () => path,
+    body: (goalId: string | number) => ({ goalId, taskId: "task", message: "Help" })
+  }))
+);
+
+const goalRoutes = [...paramRoutes, ...bodyRoutes];
+
+function describeRoute(route: GoalRoute): string {
+  return `${route.method.toUpperCase()} ${route.path(":id")}`;
+}
+
+function send(agent: request.Agent | ReturnType<typeof request>, route: GoalRoute, goalId: string | number) {
+  const req = agent[route.method](route.path(goalId));
+  return route.body ? req.send(route.body(goalId)) : req;
+}
+
+describe("goal ownership", () => {
+  let app: express.Express;
+  let owner: request.Agent;
+  let otherUser: request.Agent;
+  let goal: Goal;
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+
+    owner = request.agent(app);
+    otherUser = request.agent(app);
+    await owner.post("/api/register")
+      .send({ username: "owner", email: "owner@example.com", password: "secret123" })
+      .expect(201);
+    await otherUser.post("/api/register")
+      .send({ username: "other", email: "other@example.com", password: "secret123" })
+      .expect(201);
+
+    const response = await owner.post("/api/goals").send({ title: "Learn to juggle" }).expect(201);
+    goal = response.body;
+  });
+
+  it.each(goalRoutes.map(route => [describeRoute(route), route] as const))(
+    "%s returns 404 for another user's goal",
+    async (_name, route) => {
+      const response = await send(otherUser, route, goal.id);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: "Goal not found" });
+    }
+  );
+
+  it.each(goalRoutes.map(route => [describeRoute(route), route] as const))(
+    "%s returns 401 when signed out",
+    async (_name, route) => {
+      const response = await send(request(app), route, goal.id);
+
+      expect(response.status).toBe(401);
+    }
+  );
+
+  it.each(goalRoutes.map(route => [describeRoute(route), route] as const))(
+    "%s returns 400 for a non-numeric goal id",
+    async (_name, route) => {
+      const response = await send(otherUser, route, "abc");
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ message: "Invalid goal ID" });
+    }
+  );
+
+  it("leaves the goal unchanged for its owner", async () => {
+    const response = await owner.get(`/api/goals/${goal.id}`).expect(200);
+
+    expect(response.body.title).toBe("Learn to juggle");
+    expect(response.body.tasks).toEqual(goal.tasks);
+  });
+
+  it("leaves another user's goals out of the goal list", async () => {
+    const response = await otherUser.get("/api/goals").expect(200);
+
+    expect(response.body).toEqual([]);
+  });
+});
+
+describe("task dependencies", () => {
+  let user: request.Agent;
+  let goal: Goal;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+
+    user = request.agent(app);
+    await user.post("/api/register")
+      .send({ username: "planner", email: "planner@example.com", password: "secret123" })
+      .expect(201);
+
+    // The offline breakdown chains the tasks: define -> work -> review
+    const response = await user.post("/api/goals").send({ title: "Paint the fence" }).expect(201);
+    goal = response.body;
+  });
+
+  it("rejects a dependency that would form a cycle", async () => {
+    const [defineTask, , reviewTask] = goal.tasks;
+
+    const response = await user.patch("/api/tasks/edit")
+      .send({ goalId: goal.id, taskId: defineTask.id, dependsOn: [reviewTask.id] })
+      .expect(400);
+
+    expect(response.body.message).toMatch(/^Task dependencies can't form a cycle/);
+    const unchanged = await user.get(`/api/goals/${goal.id}`).expect(200);
+    expect(unchanged.body.tasks[0].dependsOn).toEqual([]);
+  });
+
+  it("reports a task as blocked until its dependencies are done", async () => {
+    const [defineTask, workTask, reviewTask] = goal.tasks;
+    for (const task of goal.tasks) {
+      await user.patch("/api/tasks/schedule")
+        .send({ goalId: goal.id, taskId: task.id, updates: { dueDate: "2026-03-02" } })
+        .expect(200);
+    }
+
+    const before = await user.get("/api/tasks/due?date=2026-03-02").expect(200);
+    expect(before.body.map((due: DueTask) => [due.task.id, due.state])).toEqual([
+      [defineTask.id, "ready"],
+      [workTask.id, "blocked"],
+      [reviewTask.id, "blocked"]
+    ]);
+
+    await user.patch("/api/tasks").send({ goalId: goal.id, taskId: defineTask.id, completed: true }).expect(200);
+
+    const after = await user.get("/api/tasks/due?date=2026-03-02").expect(200);
+    expect(after.body.map((due: DueTask) => [due.task.id, due.state])).toEqual([
+      [defineTask.id, "done"],
+      [workTask.id, "ready"],
+      [reviewTask.id, "blocked"]
+    ]);
+  });
+});
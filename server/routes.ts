@@ -4,23 +4,51 @@ import { storage } from "./storage";
 import { breakdownGoal } from "./llm/task-breakdown";
 import { generateCoachingMessage, generateRoadblockTips, discussTaskWithAI } from "./llm/ai-coach";
 import { processCoachChat } from "./llm/coach-chat";
+import { nanoid } from "nanoid";
+import { openEventStream } from "./sse";
+import { buildTimeline, recordTaskCompletions } from "./journal";
+import { reportRoadblock, updateRoadblock, getOpenRoadblocks, RoadblockError } from "./roadblocks";
+import { validateDependencies } from "@shared/task-dependencies";
+import {
+  occursOn, getOccurrences, toLocalDateString, addDays, daysBetween,
+  DEFAULT_OCCURRENCE_DAYS, MAX_OCCURRENCE_DAYS
+} from "@shared/recurrence";
+import { computeActivityStats, isValidTimeZone, DEFAULT_ACTIVITY_DAYS, MAX_ACTIVITY_DAYS } from "./streaks";
+import { startTimer, stopTimer, buildTimeReport, TimeTrackingError } from "./time-tracking";
+import { getEstimateCalibration } from "./estimate-calibration";
+import { logFocusSession, FocusSessionError } from "./focus-sessions";
+import { getUserSettings, updateUserSettings, UserSettingsError } from "./user-settings";
+import { getDeliveryLog } from "./notifications/outbox";
+import { confirmCoachAction, rejectCoachAction, CoachActionError } from "./llm/coach-tools";
 import { 
   createGoalSchema, 
   updateTaskSchema, 
   updateSubtaskSchema, 
   progressUpdateSchema, 
-  roadblockSchema 
+  roadblockSchema,
+  updateRoadblockSchema,
+  taskRecurrence,
+  startTimerSchema,
+  logFocusSessionSchema,
+  updateUserSettingsSchema,
+  updateGoalSchema,
+  addTaskSchema,
+  notificationLogQuerySchema,
+  roadblockStatuses,
+  type RoadblockStatus,
+  goalJournalEntryTypes,
+  type GoalJournalEntryType,
+  type User
 } from "@shared/schema";
 import { 
   notifyGoalCreated, 
-  notifyTaskCompleted, 
+  notifyCompletions, 
   notifyProgressUpdate, 
-  notifyRoadblock, 
   NotificationChannel 
 } from "./notifications";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { setupAuth, ensureAuthenticated } from "./auth";
+import { setupAuth, ensureAuthenticated, requireOwnedGoal, getOwnedGoal } from "./auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
@@ -28,24 +56,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Apply authentication middleware to all goal-related API endpoints
   app.use('/api/goals', ensureAuthenticated);
+  
+  // Routes that act on a single goal only accept the logged-in user's own goals
+  const ownedGoalInParams = requireOwnedGoal(req => req.params.id);
+  const ownedGoalInBody = requireOwnedGoal(req => req.body?.goalId);
   // Create a new goal
   app.post("/api/goals", async (req: Request, res: Response) => {
     try {
       // Validate request body
       const validatedData = createGoalSchema.parse(req.body);
       
-      // Use OpenAI to break down the goal into tasks with time estimates and context
+      // Get the user ID from the authenticated user
+      const userId = req.isAuthenticated() && req.user 
+        ? String((req.user as User).id) || "anonymous"
+        : "anonymous";
+      
+      // Use OpenAI to break down the goal into tasks with time estimates and context,
+      // calibrated to how long the user's tasks have actually taken
       const { tasks, totalEstimatedMinutes, overallSuggestions } = await breakdownGoal(
         validatedData.title,
         validatedData.timeConstraintMinutes,
-        validatedData.additionalInfo
+        validatedData.additionalInfo,
+        userId !== "anonymous" ? await getEstimateCalibration(userId) : undefined
       );
       
-      // Get the user ID from the authenticated user
-      const userId = req.isAuthenticated() && req.user 
-        ? String((req.user as any).id) || "anonymous"
-        : "anonymous";
-      
       // Parse notification channels from request if provided
       let notificationChannels: string[] = [];
       if (req.body.notificationChannels && Array.isArray(req.body.notificationChannels)) {
@@ -67,8 +101,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         roadblocks: null
       });
       
-      // Send notification asynchronously (don't await)
-      notifyGoalCreated(goal, notificationChannels as NotificationChannel[])
+      // Queue notifications; the outbox delivers them. A failure here doesn't fail goal creation.
+      await notifyGoalCreated(goal, notificationChannels as NotificationChannel[])
         .catch(err => console.error("Failed to send goal creation notification:", err));
       
       res.status(201).json(goal);
@@ -93,7 +127,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let goals;
       
       if (req.isAuthenticated() && req.user) {
-        const userId = String((req.user as any).id) || "anonymous";
+        const userId = String((req.user as User).id) || "anonymous";
         goals = await storage.getGoals(userId);
       } else {
         // Return empty array if not authenticated
@@ -110,21 +144,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a specific goal
-  app.get("/api/goals/:id", async (req: Request, res: Response) => {
+  app.get("/api/goals/:id", ownedGoalInParams, async (req: Request, res: Response) => {
     try {
-      const goalId = parseInt(req.params.id);
-      if (isNaN(goalId)) {
-        res.status(400).json({ message: "Invalid goal ID" });
-        return;
-      }
-
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
-
-      res.json(goal);
+      res.json(getOwnedGoal(res));
     } catch (error) {
       console.error("Error fetching goal:", error);
       res.status(500).json({ 
@@ -134,15 +156,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a goal
-  app.delete("/api/goals/:id", async (req: Request, res: Response) => {
+  app.delete("/api/goals/:id", ownedGoalInParams, async (req: Request, res: Response) => {
     try {
-      const goalId = parseInt(req.params.id);
-      if (isNaN(goalId)) {
-        res.status(400).json({ message: "Invalid goal ID" });
-        return;
-      }
-
-      const success = await storage.deleteGoal(goalId);
+      const success = await storage.deleteGoal(getOwnedGoal(res).id);
       if (!success) {
         res.status(404).json({ message: "Goal not found" });
         return;
@@ -158,59 +174,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update goal properties
-  app.patch("/api/goals/:id", async (req: Request, res: Response) => {
+  app.patch("/api/goals/:id", ownedGoalInParams, async (req: Request, res: Response) => {
     try {
-      const goalId = parseInt(req.params.id);
-      if (isNaN(goalId)) {
-        res.status(400).json({ message: "Invalid goal ID" });
+      // Replacing the whole task list would overwrite changes made since the client loaded it
+      if (req.body?.tasks !== undefined) {
+        res.status(400).json({ message: "Tasks can't be changed here; use the task endpoints" });
         return;
       }
       
-      const { complexity, tasks, ...otherUpdates } = req.body;
-      
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
+      // A goal's id and owner can't be changed; other fields are ignored
+      const validatedData = updateGoalSchema.parse(req.body);
       
-      const updates: any = { ...otherUpdates };
+      const updatedGoal = await storage.updateGoal(getOwnedGoal(res).id, validatedData);
       
-      // If complexity is provided, update it
-      if (complexity) {
-        updates.complexity = complexity;
+      if (!updatedGoal) {
+        res.status(404).json({ message: "Failed to update goal" });
+        return;
       }
       
-      // If tasks are provided, update them
-      if (tasks) {
-        updates.tasks = tasks;
+      res.json(updatedGoal);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
       }
       
-      const updatedGoal = await storage.updateGoal(goalId, updates);
+      console.error("Error updating goal:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update goal" 
+      });
+    }
+  });
+
+  // Add a task to the end of a goal
+  app.post("/api/goals/:id/tasks", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const validatedData = addTaskSchema.parse(req.body);
+      
+      const updatedGoal = await storage.addTask(getOwnedGoal(res).id, {
+        id: nanoid(),
+        ...validatedData,
+        completed: false,
+        subtasks: [],
+        addedToCalendar: false,
+        reminderEnabled: false,
+        enableWhatsapp: false
+      });
       
       if (!updatedGoal) {
-        res.status(404).json({ message: "Failed to update goal" });
+        res.status(404).json({ message: "Goal not found" });
         return;
       }
       
-      res.json(updatedGoal);
+      res.status(201).json(updatedGoal);
     } catch (error) {
-      console.error("Error updating goal:", error);
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
+      }
+      
+      console.error("Error adding task:", error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to update goal" 
+        message: error instanceof Error ? error.message : "Failed to add task" 
       });
     }
   });
 
   // Update task completion status
-  app.patch("/api/tasks", async (req: Request, res: Response) => {
+  app.patch("/api/tasks", ownedGoalInBody, async (req: Request, res: Response) => {
     try {
       const validatedData = updateTaskSchema.parse(req.body);
       
+      const task = getOwnedGoal(res).tasks.find(t => t.id === validatedData.taskId);
+      if (task && validatedData.date) {
+        if (!task.recurrence) {
+          res.status(400).json({ message: "Only recurring tasks have occurrences" });
+          return;
+        }
+        if (!occursOn(task.recurrence, validatedData.date)) {
+          res.status(400).json({ message: `Task doesn't occur on ${validatedData.date}` });
+          return;
+        }
+      }
+      
       const updatedGoal = await storage.updateTaskCompletion(
-        validatedData.goalId,
+        getOwnedGoal(res).id,
         validatedData.taskId,
-        validatedData.completed
+        validatedData.completed,
+        validatedData.date
       );
       
       if (!updatedGoal) {
@@ -218,6 +271,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
+      // Record newly completed tasks in the goal's journal. A failure here doesn't fail the update.
+      await recordTaskCompletions(getOwnedGoal(res), updatedGoal)
+        .catch(err => console.error("Failed to record task completion:", err));
+      
+      // Queue notifications to the user's configured channels
+      await notifyCompletions(getOwnedGoal(res), updatedGoal)
+        .catch(err => console.error("Failed to send task completion notification:", err));
+      
       res.json(updatedGoal);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -234,43 +295,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Edit task details
-  app.patch("/api/tasks/edit", async (req: Request, res: Response) => {
+  app.patch("/api/tasks/edit", ownedGoalInBody, async (req: Request, res: Response) => {
     try {
-      const { goalId, taskId, title, context, actionItems } = req.body;
+      const { taskId, title, context, actionItems, dependsOn } = req.body;
       
-      if (!goalId || !taskId) {
+      if (!taskId) {
         res.status(400).json({ message: "Goal ID and task ID are required" });
         return;
       }
       
-      // Get the goal
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
-      
-      // Find the task in the goal
-      const taskIndex = goal.tasks.findIndex(t => t.id === taskId);
-      if (taskIndex === -1) {
-        res.status(404).json({ message: "Task not found" });
-        return;
+      // Tasks can only depend on the goal's other tasks, and never in a cycle
+      const goal = getOwnedGoal(res);
+      if (dependsOn !== undefined) {
+        if (!Array.isArray(dependsOn) || !dependsOn.every(id => typeof id === "string")) {
+          res.status(400).json({ message: "dependsOn must be an array of task IDs" });
+          return;
+        }
+        
+        const dependencyProblem = validateDependencies(
+          goal.tasks.map(task => task.id === taskId ? { ...task, dependsOn } : task)
+        );
+        if (dependencyProblem) {
+          res.status(400).json({ message: dependencyProblem });
+          return;
+        }
       }
       
-      // Update the task
-      const updatedTasks = [...goal.tasks];
-      updatedTasks[taskIndex] = {
-        ...updatedTasks[taskIndex],
-        ...(title !== undefined ? { title } : {}),
-        ...(context !== undefined ? { context } : {}),
-        ...(actionItems !== undefined ? { actionItems } : {})
-      };
-      
-      // Save the updated goal
-      const updatedGoal = await storage.updateGoal(goalId, { tasks: updatedTasks });
+      const updatedGoal = await storage.updateTask(goal.id, taskId, { title, context, actionItems, dependsOn });
       
       if (!updatedGoal) {
-        res.status(500).json({ message: "Failed to update task" });
+        res.status(404).json({ message: "Goal or task not found" });
         return;
       }
       
@@ -284,12 +338,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update subtask completion status
-  app.patch("/api/subtasks", async (req: Request, res: Response) => {
+  app.patch("/api/subtasks", ownedGoalInBody, async (req: Request, res: Response) => {
     try {
       const validatedData = updateSubtaskSchema.parse(req.body);
       
       const updatedGoal = await storage.updateSubtaskCompletion(
-        validatedData.goalId,
+        getOwnedGoal(res).id,
         validatedData.taskId,
         validatedData.subtaskId,
         validatedData.completed
@@ -300,6 +354,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
+      // Completing the last subtask completes its task
+      await recordTaskCompletions(getOwnedGoal(res), updatedGoal)
+        .catch(err => console.error("Failed to record task completion:", err));
+      
+      // Queue notifications to the user's configured channels
+      await notifyCompletions(getOwnedGoal(res), updatedGoal)
+        .catch(err => console.error("Failed to send task completion notification:", err));
+      
       res.json(updatedGoal);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -316,55 +378,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Edit subtask details
-  app.patch("/api/subtasks/edit", async (req: Request, res: Response) => {
+  app.patch("/api/subtasks/edit", ownedGoalInBody, async (req: Request, res: Response) => {
     try {
-      const { goalId, taskId, subtaskId, title, context } = req.body;
+      const { taskId, subtaskId, title, context } = req.body;
       
-      if (!goalId || !taskId || !subtaskId) {
+      if (!taskId || !subtaskId) {
         res.status(400).json({ message: "Goal ID, task ID, and subtask ID are required" });
         return;
       }
       
-      // Get the goal
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
-      
-      // Find the task in the goal
-      const taskIndex = goal.tasks.findIndex(t => t.id === taskId);
-      if (taskIndex === -1) {
-        res.status(404).json({ message: "Task not found" });
-        return;
-      }
-      
-      // Find the subtask in the task
-      const subtaskIndex = goal.tasks[taskIndex].subtasks.findIndex(s => s.id === subtaskId);
-      if (subtaskIndex === -1) {
-        res.status(404).json({ message: "Subtask not found" });
-        return;
-      }
-      
-      // Update the subtask
-      const updatedTasks = [...goal.tasks];
-      const updatedSubtasks = [...updatedTasks[taskIndex].subtasks];
-      updatedSubtasks[subtaskIndex] = {
-        ...updatedSubtasks[subtaskIndex],
-        ...(title !== undefined ? { title } : {}),
-        ...(context !== undefined ? { context } : {})
-      };
-      
-      updatedTasks[taskIndex] = {
-        ...updatedTasks[taskIndex],
-        subtasks: updatedSubtasks
-      };
-      
-      // Save the updated goal
-      const updatedGoal = await storage.updateGoal(goalId, { tasks: updatedTasks });
+      const updatedGoal = await storage.updateSubtask(getOwnedGoal(res).id, taskId, subtaskId, { title, context });
       
       if (!updatedGoal) {
-        res.status(500).json({ message: "Failed to update subtask" });
+        res.status(404).json({ message: "Goal, task, or subtask not found" });
         return;
       }
       
@@ -378,26 +404,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Add progress update for a goal
-  app.post("/api/goals/:id/progress", async (req: Request, res: Response) => {
+  app.post("/api/goals/:id/progress", ownedGoalInParams, async (req: Request, res: Response) => {
     try {
-      const goalId = parseInt(req.params.id);
-      if (isNaN(goalId)) {
-        res.status(400).json({ message: "Invalid goal ID" });
-        return;
-      }
+      const goalId = getOwnedGoal(res).id;
       
       const validatedData = progressUpdateSchema.parse({
         ...req.body,
         goalId
       });
       
-      // Get the goal
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
-      
       // Save progress update to goal
       const updatedGoal = await storage.updateGoal(goalId, {
         lastProgressUpdate: validatedData.updateMessage
@@ -408,17 +423,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
-      // Send notifications (async)
-      const contactEmail = req.body.contactEmail;
-      const contactPhone = req.body.contactPhone;
+      // Keep the update in the goal's history
+      await storage.addJournalEntry({
+        goalId,
+        type: "progress_update",
+        message: validatedData.updateMessage
+      });
+      
+      // Queue notifications to the contact details in the user's settings
       const notifyChannels = validatedData.notifyChannels || [];
       
-      notifyProgressUpdate(
+      await notifyProgressUpdate(
         updatedGoal, 
         validatedData.updateMessage,
-        notifyChannels as NotificationChannel[],
-        contactEmail,
-        contactPhone
+        notifyChannels as NotificationChannel[]
       ).catch(err => console.error("Failed to send progress update notification:", err));
       
       res.json(updatedGoal);
@@ -437,60 +455,230 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Report roadblock for a goal
-  app.post("/api/goals/:id/roadblock", async (req: Request, res: Response) => {
+  app.post("/api/goals/:id/roadblock", ownedGoalInParams, async (req: Request, res: Response) => {
     try {
-      const goalId = parseInt(req.params.id);
-      if (isNaN(goalId)) {
-        res.status(400).json({ message: "Invalid goal ID" });
-        return;
-      }
+      const goal = getOwnedGoal(res);
       
       const validatedData = roadblockSchema.parse({
         ...req.body,
-        goalId
+        goalId: goal.id
       });
       
-      // Get the goal
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
+      // Saves the roadblock, records it in the goal's journal and sends notifications
+      const { goal: updatedGoal } = await reportRoadblock(goal, validatedData);
+      
+      res.json(updatedGoal);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
+      }
+      if (error instanceof RoadblockError) {
+        res.status(error.status).json({ message: error.message });
         return;
       }
       
-      // Save roadblock to goal
-      const updatedGoal = await storage.updateGoal(goalId, {
-        roadblocks: validatedData.description
+      console.error("Error reporting roadblock:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to report roadblock" 
+      });
+    }
+  });
+
+  // Get a goal's roadblocks, newest first (?status= to filter)
+  app.get("/api/goals/:id/roadblocks", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status !== undefined ? String(req.query.status) : undefined;
+      if (status !== undefined && !roadblockStatuses.includes(status as RoadblockStatus)) {
+        res.status(400).json({ message: `Unknown roadblock status "${status}"` });
+        return;
+      }
+      
+      const roadblocks = await storage.getRoadblocks(getOwnedGoal(res).id);
+      
+      res.json(status ? roadblocks.filter(roadblock => roadblock.status === status) : roadblocks);
+    } catch (error) {
+      console.error("Error fetching roadblocks:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch roadblocks" 
       });
+    }
+  });
+  
+  // Update a roadblock, e.g. to mark it as being worked around or resolved
+  app.patch("/api/goals/:id/roadblocks/:roadblockId", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const roadblockId = parseInt(req.params.roadblockId);
+      if (isNaN(roadblockId)) {
+        res.status(400).json({ message: "Invalid roadblock ID" });
+        return;
+      }
       
-      if (!updatedGoal) {
-        res.status(404).json({ message: "Failed to update goal" });
+      const validatedData = updateRoadblockSchema.parse(req.body);
+      
+      const result = await updateRoadblock(getOwnedGoal(res), roadblockId, validatedData);
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
+      }
+      if (error instanceof RoadblockError) {
+        res.status(error.status).json({ message: error.message });
         return;
       }
       
-      // Send notifications (async)
-      const contactEmail = req.body.contactEmail;
-      const contactPhone = req.body.contactPhone;
-      const notifyChannels = validatedData.notifyChannels || [];
+      console.error("Error updating roadblock:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update roadblock" 
+      });
+    }
+  });
+
+  // Start a timer on one of the goal's tasks or subtasks. The user's running timer, if any, is stopped.
+  app.post("/api/goals/:id/time-entries", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const validatedData = startTimerSchema.parse(req.body);
       
-      notifyRoadblock(
-        updatedGoal, 
-        validatedData.description,
-        notifyChannels as NotificationChannel[],
-        contactEmail,
-        contactPhone
-      ).catch(err => console.error("Failed to send roadblock notification:", err));
+      const entry = await startTimer(String((req.user as User).id), getOwnedGoal(res), validatedData);
       
-      res.json(updatedGoal);
+      res.status(201).json(entry);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({ message: validationError.message });
         return;
       }
+      if (error instanceof TimeTrackingError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
       
-      console.error("Error reporting roadblock:", error);
+      console.error("Error starting timer:", error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to report roadblock" 
+        message: error instanceof Error ? error.message : "Failed to start timer" 
+      });
+    }
+  });
+  
+  // Stop one of the goal's timers
+  app.post("/api/goals/:id/time-entries/:entryId/stop", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const entryId = Number(req.params.entryId);
+      if (!Number.isInteger(entryId)) {
+        res.status(400).json({ message: "Invalid time entry ID" });
+        return;
+      }
+      
+      const entry = await stopTimer(getOwnedGoal(res), entryId);
+      
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof TimeTrackingError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      
+      console.error("Error stopping timer:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to stop timer" 
+      });
+    }
+  });
+  
+  // Get the time tracked on a goal, newest first
+  app.get("/api/goals/:id/time-entries", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const entries = await storage.getTimeEntries(getOwnedGoal(res).id);
+      
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching time entries:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch time entries" 
+      });
+    }
+  });
+  
+  // Compare the estimated time of a goal's tasks with the time tracked on them
+  app.get("/api/goals/:id/time-report", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const goal = getOwnedGoal(res);
+      const entries = await storage.getTimeEntries(goal.id);
+      
+      res.json(buildTimeReport(goal, entries));
+    } catch (error) {
+      console.error("Error building time report:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to build time report" 
+      });
+    }
+  });
+
+  // Log a finished focus session on one of the goal's tasks or subtasks, optionally completing it
+  app.post("/api/goals/:id/focus-sessions", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const validatedData = logFocusSessionSchema.parse(req.body);
+      
+      const result = await logFocusSession(String((req.user as User).id), getOwnedGoal(res), validatedData);
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
+      }
+      if (error instanceof FocusSessionError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      
+      console.error("Error logging focus session:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to log focus session" 
+      });
+    }
+  });
+  
+  // Get a goal's focus sessions, newest first
+  app.get("/api/goals/:id/focus-sessions", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const sessions = await storage.getFocusSessions(getOwnedGoal(res).id);
+      
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching focus sessions:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch focus sessions" 
+      });
+    }
+  });
+
+  // Get a goal's journal: progress updates, roadblocks and task completions, newest first (?type= to filter)
+  app.get("/api/goals/:id/journal", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const type = req.query.type !== undefined ? String(req.query.type) : undefined;
+      if (type !== undefined && !goalJournalEntryTypes.includes(type as GoalJournalEntryType)) {
+        res.status(400).json({ message: `Unknown journal entry type "${type}"` });
+        return;
+      }
+      
+      const goalId = getOwnedGoal(res).id;
+      const [entries, roadblocks] = await Promise.all([
+        storage.getJournalEntries(goalId),
+        storage.getRoadblocks(goalId)
+      ]);
+      const timeline = buildTimeline(entries, roadblocks);
+      
+      res.json(type ? timeline.filter(entry => entry.type === type) : timeline);
+    } catch (error) {
+      console.error("Error fetching goal journal:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch goal journal" 
       });
     }
   });
@@ -498,14 +686,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get an AI coaching message
   app.get("/api/coach/message", async (req: Request, res: Response) => {
     try {
-      // Get all goals to analyze
-      const goals = await storage.getGoals();
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      // Only the user's own goals are analyzed
+      const user = req.user as User;
+      const userId = String(user.id);
+      const goals = await storage.getGoals(userId);
+      
+      const userName = user.displayName || user.username || "there";
+      
+      // Only unresolved roadblocks are brought up
+      const openRoadblocks = (await Promise.all(goals.map(goal => getOpenRoadblocks(goal.id)))).flat();
+      
+      const timeZone = req.query.tz !== undefined ? String(req.query.tz) : undefined;
+      const activity = computeActivityStats(goals, {
+        timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined
+      });
       
-      // Get user name if authenticated (currently anonymous)
-      const userName = "there"; // Use "there" as default
+      // Focus sessions are mentioned once, in the next generated message after them
+      const focusSessions = await storage.getUnacknowledgedFocusSessions(userId);
       
-      // Generate the coaching message
-      const coachMessage = await generateCoachingMessage(goals, userName);
+      // Generate the coaching message (cached per user); it acknowledges the sessions it mentions
+      const coachMessage = await generateCoachingMessage(goals, userName, { userId, openRoadblocks, activity, focusSessions });
       
       res.json(coachMessage);
     } catch (error) {
@@ -518,29 +722,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get AI tips for overcoming a roadblock
-  app.get("/api/coach/roadblock-tips/:goalId", async (req: Request, res: Response) => {
+  app.get("/api/coach/roadblock-tips/:goalId", requireOwnedGoal(req => req.params.goalId), async (req: Request, res: Response) => {
     try {
-      const goalId = parseInt(req.params.goalId);
-      if (isNaN(goalId)) {
-        res.status(400).json({ message: "Invalid goal ID" });
-        return;
-      }
-      
-      // Get the goal
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
+      const goal = getOwnedGoal(res);
       
-      // Check if the goal has a roadblock
-      if (!goal.roadblocks) {
-        res.status(400).json({ message: "No roadblock reported for this goal" });
+      // Tips are for the most recent roadblock that is still open
+      const [roadblock] = await getOpenRoadblocks(goal.id);
+      if (!roadblock) {
+        res.status(400).json({ message: "No open roadblock reported for this goal" });
         return;
       }
       
       // Generate tips for overcoming the roadblock
-      const tips = await generateRoadblockTips(goal);
+      const tips = await generateRoadblockTips(goal, roadblock);
       
       res.json({ tips });
     } catch (error) {
@@ -552,119 +746,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update task scheduling (due date, calendar, reminders)
-  app.patch("/api/tasks/schedule", async (req: Request, res: Response) => {
+  app.patch("/api/tasks/schedule", ownedGoalInBody, async (req: Request, res: Response) => {
     try {
-      const { goalId, taskId, updates } = req.body;
+      const { taskId, updates } = req.body;
       
-      if (!goalId || !taskId || !updates) {
+      if (!taskId || !updates) {
         res.status(400).json({ message: "Missing required fields" });
         return;
       }
       
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
+      // A recurrence rule makes the task repeat; null stops it repeating
+      const recurrence = taskRecurrence.nullable().optional().parse(updates.recurrence);
+      
+      // Only the scheduling fields can be changed here
+      const updatedGoal = await storage.updateTask(getOwnedGoal(res).id, taskId, {
+        dueDate: updates.dueDate,
+        addedToCalendar: updates.addedToCalendar,
+        reminderEnabled: updates.reminderEnabled,
+        reminderTime: updates.reminderTime,
+        enableWhatsapp: updates.enableWhatsapp,
+        whatsappNumber: updates.whatsappNumber,
+        reminderFrequency: updates.reminderFrequency,
+        reminderDays: updates.reminderDays,
+        recurrence
+      });
+      
+      if (!updatedGoal) {
+        res.status(404).json({ message: "Goal or task not found" });
         return;
       }
       
-      // Find the task to update
-      const taskIndex = goal.tasks.findIndex(t => t.id === taskId);
-      if (taskIndex === -1) {
-        res.status(404).json({ message: "Task not found" });
+      res.json(updatedGoal);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
         return;
       }
       
-      // Create updated task with scheduling information
-      const updatedTask = {
-        ...goal.tasks[taskIndex],
-        ...(updates.dueDate !== undefined && { dueDate: updates.dueDate }),
-        ...(updates.addedToCalendar !== undefined && { addedToCalendar: updates.addedToCalendar }),
-        ...(updates.reminderEnabled !== undefined && { reminderEnabled: updates.reminderEnabled }),
-        ...(updates.reminderTime !== undefined && { reminderTime: updates.reminderTime })
-      };
+      console.error("Error updating task schedule:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update task schedule" 
+      });
+    }
+  });
+  
+  // Get the user's tasks due on a day, across all goals (?date=YYYY-MM-DD, default today)
+  app.get("/api/tasks/due", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
       
-      // Update the task in the goal
-      const updatedTasks = [...goal.tasks];
-      updatedTasks[taskIndex] = updatedTask;
+      const date = req.query.date !== undefined ? String(req.query.date) : toLocalDateString();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "Date must be in YYYY-MM-DD format" });
+      }
       
-      // Save the updated goal
-      const updatedGoal = await storage.updateGoal(goalId, {
-        tasks: updatedTasks
+      const dueTasks = await storage.getTasksDueOn(String((req.user as User).id), date);
+      
+      res.json(dueTasks);
+    } catch (error) {
+      console.error("Error fetching due tasks:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch due tasks" 
       });
+    }
+  });
+  
+  // A recurring task's occurrences with their completion state, from one day to another (inclusive).
+  // Defaults to the last DEFAULT_OCCURRENCE_DAYS days through today.
+  app.get("/api/goals/:id/tasks/:taskId/occurrences", ownedGoalInParams, async (req: Request, res: Response) => {
+    try {
+      const task = getOwnedGoal(res).tasks.find(t => t.id === req.params.taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!task.recurrence) {
+        return res.status(400).json({ message: "Only recurring tasks have occurrences" });
+      }
       
-      if (!updatedGoal) {
-        res.status(500).json({ message: "Failed to update task schedule" });
-        return;
+      const isDate = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
+      const to = req.query.to !== undefined ? String(req.query.to) : toLocalDateString();
+      if (!isDate(to)) {
+        return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
+      }
+      const from = req.query.from !== undefined ? String(req.query.from) : addDays(to, 1 - DEFAULT_OCCURRENCE_DAYS);
+      if (!isDate(from)) {
+        return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
+      }
+      const days = daysBetween(from, to) + 1;
+      if (days < 1 || days > MAX_OCCURRENCE_DAYS) {
+        return res.status(400).json({ message: `The range must cover 1 to ${MAX_OCCURRENCE_DAYS} days` });
       }
       
-      res.json(updatedGoal);
+      res.json(getOccurrences(task, from, to));
     } catch (error) {
-      console.error("Error updating task schedule:", error);
+      console.error("Error fetching task occurrences:", error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to update task schedule" 
+        message: error instanceof Error ? error.message : "Failed to fetch task occurrences" 
       });
     }
   });
   
-  // Update subtask scheduling (due date, calendar)
-  app.patch("/api/subtasks/schedule", async (req: Request, res: Response) => {
+  // Get the user's running timer, or null if no timer is running
+  app.get("/api/time-entries/running", async (req: Request, res: Response) => {
     try {
-      const { goalId, taskId, subtaskId, updates } = req.body;
-      
-      if (!goalId || !taskId || !subtaskId || !updates) {
-        res.status(400).json({ message: "Missing required fields" });
-        return;
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
       }
       
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
+      const entry = await storage.getRunningTimeEntry(String((req.user as User).id));
+      
+      res.json(entry ?? null);
+    } catch (error) {
+      console.error("Error fetching running timer:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch running timer" 
+      });
+    }
+  });
+  
+  // Get how long the user's completed tasks took compared to their estimates, overall and by complexity
+  app.get("/api/estimates/calibration", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
       }
       
-      // Find the task containing the subtask
-      const taskIndex = goal.tasks.findIndex(t => t.id === taskId);
-      if (taskIndex === -1) {
-        res.status(404).json({ message: "Task not found" });
-        return;
+      res.json(await getEstimateCalibration(String((req.user as User).id)));
+    } catch (error) {
+      console.error("Error computing estimate calibration:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to compute estimate calibration" 
+      });
+    }
+  });
+  
+  // Get the user's completion streaks and completions per day (?tz= for day boundaries, ?days= for how many days)
+  app.get("/api/activity", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
       }
       
-      // Find the subtask to update
-      const task = goal.tasks[taskIndex];
-      const subtaskIndex = task.subtasks.findIndex(s => s.id === subtaskId);
-      if (subtaskIndex === -1) {
-        res.status(404).json({ message: "Subtask not found" });
-        return;
+      const timeZone = req.query.tz !== undefined ? String(req.query.tz) : "UTC";
+      if (!isValidTimeZone(timeZone)) {
+        return res.status(400).json({ message: `Unknown time zone "${timeZone}"` });
       }
       
-      // Create updated subtask with scheduling information
-      const updatedSubtask = {
-        ...task.subtasks[subtaskIndex],
-        ...(updates.dueDate !== undefined && { dueDate: updates.dueDate }),
-        ...(updates.addedToCalendar !== undefined && { addedToCalendar: updates.addedToCalendar })
-      };
+      const days = req.query.days !== undefined ? Number(req.query.days) : DEFAULT_ACTIVITY_DAYS;
+      if (!Number.isInteger(days) || days < 1 || days > MAX_ACTIVITY_DAYS) {
+        return res.status(400).json({ message: `Days must be a whole number from 1 to ${MAX_ACTIVITY_DAYS}` });
+      }
       
-      // Update the subtask in the task
-      const updatedSubtasks = [...task.subtasks];
-      updatedSubtasks[subtaskIndex] = updatedSubtask;
+      const goals = await storage.getGoals(String((req.user as User).id));
       
-      // Update the task with the updated subtasks
-      const updatedTask = {
-        ...task,
-        subtasks: updatedSubtasks
-      };
+      res.json(computeActivityStats(goals, { timeZone, days }));
+    } catch (error) {
+      console.error("Error fetching activity:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch activity" 
+      });
+    }
+  });
+  
+  // Update subtask scheduling (due date, calendar)
+  app.patch("/api/subtasks/schedule", ownedGoalInBody, async (req: Request, res: Response) => {
+    try {
+      const { taskId, subtaskId, updates } = req.body;
       
-      // Update the task in the goal
-      const updatedTasks = [...goal.tasks];
-      updatedTasks[taskIndex] = updatedTask;
+      if (!taskId || !subtaskId || !updates) {
+        res.status(400).json({ message: "Missing required fields" });
+        return;
+      }
       
-      // Save the updated goal
-      const updatedGoal = await storage.updateGoal(goalId, {
-        tasks: updatedTasks
+      const updatedGoal = await storage.updateSubtask(getOwnedGoal(res).id, taskId, subtaskId, {
+        dueDate: updates.dueDate,
+        addedToCalendar: updates.addedToCalendar
       });
       
       if (!updatedGoal) {
-        res.status(500).json({ message: "Failed to update subtask schedule" });
+        res.status(404).json({ message: "Goal, task, or subtask not found" });
         return;
       }
       
@@ -677,27 +940,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // User settings update endpoint
+  // Get the user's settings: contact details and notification preferences
+  app.get("/api/user/settings", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const settings = await getUserSettings((req.user as User).id);
+      
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching user settings:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch user settings" 
+      });
+    }
+  });
+  
+  // Update the user's settings; only the fields given are changed
   app.patch("/api/user/settings", async (req: Request, res: Response) => {
     try {
-      // In a real app, this would save to user's profile in the database
-      // For now, we'll just return success since settings are stored in localStorage
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
       
-      const settings = req.body;
+      const validatedData = updateUserSettingsSchema.parse(req.body);
       
-      // Validate settings
-      if (settings.enableWhatsappNotifications && !settings.whatsappNumber) {
-        res.status(400).json({ message: "WhatsApp number is required when notifications are enabled" });
+      const settings = await updateUserSettings((req.user as User).id, validatedData);
+      
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
+      }
+      if (error instanceof UserSettingsError) {
+        res.status(error.status).json({ message: error.message });
         return;
       }
       
-      // Return success response
-      res.json({ 
-        success: true, 
-        message: "Settings updated successfully",
-        settings
-      });
-    } catch (error) {
       console.error("Error updating user settings:", error);
       res.status(500).json({ 
         message: error instanceof Error ? error.message : "Failed to update user settings" 
@@ -705,6 +988,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The user's notifications, newest first, optionally filtered by channel and status,
+  // with how many are pending, sent and failed on each channel
+  app.get("/api/notifications/log", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const query = notificationLogQuerySchema.parse(req.query);
+      
+      const log = await getDeliveryLog(String((req.user as User).id), query);
+      
+      res.json(log);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+        return;
+      }
+      
+      console.error("Error fetching notification log:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch notification log" 
+      });
+    }
+  });
+  
   // WhatsApp test message endpoint
   app.post("/api/whatsapp/test", async (req: Request, res: Response) => {
     try {
@@ -740,21 +1050,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Discuss task with AI
-  app.post("/api/coach/discuss-task", async (req: Request, res: Response) => {
+  app.post("/api/coach/discuss-task", ownedGoalInBody, async (req: Request, res: Response) => {
     try {
-      const { goalId, taskId, message } = req.body;
+      const { taskId, message } = req.body;
       
-      if (!goalId || !taskId || !message) {
+      if (!taskId || !message) {
         res.status(400).json({ message: "Goal ID, task ID, and message are required" });
         return;
       }
       
-      // Get the goal
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        res.status(404).json({ message: "Goal not found" });
-        return;
-      }
+      const goal = getOwnedGoal(res);
       
       // Find the task in the goal
       const task = goal.tasks.find(t => t.id === taskId);
@@ -775,10 +1080,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Streaming variant of discuss-task: sends "token" events as the response is generated,
+  // then a "done" event with the full response
+  app.post("/api/coach/discuss-task/stream", ownedGoalInBody, async (req: Request, res: Response) => {
+    const { taskId, message } = req.body;
+    
+    if (!taskId || !message) {
+      return res.status(400).json({ message: "Goal ID, task ID, and message are required" });
+    }
+    
+    try {
+      const goal = getOwnedGoal(res);
+      
+      const task = goal.tasks.find(t => t.id === taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      const stream = openEventStream(res);
+      try {
+        const response = await discussTaskWithAI(goal, task, message, token => {
+          stream.send("token", { text: token });
+        });
+        stream.send("done", { response });
+      } catch (error) {
+        console.error("Error streaming task discussion:", error);
+        stream.send("error", { 
+          message: error instanceof Error ? error.message : "Failed to generate AI response" 
+        });
+      } finally {
+        stream.close();
+      }
+    } catch (error) {
+      console.error("Error discussing task with AI:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to generate AI response" 
+      });
+    }
+  });
+  
   // AI Coach Chat endpoint for ADHD-friendly conversational interface
   app.post("/api/coach/chat", async (req: Request, res: Response) => {
     try {
-      const { message, goalId } = req.body;
+      const { message, goalId, conversationId } = req.body;
       
       if (!message) {
         return res.status(400).json({ message: "Message is required" });
@@ -786,7 +1130,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get user ID from authenticated user
       const userId = req.isAuthenticated() && req.user 
-        ? (req.user as any).id 
+        ? (req.user as User).id 
         : null;
       
       if (!userId) {
@@ -796,7 +1140,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const response = await processCoachChat({
         message,
         goalId,
-        userId
+        userId,
+        conversationId
       });
       
       res.json(response);
@@ -808,6 +1153,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Streaming variant of the coach chat: sends "token" events as the reply is generated,
+  // then a "done" event with the same payload /api/coach/chat returns
+  app.post("/api/coach/chat/stream", async (req: Request, res: Response) => {
+    const { message, goalId, conversationId } = req.body;
+    
+    if (!message) {
+      return res.status(400).json({ message: "Message is required" });
+    }
+    
+    const userId = req.isAuthenticated() && req.user 
+      ? (req.user as User).id 
+      : null;
+    
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const stream = openEventStream(res);
+    try {
+      const response = await processCoachChat(
+        { message, goalId, userId, conversationId },
+        token => stream.send("token", { text: token })
+      );
+      stream.send("done", response);
+    } catch (error) {
+      console.error("Error streaming coach chat:", error);
+      stream.send("error", { 
+        message: error instanceof Error ? error.message : "Failed to process chat message" 
+      });
+    } finally {
+      stream.close();
+    }
+  });
+  
+  // Approve or reject a destructive action proposed by the coach
+  app.post("/api/coach/actions/:id/:decision", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const { id, decision } = req.params;
+      if (decision !== "confirm" && decision !== "reject") {
+        return res.status(404).json({ message: "Unknown decision" });
+      }
+      
+      const userId = String((req.user as User).id);
+      const action = decision === "confirm"
+        ? await confirmCoachAction(id, userId)
+        : await rejectCoachAction(id, userId);
+      
+      res.json(action);
+    } catch (error) {
+      if (error instanceof CoachActionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      
+      console.error("Error resolving coach action:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to resolve action" 
+      });
+    }
+  });
+  
+  // List the user's coach conversations, most recent first
+  app.get("/api/coach/conversations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      // ?goalId=<id> filters to one goal, ?goalId=none to general conversations
+      let goalId: number | null | undefined = undefined;
+      if (req.query.goalId === "none") {
+        goalId = null;
+      } else if (req.query.goalId !== undefined) {
+        goalId = parseInt(String(req.query.goalId));
+        if (isNaN(goalId)) {
+          return res.status(400).json({ message: "Invalid goal ID" });
+        }
+      }
+      
+      const conversations = await storage.getConversations(String((req.user as User).id), goalId);
+      
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch conversations" 
+      });
+    }
+  });
+  
+  // Get a conversation with its messages
+  app.get("/api/coach/conversations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
+      
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || conversation.userId !== String((req.user as User).id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const messages = await storage.getConversationMessages(conversationId);
+      
+      res.json({ ...conversation, messages });
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch conversation" 
+      });
+    }
+  });
+  
+  // Delete a conversation and its messages
+  app.delete("/api/coach/conversations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
+      
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || conversation.userId !== String((req.user as User).id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      await storage.deleteConversation(conversationId);
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to delete conversation" 
+      });
+    }
+  });
+  
   // API endpoint to analyze task difficulty
   app.post("/api/tasks/analyze-difficulty", async (req: Request, res: Response) => {
     try {
@@ -817,10 +1311,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Task title is required" });
       }
       
+      // Estimates are calibrated to the logged-in user's actual task times
+      const calibration = req.isAuthenticated() && req.user
+        ? await getEstimateCalibration(String((req.user as User).id))
+        : undefined;
+      
       const { analyzeTaskDifficulty } = await import('./llm/task-difficulty');
-      const complexity = await analyzeTaskDifficulty(taskTitle, context);
+      const difficulty = await analyzeTaskDifficulty(taskTitle, context, calibration);
       
-      res.json({ complexity });
+      res.json(difficulty);
     } catch (error) {
       console.error("Error analyzing task difficulty:", error);
       res.status(500).json({ 
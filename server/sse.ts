@@ -0,0 +1,41 @@
+import type { Response } from "express";
+
+/**
+ * A Server-Sent Events stream written to an Express response
+ */
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+}
+
+/**
+ * Switch a response into an SSE stream. Each event's data is sent as JSON.
+ */
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Stop reverse proxies from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  // The client may disconnect before the response is finished
+  res.on("close", () => {
+    closed = true;
+  });
+
+  return {
+    send: (event, data) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      res.end();
+    }
+  };
+}
@@ -0,0 +1,724 @@
+import { 
+  goals, type Goal, type InsertGoal, 
+  goalTasks, goalSubtasks, taskOccurrences, type Task, type TaskUpdate, type SubtaskUpdate, type DueTask,
+  users, type User, type InsertUser,
+  userSettings, type UserSettings, type UserSettingsUpdate,
+  reminderDeliveries, type InsertReminderDelivery,
+  digestDeliveries,
+  notificationOutbox, type OutboxNotification, type InsertOutboxNotification, type OutboxNotificationUpdate,
+  type NotificationLogQuery, type NotificationChannelName, type NotificationStatus,
+  goalJournalEntries, type GoalJournalEntry, type InsertGoalJournalEntry,
+  goalRoadblocks, type Roadblock, type InsertRoadblock, type RoadblockUpdate,
+  timeEntries, type TimeEntry, type InsertTimeEntry,
+  focusSessions, type FocusSession, type InsertFocusSession,
+  conversations, type Conversation, type InsertConversation,
+  conversationMessages, type ConversationMessage, type InsertConversationMessage,
+  pendingCoachActions, type PendingCoachAction, type InsertPendingCoachAction
+} from "@shared/schema";
+import { eq, and, or, asc, desc, lte, isNull, isNotNull, inArray, like, sql, type SQL, type Column } from "drizzle-orm";
+import { type Database } from "../db";
+import { type IStorage } from "./index";
+import { calculateProgress, stampCompletions } from "./progress";
+import { toTask, toTaskRows, toOccurrence } from "./task-rows";
+import { getTaskState } from "@shared/task-dependencies";
+import { occursOn, isOccurrenceCompleted, toLocalDateString } from "@shared/recurrence";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Drizzle rejects updates with no values to set
+function withoutUndefined<T extends object>(updates: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Lock a goal's row until the transaction ends, so concurrent changes to its tasks
+ * can't both recalculate progress from stale rows. Returns false if the goal doesn't exist.
+ */
+async function lockGoal(tx: Transaction, goalId: number): Promise<boolean> {
+  const [goal] = await tx.select({ id: goals.id }).from(goals).where(eq(goals.id, goalId)).for("update");
+  return !!goal;
+}
+
+async function taskExists(db: Database | Transaction, goalId: number, taskId: string): Promise<boolean> {
+  const [task] = await db
+    .select({ id: goalTasks.id })
+    .from(goalTasks)
+    .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId)));
+  return !!task;
+}
+
+async function insertTasks(tx: Transaction, goalId: number, tasks: Task[], startPosition = 0): Promise<void> {
+  const { taskRows, subtaskRows, occurrenceRows } = toTaskRows(goalId, tasks, startPosition);
+  if (taskRows.length > 0) await tx.insert(goalTasks).values(taskRows);
+  if (subtaskRows.length > 0) await tx.insert(goalSubtasks).values(subtaskRows);
+  if (occurrenceRows.length > 0) await tx.insert(taskOccurrences).values(occurrenceRows);
+}
+
+// Stops a running timer, with its duration in whole seconds
+const stoppedTimer = {
+  stoppedAt: sql`now()`,
+  durationSeconds: sql`round(extract(epoch from now() - ${timeEntries.startedAt}))::integer`
+};
+
+// Completing keeps an earlier completion time (completing twice isn't a new completion); reopening clears it
+function completionTime(column: Column, completed: boolean): SQL | null {
+  return completed ? sql`coalesce(${column}, now())` : null;
+}
+
+// Recalculate the goal's progress percentage from its tasks and the occurrences of its recurring tasks
+async function updateProgress(tx: Transaction, goalId: number): Promise<void> {
+  const taskRows = await tx.query.goalTasks.findMany({
+    where: eq(goalTasks.goalId, goalId),
+    columns: { completed: true, recurrence: true },
+    with: { occurrences: { columns: { date: true, completedAt: true } } }
+  });
+  const progress = calculateProgress(taskRows.map(row => ({
+    completed: row.completed,
+    recurrence: row.recurrence,
+    occurrences: row.occurrences.map(toOccurrence)
+  })));
+  await tx.update(goals).set({ progress }).where(eq(goals.id, goalId));
+}
+
+/**
+ * PostgreSQL storage (Neon) - the default
+ */
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.googleId, googleId));
+    return user || undefined;
+  }
+
+  async createUser(userData: Partial<InsertUser>): Promise<User> {
+    // Make sure we have a username at minimum
+    if (!userData.username) {
+      throw new Error('Username is required');
+    }
+
+    // If email is missing but we have a googleId, generate an email
+    if (!userData.email && userData.googleId) {
+      userData.email = `${userData.username}@taskbreaker.app`;
+    }
+
+    const [user] = await this.db
+      .insert(users)
+      .values(userData as any)
+      .returning();
+    return user;
+  }
+
+  async getUserSettings(userId: number): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings || undefined;
+  }
+
+  async saveUserSettings(userId: number, updates: UserSettingsUpdate): Promise<UserSettings> {
+    const values = withoutUndefined(updates);
+    const [settings] = await this.db
+      .insert(userSettings)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...values, updatedAt: new Date() }
+      })
+      .returning();
+    return settings;
+  }
+
+  async getGoals(userId?: string): Promise<Goal[]> {
+    return await this.findGoals(userId ? eq(goals.userId, userId) : undefined);
+  }
+
+  async getGoal(id: number): Promise<Goal | undefined> {
+    const [goal] = await this.findGoals(eq(goals.id, id));
+    return goal;
+  }
+
+  // Load goals with their tasks and subtasks, nested in position order
+  private async findGoals(where?: SQL): Promise<Goal[]> {
+    const goalRows = await this.db.query.goals.findMany({
+      where,
+      columns: { legacyTasks: false },
+      with: {
+        tasks: {
+          orderBy: [asc(goalTasks.position)],
+          with: { subtasks: { orderBy: [asc(goalSubtasks.position)] }, occurrences: true }
+        }
+      }
+    });
+
+    return goalRows.map(({ tasks, ...goal }) => ({ ...goal, tasks: tasks.map(toTask) }));
+  }
+
+  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
+    // Remove any existing createdAt field to avoid conflicts
+    const { createdAt, tasks, ...insertData } = insertGoal;
+    
+    const goalId = await this.db.transaction(async (tx) => {
+      const [goal] = await tx
+        .insert(goals)
+        .values({
+          ...insertData,
+          createdAt: new Date().toISOString() // Ensure we have a date
+        })
+        .returning({ id: goals.id });
+      await insertTasks(tx, goal.id, tasks);
+      return goal.id;
+    });
+
+    return (await this.getGoal(goalId))!;
+  }
+
+  async updateGoal(id: number, updates: Partial<Goal>): Promise<Goal | undefined> {
+    const { id: _id, tasks, ...goalUpdates } = updates;
+
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await lockGoal(tx, id))) return false;
+
+      if (Object.values(goalUpdates).some(value => value !== undefined)) {
+        await tx.update(goals).set(goalUpdates).where(eq(goals.id, id));
+      }
+
+      // Replacing the whole task list - prefer the task methods, which only touch one row
+      if (tasks) {
+        const previousTasks = await tx.query.goalTasks.findMany({
+          where: eq(goalTasks.goalId, id),
+          with: { subtasks: true, occurrences: true }
+        });
+        await tx.delete(goalTasks).where(eq(goalTasks.goalId, id));
+        await insertTasks(tx, id, stampCompletions(previousTasks.map(toTask), tasks));
+        await updateProgress(tx, id);
+      }
+      return true;
+    });
+
+    return found ? await this.getGoal(id) : undefined;
+  }
+
+  async deleteGoal(id: number): Promise<boolean> {
+    // Tasks, subtasks, journal entries, roadblocks and time entries are removed by the ON DELETE CASCADE foreign keys
+    const [deletedGoal] = await this.db
+      .delete(goals)
+      .where(eq(goals.id, id))
+      .returning({ id: goals.id });
+    return !!deletedGoal;
+  }
+
+  async updateTaskCompletion(goalId: number, taskId: string, completed: boolean, date = toLocalDateString()): Promise<Goal | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await lockGoal(tx, goalId))) return false;
+
+      const [recurringTask] = await tx
+        .select({ id: goalTasks.id })
+        .from(goalTasks)
+        .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId), isNotNull(goalTasks.recurrence)));
+
+      // A recurring task is completed one occurrence at a time
+      if (recurringTask) {
+        if (completed) {
+          await tx.insert(taskOccurrences).values({ taskId, date }).onConflictDoNothing();
+        } else {
+          await tx
+            .delete(taskOccurrences)
+            .where(and(eq(taskOccurrences.taskId, taskId), eq(taskOccurrences.date, date)));
+        }
+        await updateProgress(tx, goalId);
+        return true;
+      }
+
+      const [task] = await tx
+        .update(goalTasks)
+        .set({ completed, completedAt: completionTime(goalTasks.completedAt, completed) })
+        .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId)))
+        .returning({ id: goalTasks.id });
+      if (!task) return false;
+
+      await updateProgress(tx, goalId);
+      return true;
+    });
+
+    return found ? await this.getGoal(goalId) : undefined;
+  }
+
+  async updateSubtaskCompletion(goalId: number, taskId: string, subtaskId: string, completed: boolean): Promise<Goal | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await lockGoal(tx, goalId)) || !(await taskExists(tx, goalId, taskId))) return false;
+
+      const [subtask] = await tx
+        .update(goalSubtasks)
+        .set({ completed, completedAt: completionTime(goalSubtasks.completedAt, completed) })
+        .where(and(eq(goalSubtasks.taskId, taskId), eq(goalSubtasks.id, subtaskId)))
+        .returning({ id: goalSubtasks.id });
+      if (!subtask) return false;
+
+      // If all subtasks are completed, mark the parent task as completed too.
+      // Recurring tasks are completed one occurrence at a time instead.
+      const subtaskRows = await tx
+        .select({ completed: goalSubtasks.completed })
+        .from(goalSubtasks)
+        .where(eq(goalSubtasks.taskId, taskId));
+      const taskCompleted = subtaskRows.every(row => row.completed);
+      await tx
+        .update(goalTasks)
+        .set({ completed: taskCompleted, completedAt: completionTime(goalTasks.completedAt, taskCompleted) })
+        .where(and(eq(goalTasks.id, taskId), isNull(goalTasks.recurrence)));
+
+      await updateProgress(tx, goalId);
+      return true;
+    });
+
+    return found ? await this.getGoal(goalId) : undefined;
+  }
+
+  async addTask(goalId: number, task: Task): Promise<Goal | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await lockGoal(tx, goalId))) return false;
+
+      // Append after the goal's last task
+      const [{ lastPosition }] = await tx
+        .select({ lastPosition: sql<number>`coalesce(max(${goalTasks.position}), -1)::int` })
+        .from(goalTasks)
+        .where(eq(goalTasks.goalId, goalId));
+      await insertTasks(tx, goalId, [task], lastPosition + 1);
+
+      await updateProgress(tx, goalId);
+      return true;
+    });
+
+    return found ? await this.getGoal(goalId) : undefined;
+  }
+
+  async updateTask(goalId: number, taskId: string, updates: TaskUpdate): Promise<Goal | undefined> {
+    const changes = withoutUndefined(updates);
+
+    // Whether a task repeats changes how it counts towards the goal's progress
+    if (changes.recurrence !== undefined) {
+      const found = await this.db.transaction(async (tx) => {
+        if (!(await lockGoal(tx, goalId))) return false;
+
+        const [task] = await tx
+          .update(goalTasks)
+          .set(changes)
+          .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId)))
+          .returning({ id: goalTasks.id });
+        if (!task) return false;
+
+        await updateProgress(tx, goalId);
+        return true;
+      });
+      return found ? await this.getGoal(goalId) : undefined;
+    }
+
+    const [task] = Object.keys(changes).length > 0
+      ? await this.db
+          .update(goalTasks)
+          .set(changes)
+          .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId)))
+          .returning({ id: goalTasks.id })
+      : await this.db
+          .select({ id: goalTasks.id })
+          .from(goalTasks)
+          .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId)));
+
+    return task ? await this.getGoal(goalId) : undefined;
+  }
+
+  async removeTask(goalId: number, taskId: string): Promise<Goal | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await lockGoal(tx, goalId))) return false;
+
+      // Subtasks are removed by the ON DELETE CASCADE foreign key
+      const [task] = await tx
+        .delete(goalTasks)
+        .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.id, taskId)))
+        .returning({ id: goalTasks.id });
+      if (!task) return false;
+
+      // Tasks that depended on the removed task no longer wait for it
+      await tx
+        .update(goalTasks)
+        .set({ dependsOn: sql`${goalTasks.dependsOn} - ${taskId}::text` })
+        .where(and(eq(goalTasks.goalId, goalId), sql`${goalTasks.dependsOn} @> ${JSON.stringify([taskId])}::jsonb`));
+
+      await updateProgress(tx, goalId);
+      return true;
+    });
+
+    return found ? await this.getGoal(goalId) : undefined;
+  }
+
+  async updateSubtask(goalId: number, taskId: string, subtaskId: string, updates: SubtaskUpdate): Promise<Goal | undefined> {
+    if (!(await taskExists(this.db, goalId, taskId))) return undefined;
+
+    const changes = withoutUndefined(updates);
+    const subtaskWhere = and(eq(goalSubtasks.taskId, taskId), eq(goalSubtasks.id, subtaskId));
+    const [subtask] = Object.keys(changes).length > 0
+      ? await this.db.update(goalSubtasks).set(changes).where(subtaskWhere).returning({ id: goalSubtasks.id })
+      : await this.db.select({ id: goalSubtasks.id }).from(goalSubtasks).where(subtaskWhere);
+
+    return subtask ? await this.getGoal(goalId) : undefined;
+  }
+
+  async getTasksDueOn(userId: string, date: string): Promise<DueTask[]> {
+    // Due dates are ISO strings, either a date or a date and time.
+    // Recurring tasks are due on the days they occur on.
+    const candidates = await this.db
+      .select({ task: goalTasks, goalTitle: goals.title })
+      .from(goalTasks)
+      .innerJoin(goals, eq(goalTasks.goalId, goals.id))
+      .where(and(
+        eq(goals.userId, userId),
+        or(like(goalTasks.dueDate, `${date}%`), isNotNull(goalTasks.recurrence))
+      ))
+      .orderBy(asc(goalTasks.goalId), asc(goalTasks.position));
+    const rows = candidates.filter(({ task }) => !task.recurrence || occursOn(task.recurrence, date));
+    if (rows.length === 0) return [];
+
+    const taskIds = rows.map(row => row.task.id);
+    const subtaskRows = await this.db
+      .select()
+      .from(goalSubtasks)
+      .where(inArray(goalSubtasks.taskId, taskIds))
+      .orderBy(asc(goalSubtasks.position));
+    const occurrenceRows = await this.db
+      .select()
+      .from(taskOccurrences)
+      .where(inArray(taskOccurrences.taskId, taskIds));
+
+    // The state of a task depends on whether the tasks it depends on, in the same goal, are done
+    const goalTaskRows = await this.db
+      .select({ id: goalTasks.id, goalId: goalTasks.goalId, completed: goalTasks.completed })
+      .from(goalTasks)
+      .where(inArray(goalTasks.goalId, Array.from(new Set(rows.map(row => row.task.goalId)))));
+
+    return rows.map(({ task: row, goalTitle }) => {
+      const task = toTask({
+        ...row,
+        subtasks: subtaskRows.filter(subtask => subtask.taskId === row.id),
+        occurrences: occurrenceRows.filter(occurrence => occurrence.taskId === row.id)
+      });
+      // A recurring task is done for the day once that day's occurrence is completed
+      const completed = task.recurrence ? isOccurrenceCompleted(task, date) : task.completed;
+      return {
+        goalId: row.goalId,
+        goalTitle,
+        task,
+        state: getTaskState(goalTaskRows.filter(other => other.goalId === row.goalId), {
+          id: task.id,
+          completed,
+          dependsOn: task.dependsOn
+        })
+      };
+    });
+  }
+
+
+  async addJournalEntry(entry: InsertGoalJournalEntry): Promise<GoalJournalEntry> {
+    const [savedEntry] = await this.db
+      .insert(goalJournalEntries)
+      .values(entry)
+      .returning();
+    return savedEntry;
+  }
+
+  async getJournalEntries(goalId: number): Promise<GoalJournalEntry[]> {
+    return await this.db
+      .select()
+      .from(goalJournalEntries)
+      .where(eq(goalJournalEntries.goalId, goalId))
+      .orderBy(desc(goalJournalEntries.id));
+  }
+
+  async createRoadblock(roadblock: InsertRoadblock): Promise<Roadblock> {
+    const [savedRoadblock] = await this.db
+      .insert(goalRoadblocks)
+      .values(roadblock)
+      .returning();
+    return savedRoadblock;
+  }
+
+  async getRoadblock(id: number): Promise<Roadblock | undefined> {
+    const [roadblock] = await this.db.select().from(goalRoadblocks).where(eq(goalRoadblocks.id, id));
+    return roadblock || undefined;
+  }
+
+  async getRoadblocks(goalId: number): Promise<Roadblock[]> {
+    return await this.db
+      .select()
+      .from(goalRoadblocks)
+      .where(eq(goalRoadblocks.goalId, goalId))
+      .orderBy(desc(goalRoadblocks.id));
+  }
+
+  async updateRoadblock(id: number, updates: RoadblockUpdate): Promise<Roadblock | undefined> {
+    const [updatedRoadblock] = await this.db
+      .update(goalRoadblocks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(goalRoadblocks.id, id))
+      .returning();
+    return updatedRoadblock || undefined;
+  }
+
+  async startTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(timeEntries)
+        .set(stoppedTimer)
+        .where(and(eq(timeEntries.userId, entry.userId), isNull(timeEntries.stoppedAt)));
+
+      const [savedEntry] = await tx.insert(timeEntries).values(entry).returning();
+      return savedEntry;
+    });
+  }
+
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    const [entry] = await this.db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry || undefined;
+  }
+
+  async getTimeEntries(goalId: number): Promise<TimeEntry[]> {
+    return await this.db
+      .select()
+      .from(timeEntries)
+      .where(eq(timeEntries.goalId, goalId))
+      .orderBy(desc(timeEntries.id));
+  }
+
+  async getUserTimeEntries(userId: string): Promise<TimeEntry[]> {
+    return await this.db
+      .select()
+      .from(timeEntries)
+      .where(eq(timeEntries.userId, userId))
+      .orderBy(desc(timeEntries.id));
+  }
+
+  async getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.stoppedAt)));
+    return entry || undefined;
+  }
+
+  async stopTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    const [stoppedEntry] = await this.db
+      .update(timeEntries)
+      .set(stoppedTimer)
+      .where(and(eq(timeEntries.id, id), isNull(timeEntries.stoppedAt)))
+      .returning();
+    return stoppedEntry || await this.getTimeEntry(id);
+  }
+
+  async createFocusSession(session: InsertFocusSession): Promise<FocusSession> {
+    const [savedSession] = await this.db.insert(focusSessions).values(session).returning();
+    return savedSession;
+  }
+
+  async getFocusSessions(goalId: number): Promise<FocusSession[]> {
+    return await this.db
+      .select()
+      .from(focusSessions)
+      .where(eq(focusSessions.goalId, goalId))
+      .orderBy(desc(focusSessions.id));
+  }
+
+  async getUnacknowledgedFocusSessions(userId: string): Promise<FocusSession[]> {
+    return await this.db
+      .select()
+      .from(focusSessions)
+      .where(and(eq(focusSessions.userId, userId), isNull(focusSessions.acknowledgedAt)))
+      .orderBy(asc(focusSessions.id));
+  }
+
+  async acknowledgeFocusSessions(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db
+      .update(focusSessions)
+      .set({ acknowledgedAt: new Date() })
+      .where(and(inArray(focusSessions.id, ids), isNull(focusSessions.acknowledgedAt)));
+  }
+
+  async claimReminderDelivery(delivery: InsertReminderDelivery): Promise<boolean> {
+    // The unique index on (task_id, occurrence_key) makes this an atomic claim
+    const [claimed] = await this.db
+      .insert(reminderDeliveries)
+      .values(delivery)
+      .onConflictDoNothing()
+      .returning({ id: reminderDeliveries.id });
+    return !!claimed;
+  }
+
+  async claimDigestDelivery(userId: string, dateKey: string): Promise<boolean> {
+    // The unique index on (user_id, date_key) makes this an atomic claim
+    const [claimed] = await this.db
+      .insert(digestDeliveries)
+      .values({ userId, dateKey })
+      .onConflictDoNothing()
+      .returning({ id: digestDeliveries.id });
+    return !!claimed;
+  }
+
+  async createOutboxNotifications(notifications: InsertOutboxNotification[]): Promise<OutboxNotification[]> {
+    if (notifications.length === 0) return [];
+    return await this.db.insert(notificationOutbox).values(notifications).returning();
+  }
+
+  async claimDueOutboxNotifications(now: Date, limit: number, claimedUntil: Date): Promise<OutboxNotification[]> {
+    // Rows another worker is claiming are skipped rather than waited for
+    const dueIds = this.db
+      .select({ id: notificationOutbox.id })
+      .from(notificationOutbox)
+      .where(and(eq(notificationOutbox.status, "pending"), lte(notificationOutbox.nextAttemptAt, now)))
+      .orderBy(asc(notificationOutbox.nextAttemptAt), asc(notificationOutbox.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    const claimed = await this.db
+      .update(notificationOutbox)
+      .set({ nextAttemptAt: claimedUntil })
+      .where(inArray(notificationOutbox.id, dueIds))
+      .returning();
+    return claimed.sort((a, b) => a.id - b.id);
+  }
+
+  async updateOutboxNotification(id: number, updates: OutboxNotificationUpdate): Promise<void> {
+    await this.db.update(notificationOutbox).set(updates).where(eq(notificationOutbox.id, id));
+  }
+
+  async getOutboxNotifications(userId: string, query: NotificationLogQuery): Promise<OutboxNotification[]> {
+    const conditions = [eq(notificationOutbox.userId, userId)];
+    if (query.channel) {
+      conditions.push(eq(notificationOutbox.channel, query.channel));
+    }
+    if (query.status) {
+      conditions.push(eq(notificationOutbox.status, query.status));
+    }
+
+    return await this.db
+      .select()
+      .from(notificationOutbox)
+      .where(and(...conditions))
+      .orderBy(desc(notificationOutbox.id))
+      .limit(query.limit);
+  }
+
+  async countOutboxNotifications(userId: string): Promise<{ channel: NotificationChannelName; status: NotificationStatus; count: number }[]> {
+    return await this.db
+      .select({
+        channel: notificationOutbox.channel,
+        status: notificationOutbox.status,
+        count: sql<number>`count(*)::int`
+      })
+      .from(notificationOutbox)
+      .where(eq(notificationOutbox.userId, userId))
+      .groupBy(notificationOutbox.channel, notificationOutbox.status);
+  }
+
+  async getConversations(userId: string, goalId?: number | null): Promise<Conversation[]> {
+    // goalId undefined = all conversations, null = general (non-goal) conversations only
+    const conditions = [eq(conversations.userId, userId)];
+    if (goalId === null) {
+      conditions.push(isNull(conversations.goalId));
+    } else if (goalId !== undefined) {
+      conditions.push(eq(conversations.goalId, goalId));
+    }
+    
+    return await this.db
+      .select()
+      .from(conversations)
+      .where(and(...conditions))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation || undefined;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db
+      .insert(conversations)
+      .values(insertConversation)
+      .returning();
+    return conversation;
+  }
+
+  async deleteConversation(id: number): Promise<boolean> {
+    // Messages are removed by the ON DELETE CASCADE foreign key
+    const [deletedConversation] = await this.db
+      .delete(conversations)
+      .where(eq(conversations.id, id))
+      .returning({ id: conversations.id });
+    return !!deletedConversation;
+  }
+
+  async getConversationMessages(conversationId: number, limit?: number): Promise<ConversationMessage[]> {
+    const query = this.db
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(desc(conversationMessages.id));
+    
+    // Fetch newest first so the limit keeps the most recent messages, then restore chronological order
+    const messages = limit ? await query.limit(limit) : await query;
+    return messages.reverse();
+  }
+
+  async addConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage> {
+    const [savedMessage] = await this.db
+      .insert(conversationMessages)
+      .values(message)
+      .returning();
+    
+    // Bump the conversation so the most recently used thread sorts first
+    await this.db
+      .update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, message.conversationId));
+    
+    return savedMessage;
+  }
+
+  async createPendingCoachAction(action: InsertPendingCoachAction): Promise<PendingCoachAction> {
+    const [pendingAction] = await this.db
+      .insert(pendingCoachActions)
+      .values(action)
+      .returning();
+    return pendingAction;
+  }
+
+  async getPendingCoachAction(id: string): Promise<PendingCoachAction | undefined> {
+    const [pendingAction] = await this.db.select().from(pendingCoachActions).where(eq(pendingCoachActions.id, id));
+    return pendingAction || undefined;
+  }
+
+  async resolvePendingCoachAction(id: string, status: "approved" | "rejected"): Promise<PendingCoachAction | undefined> {
+    // Only pending actions can be resolved, so an action is never executed twice
+    const [resolvedAction] = await this.db
+      .update(pendingCoachActions)
+      .set({ status, resolvedAt: new Date() })
+      .where(and(eq(pendingCoachActions.id, id), eq(pendingCoachActions.status, "pending")))
+      .returning();
+    return resolvedAction || undefined;
+  }
+}
+
@@ -0,0 +1,126 @@
+import { 
+  type Goal, type InsertGoal,
+  type Task, type TaskUpdate, type SubtaskUpdate, type DueTask,
+  type User, type InsertUser,
+  type UserSettings, type UserSettingsUpdate,
+  type InsertReminderDelivery,
+  type OutboxNotification, type InsertOutboxNotification, type OutboxNotificationUpdate,
+  type NotificationLogQuery, type NotificationChannelName, type NotificationStatus,
+  type GoalJournalEntry, type InsertGoalJournalEntry,
+  type Roadblock, type InsertRoadblock, type RoadblockUpdate,
+  type TimeEntry, type InsertTimeEntry,
+  type FocusSession, type InsertFocusSession,
+  type Conversation, type InsertConversation,
+  type ConversationMessage, type InsertConversationMessage,
+  type PendingCoachAction, type InsertPendingCoachAction
+} from "@shared/schema";
+import { connectDatabase } from "../db";
+import { DatabaseStorage } from "./database";
+import { MemStorage } from "./memory";
+import { SqliteStorage } from "./sqlite";
+
+export { DatabaseStorage, MemStorage, SqliteStorage };
+
+export interface IStorage {
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByGoogleId(googleId: string): Promise<User | undefined>;
+  createUser(user: Partial<InsertUser>): Promise<User>;
+  getUserSettings(userId: number): Promise<UserSettings | undefined>;
+  // Creates the user's settings on first save; only the fields given are changed
+  saveUserSettings(userId: number, updates: UserSettingsUpdate): Promise<UserSettings>;
+  
+  getGoals(userId?: string): Promise<Goal[]>;
+  getGoal(id: number): Promise<Goal | undefined>;
+  createGoal(goal: InsertGoal): Promise<Goal>;
+  updateGoal(id: number, goal: Partial<Goal>): Promise<Goal | undefined>;
+  deleteGoal(id: number): Promise<boolean>;
+  
+  // Recurring tasks are completed one occurrence at a time, on the given day (YYYY-MM-DD, today by default)
+  updateTaskCompletion(goalId: number, taskId: string, completed: boolean, date?: string): Promise<Goal | undefined>;
+  updateSubtaskCompletion(goalId: number, taskId: string, subtaskId: string, completed: boolean): Promise<Goal | undefined>;
+  
+  // Task changes return the updated goal, or undefined if the goal, task or subtask doesn't exist
+  addTask(goalId: number, task: Task): Promise<Goal | undefined>;
+  updateTask(goalId: number, taskId: string, updates: TaskUpdate): Promise<Goal | undefined>;
+  removeTask(goalId: number, taskId: string): Promise<Goal | undefined>;
+  updateSubtask(goalId: number, taskId: string, subtaskId: string, updates: SubtaskUpdate): Promise<Goal | undefined>;
+  // Tasks across all of the user's goals with a due date on the given day (YYYY-MM-DD),
+  // and recurring tasks that occur on it
+  getTasksDueOn(userId: string, date: string): Promise<DueTask[]>;
+  
+  addJournalEntry(entry: InsertGoalJournalEntry): Promise<GoalJournalEntry>;
+  // Newest first
+  getJournalEntries(goalId: number): Promise<GoalJournalEntry[]>;
+  
+  createRoadblock(roadblock: InsertRoadblock): Promise<Roadblock>;
+  getRoadblock(id: number): Promise<Roadblock | undefined>;
+  // Newest first
+  getRoadblocks(goalId: number): Promise<Roadblock[]>;
+  updateRoadblock(id: number, updates: RoadblockUpdate): Promise<Roadblock | undefined>;
+  
+  // Starts a timer, stopping the user's running timer first: a user times one thing at a time
+  startTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
+  getTimeEntry(id: number): Promise<TimeEntry | undefined>;
+  // Newest first
+  getTimeEntries(goalId: number): Promise<TimeEntry[]>;
+  // Across all of the user's goals, newest first
+  getUserTimeEntries(userId: string): Promise<TimeEntry[]>;
+  getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined>;
+  // Stops a running timer; a stopped one is returned unchanged
+  stopTimeEntry(id: number): Promise<TimeEntry | undefined>;
+  
+  createFocusSession(session: InsertFocusSession): Promise<FocusSession>;
+  // Newest first
+  getFocusSessions(goalId: number): Promise<FocusSession[]>;
+  // Sessions the coach hasn't mentioned yet, across all of the user's goals, oldest first
+  getUnacknowledgedFocusSessions(userId: string): Promise<FocusSession[]>;
+  acknowledgeFocusSessions(ids: number[]): Promise<void>;
+  
+  // Returns false if this reminder occurrence was already claimed (i.e. sent)
+  claimReminderDelivery(delivery: InsertReminderDelivery): Promise<boolean>;
+  // Returns false if the user's digest for this day was already claimed (i.e. sent)
+  claimDigestDelivery(userId: string, dateKey: string): Promise<boolean>;
+  
+  createOutboxNotifications(notifications: InsertOutboxNotification[]): Promise<OutboxNotification[]>;
+  // Claim pending notifications whose next attempt is due by the given time, oldest first, by moving their
+  // next attempt to claimedUntil. No one else gets them until then, and they're retried then if never updated.
+  claimDueOutboxNotifications(now: Date, limit: number, claimedUntil: Date): Promise<OutboxNotification[]>;
+  updateOutboxNotification(id: number, updates: OutboxNotificationUpdate): Promise<void>;
+  // The user's notifications, newest first
+  getOutboxNotifications(userId: string, query: NotificationLogQuery): Promise<OutboxNotification[]>;
+  countOutboxNotifications(userId: string): Promise<{ channel: NotificationChannelName; status: NotificationStatus; count: number }[]>;
+  
+  getConversations(userId: string, goalId?: number | null): Promise<Conversation[]>;
+  getConversation(id: number): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  deleteConversation(id: number): Promise<boolean>;
+  getConversationMessages(conversationId: number, limit?: number): Promise<ConversationMessage[]>;
+  addConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage>;
+  
+  createPendingCoachAction(action: InsertPendingCoachAction): Promise<PendingCoachAction>;
+  getPendingCoachAction(id: string): Promise<PendingCoachAction | undefined>;
+  // Returns undefined if the action was already resolved
+  resolvePendingCoachAction(id: string, status: "approved" | "rejected"): Promise<PendingCoachAction | undefined>;
+}
+
+export type StorageDriver = "postgres" | "sqlite" | "memory";
+
+// Selected with STORAGE_DRIVER (default: postgres, which needs DATABASE_URL)
+export const storageDriver = (process.env.STORAGE_DRIVER || "postgres") as StorageDriver;
+
+function createStorage(driver: StorageDriver): IStorage {
+  switch (driver) {
+    case "postgres":
+      return new DatabaseStorage(connectDatabase().db);
+    case "sqlite":
+      return new SqliteStorage(process.env.SQLITE_PATH || "data/taskbreaker.sqlite");
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use postgres, sqlite or memory.`);
+  }
+}
+
+export const storage = createStorage(storageDriver);
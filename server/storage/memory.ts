@@ -0,0 +1,50 @@
+import { RecordStorage, type RecordStore } from "./records";
+
+/**
+ * RecordStore that keeps everything in memory
+ */
+class MemoryRecordStore implements RecordStore {
+  private collections = new Map<string, Map<string, unknown>>();
+  private sequences = new Map<string, number>();
+
+  private collection(name: string): Map<string, unknown> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+
+  list<T>(collection: string): T[] {
+    return Array.from(this.collection(collection).values()).map(record => structuredClone(record) as T);
+  }
+
+  get<T>(collection: string, id: string | number): T | undefined {
+    const record = this.collection(collection).get(String(id));
+    return record === undefined ? undefined : structuredClone(record) as T;
+  }
+
+  put<T>(collection: string, id: string | number, record: T): void {
+    this.collection(collection).set(String(id), structuredClone(record));
+  }
+
+  remove(collection: string, id: string | number): boolean {
+    return this.collection(collection).delete(String(id));
+  }
+
+  nextId(collection: string): number {
+    const id = (this.sequences.get(collection) || 0) + 1;
+    this.sequences.set(collection, id);
+    return id;
+  }
+}
+
+/**
+ * In-memory storage for tests and local development. Everything is lost on restart.
+ */
+export class MemStorage extends RecordStorage {
+  constructor() {
+    super(new MemoryRecordStore());
+  }
+}
@@ -0,0 +1,39 @@
+import { isNotNull } from "drizzle-orm";
+import { goals, goalRoadblocks } from "@shared/schema";
+import { connectDatabase, type Database } from "../db";
+
+/**
+ * Turn the free-text roadblock stored on goals.roadblocks into an open roadblock row.
+ * Goals that already have roadblock rows are skipped, so the migration can be re-run safely.
+ * @returns The number of goals migrated
+ */
+export async function migrateLegacyRoadblocks(db: Database): Promise<number> {
+  const legacyGoals = await db
+    .select({ id: goals.id, roadblocks: goals.roadblocks })
+    .from(goals)
+    .where(isNotNull(goals.roadblocks));
+
+  const migratedGoalIds = new Set(
+    (await db.selectDistinct({ goalId: goalRoadblocks.goalId }).from(goalRoadblocks)).map(row => row.goalId)
+  );
+
+  let count = 0;
+  for (const goal of legacyGoals) {
+    if (!goal.roadblocks || migratedGoalIds.has(goal.id)) continue;
+
+    await db.insert(goalRoadblocks).values({ goalId: goal.id, description: goal.roadblocks });
+    count++;
+  }
+
+  return count;
+}
+
+// Run with `npm run db:migrate-roadblocks`, after `npm run db:push` has created the roadblocks table
+const { pool, db } = connectDatabase();
+migrateLegacyRoadblocks(db)
+  .then(count => console.log(`Migrated the roadblocks of ${count} goal${count === 1 ? "" : "s"}`))
+  .catch(error => {
+    console.error("Failed to migrate roadblocks:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
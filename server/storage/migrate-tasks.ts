@@ -0,0 +1,49 @@
+import { eq, isNotNull } from "drizzle-orm";
+import { goals, goalTasks, goalSubtasks, taskOccurrences } from "@shared/schema";
+import { connectDatabase, type Database } from "../db";
+import { toTaskRows } from "./task-rows";
+
+/**
+ * Move tasks stored as JSON in goals.tasks into the tasks and subtasks tables.
+ * Each goal is migrated in its own transaction and its JSON is cleared, so the migration can be re-run safely.
+ * A task or subtask id that's already taken fails the goal's transaction, leaving its JSON in place.
+ * @returns The number of goals migrated
+ */
+export async function migrateLegacyTasks(db: Database): Promise<number> {
+  const legacyGoals = await db
+    .select({ id: goals.id, legacyTasks: goals.legacyTasks })
+    .from(goals)
+    .where(isNotNull(goals.legacyTasks));
+
+  for (const goal of legacyGoals) {
+    await db.transaction(async (tx) => {
+      const { taskRows, subtaskRows, occurrenceRows } = toTaskRows(goal.id, goal.legacyTasks ?? []);
+      const insertedTasks = taskRows.length > 0
+        ? await tx.insert(goalTasks).values(taskRows).returning({ id: goalTasks.id })
+        : [];
+      const insertedSubtasks = subtaskRows.length > 0
+        ? await tx.insert(goalSubtasks).values(subtaskRows).returning({ id: goalSubtasks.id })
+        : [];
+      if (occurrenceRows.length > 0) await tx.insert(taskOccurrences).values(occurrenceRows);
+
+      // The JSON is the only copy of the tasks until every row is in
+      if (insertedTasks.length !== taskRows.length || insertedSubtasks.length !== subtaskRows.length) {
+        throw new Error(`Not every task of goal ${goal.id} was migrated`);
+      }
+
+      await tx.update(goals).set({ legacyTasks: null }).where(eq(goals.id, goal.id));
+    });
+  }
+
+  return legacyGoals.length;
+}
+
+// Run with `npm run db:migrate-tasks`, after `npm run db:push` has created the tables
+const { pool, db } = connectDatabase();
+migrateLegacyTasks(db)
+  .then(count => console.log(`Migrated the tasks of ${count} goal${count === 1 ? "" : "s"}`))
+  .catch(error => {
+    console.error("Failed to migrate tasks:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
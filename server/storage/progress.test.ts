@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { type Task } from "@shared/schema";
+import { applyTaskCompletion } from "./progress";
+
+function makeTask(id: string, fields: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    completed: false,
+    subtasks: [],
+    addedToCalendar: false,
+    reminderEnabled: false,
+    enableWhatsapp: false,
+    ...fields
+  };
+}
+
+describe("progress of recurring tasks", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 2, 4, 12, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const tasks = [
+    makeTask("done", { completed: true }),
+    makeTask("daily", { recurrence: { frequency: "daily", startDate: "2026-03-02" } })
+  ];
+
+  it("counts the completed share of the occurrences so far", () => {
+    const { tasks: updated, progress } = applyTaskCompletion(tasks, "daily", true, "2026-03-03");
+
+    // One done task, plus one of the three daily occurrences through today
+    expect(progress).toBe(67);
+    expect(updated[1].completed).toBe(false);
+    expect(updated[1].occurrences?.map(occurrence => occurrence.date)).toEqual(["2026-03-03"]);
+  });
+
+  it("reopens an occurrence without touching the others", () => {
+    const completed = applyTaskCompletion(tasks, "daily", true, "2026-03-03");
+    const both = applyTaskCompletion(completed.tasks, "daily", true, "2026-03-04");
+    const reopened = applyTaskCompletion(both.tasks, "daily", false, "2026-03-03");
+
+    expect(both.progress).toBe(83);
+    expect(reopened.progress).toBe(67);
+    expect(reopened.tasks[1].occurrences?.map(occurrence => occurrence.date)).toEqual(["2026-03-04"]);
+  });
+});
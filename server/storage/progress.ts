@@ -0,0 +1,122 @@
+import { type Task } from "@shared/schema";
+import { getOccurrenceDates, toLocalDateString } from "@shared/recurrence";
+
+type ProgressFields = Pick<Task, "completed" | "recurrence" | "occurrences">;
+
+// How much of a task is done, from 0 to 1. A recurring task counts the share of its
+// occurrences so far that were completed.
+function taskCompletion(task: ProgressFields, today: string): number {
+  if (task.completed || !task.recurrence) return task.completed ? 1 : 0;
+
+  const dueDates = getOccurrenceDates(task.recurrence, task.recurrence.startDate, today);
+  if (dueDates.length === 0) return 0;
+  const completedCount = (task.occurrences ?? []).filter(occurrence => dueDates.includes(occurrence.date)).length;
+  return completedCount / dueDates.length;
+}
+
+/**
+ * Goal progress as the percentage of completed tasks, counting occurrences for recurring tasks
+ */
+export function calculateProgress(tasks: ProgressFields[]): number {
+  const today = toLocalDateString();
+  const totalTasks = tasks.length;
+  const completedTasks = tasks.reduce((sum, task) => sum + taskCompletion(task, today), 0);
+  return totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+}
+
+/**
+ * Set a task's completion and recalculate the goal's progress.
+ * For a recurring task, this completes (or reopens) its occurrence on a day instead.
+ * @param date The occurrence of a recurring task (default today)
+ */
+export function applyTaskCompletion(
+  tasks: Task[],
+  taskId: string,
+  completed: boolean,
+  date = toLocalDateString()
+): { tasks: Task[]; progress: number } {
+  const updatedTasks = tasks.map(task => {
+    if (task.id === taskId && task.recurrence) {
+      const otherOccurrences = (task.occurrences ?? []).filter(occurrence => occurrence.date !== date);
+      const existing = (task.occurrences ?? []).find(occurrence => occurrence.date === date);
+      const occurrences = completed
+        ? [...otherOccurrences, existing ?? { date, completedAt: new Date().toISOString() }]
+        : otherOccurrences;
+      return { ...task, occurrences: occurrences.sort((a, b) => a.date.localeCompare(b.date)) };
+    }
+    if (task.id === taskId) {
+      return { ...task, completed };
+    }
+    return task;
+  });
+
+  return { tasks: updatedTasks, progress: calculateProgress(updatedTasks) };
+}
+
+/**
+ * Set a subtask's completion, complete its parent task when every subtask is done,
+ * and recalculate the goal's progress
+ */
+export function applySubtaskCompletion(
+  tasks: Task[],
+  taskId: string,
+  subtaskId: string,
+  completed: boolean
+): { tasks: Task[]; progress: number } {
+  const updatedTasks = tasks.map(task => {
+    if (task.id === taskId) {
+      const updatedSubtasks = task.subtasks.map(subtask => {
+        if (subtask.id === subtaskId) {
+          return { ...subtask, completed };
+        }
+        return subtask;
+      });
+
+      // If all subtasks are completed, mark the parent task as completed too.
+      // Recurring tasks are completed one occurrence at a time instead.
+      const allSubtasksCompleted = updatedSubtasks.every(subtask => subtask.completed);
+      
+      return { 
+        ...task, 
+        subtasks: updatedSubtasks,
+        completed: task.recurrence ? task.completed : allSubtasksCompleted 
+      };
+    }
+    return task;
+  });
+
+  return { tasks: updatedTasks, progress: calculateProgress(updatedTasks) };
+}
+
+// When a task or subtask was completed: kept while it stays completed, cleared when it's reopened
+function completionTime(
+  item: Pick<Task, "completed" | "completedAt">,
+  previous: Pick<Task, "completed" | "completedAt"> | undefined,
+  now: string
+): string | undefined {
+  if (!item.completed) return undefined;
+  if (item.completedAt) return item.completedAt;
+  return previous?.completed && previous.completedAt ? previous.completedAt : now;
+}
+
+/**
+ * Record when tasks and subtasks were completed, for a task list that replaces the previous one.
+ * Newly completed tasks and subtasks are stamped with the current time.
+ */
+export function stampCompletions(previousTasks: Task[], tasks: Task[]): Task[] {
+  const now = new Date().toISOString();
+
+  return tasks.map(task => {
+    const previousTask = previousTasks.find(t => t.id === task.id);
+    return {
+      ...task,
+      completedAt: completionTime(task, previousTask, now),
+      // Occurrences are only changed by completing them, so a task list without them keeps the previous ones
+      occurrences: task.occurrences ?? previousTask?.occurrences,
+      subtasks: (task.subtasks ?? []).map(subtask => ({
+        ...subtask,
+        completedAt: completionTime(subtask, previousTask?.subtasks.find(s => s.id === subtask.id), now)
+      }))
+    };
+  });
+}
@@ -0,0 +1,641 @@
+import {
+  type Goal, type InsertGoal, type Task,
+  type TaskUpdate, type SubtaskUpdate, type DueTask,
+  type User, type InsertUser,
+  type UserSettings, type UserSettingsUpdate,
+  type ReminderDelivery, type InsertReminderDelivery,
+  type DigestDelivery,
+  type OutboxNotification, type InsertOutboxNotification, type OutboxNotificationUpdate,
+  type NotificationLogQuery, type NotificationChannelName, type NotificationStatus,
+  type GoalJournalEntry, type InsertGoalJournalEntry,
+  type Roadblock, type InsertRoadblock, type RoadblockUpdate,
+  type TimeEntry, type InsertTimeEntry,
+  type FocusSession, type InsertFocusSession,
+  type Conversation, type InsertConversation,
+  type ConversationMessage, type InsertConversationMessage,
+  type PendingCoachAction, type InsertPendingCoachAction
+} from "@shared/schema";
+import { type IStorage } from "./index";
+import { calculateProgress, applyTaskCompletion, applySubtaskCompletion, stampCompletions } from "./progress";
+import { getTaskState } from "@shared/task-dependencies";
+import { occursOn, isOccurrenceCompleted } from "@shared/recurrence";
+
+/**
+ * Minimal synchronous record store: named collections of records keyed by id.
+ * Records are copied in and out, so callers never share references with the store.
+ */
+export interface RecordStore {
+  list<T>(collection: string): T[];
+  get<T>(collection: string, id: string | number): T | undefined;
+  put<T>(collection: string, id: string | number, record: T): void;
+  remove(collection: string, id: string | number): boolean;
+  nextId(collection: string): number; // Next value of the collection's serial id
+}
+
+// Drizzle ignores undefined values in updates, so do the same here
+function withoutUndefined<T extends object>(updates: Partial<T>): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function findTask(goal: Goal, taskId: string): Task | undefined {
+  return goal.tasks.find(task => task.id === taskId);
+}
+
+/**
+ * IStorage built on a RecordStore, mirroring the PostgreSQL storage's defaults and constraints.
+ * Shared by the in-memory and SQLite storage. Tasks stay nested in their goal's record,
+ * so every task change is a single write.
+ */
+export abstract class RecordStorage implements IStorage {
+  constructor(protected records: RecordStore) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.records.get<User>("users", id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.records.list<User>("users").find(user => user.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.records.list<User>("users").find(user => user.email === email);
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    return this.records.list<User>("users").find(user => user.googleId === googleId);
+  }
+
+  async createUser(userData: Partial<InsertUser>): Promise<User> {
+    // Make sure we have a username at minimum
+    if (!userData.username) {
+      throw new Error('Username is required');
+    }
+
+    // If email is missing but we have a googleId, generate an email
+    if (!userData.email && userData.googleId) {
+      userData.email = `${userData.username}@taskbreaker.app`;
+    }
+    if (!userData.email) {
+      throw new Error('Email is required');
+    }
+
+    // Same unique constraints as the users table
+    const existingUsers = this.records.list<User>("users");
+    if (existingUsers.some(user => user.username === userData.username)) {
+      throw new Error(`Username "${userData.username}" is already taken`);
+    }
+    if (existingUsers.some(user => user.email === userData.email)) {
+      throw new Error(`Email "${userData.email}" is already registered`);
+    }
+    if (userData.googleId && existingUsers.some(user => user.googleId === userData.googleId)) {
+      throw new Error('This Google account is already linked to a user');
+    }
+
+    const user: User = {
+      id: this.records.nextId("users"),
+      username: userData.username,
+      email: userData.email,
+      password: userData.password ?? null,
+      googleId: userData.googleId ?? null,
+      displayName: userData.displayName ?? null,
+      profilePicture: userData.profilePicture ?? null,
+      createdAt: new Date()
+    };
+    this.records.put("users", user.id, user);
+    return user;
+  }
+
+  async getUserSettings(userId: number): Promise<UserSettings | undefined> {
+    return this.records.get<UserSettings>("userSettings", userId);
+  }
+
+  async saveUserSettings(userId: number, updates: UserSettingsUpdate): Promise<UserSettings> {
+    if (!this.records.get<User>("users", userId)) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const existing = this.records.get<UserSettings>("userSettings", userId) ?? {
+      userId,
+      contactEmail: null,
+      contactPhone: null,
+      whatsappNumber: null,
+      enableWhatsappNotifications: false,
+      defaultNotificationChannels: [],
+      reminderFrequency: null,
+      reminderTime: null,
+      reminderDays: null,
+      updatedAt: new Date()
+    };
+    const settings: UserSettings = { ...existing, ...withoutUndefined(updates), updatedAt: new Date() };
+    this.records.put("userSettings", userId, settings);
+    return settings;
+  }
+
+  async getGoals(userId?: string): Promise<Goal[]> {
+    const allGoals = this.records.list<Goal>("goals");
+    return userId ? allGoals.filter(goal => goal.userId === userId) : allGoals;
+  }
+
+  async getGoal(id: number): Promise<Goal | undefined> {
+    return this.records.get<Goal>("goals", id);
+  }
+
+  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
+    const goal: Goal = {
+      id: this.records.nextId("goals"),
+      title: insertGoal.title,
+      userId: insertGoal.userId ?? "anonymous",
+      progress: insertGoal.progress ?? 0,
+      tasks: insertGoal.tasks,
+      createdAt: new Date().toISOString(),
+      totalEstimatedMinutes: insertGoal.totalEstimatedMinutes ?? null,
+      timeConstraintMinutes: insertGoal.timeConstraintMinutes ?? null,
+      additionalInfo: insertGoal.additionalInfo ?? null,
+      overallSuggestions: insertGoal.overallSuggestions ?? null,
+      notificationChannels: insertGoal.notificationChannels ?? null,
+      lastProgressUpdate: insertGoal.lastProgressUpdate ?? null,
+      roadblocks: insertGoal.roadblocks ?? null,
+      complexity: insertGoal.complexity ?? null
+    };
+    this.records.put("goals", goal.id, goal);
+    return goal;
+  }
+
+  async updateGoal(id: number, updates: Partial<Goal>): Promise<Goal | undefined> {
+    const goal = await this.getGoal(id);
+    if (!goal) return undefined;
+
+    const updatedGoal: Goal = { ...goal, ...withoutUndefined(updates), id };
+    if (updates.tasks) {
+      updatedGoal.tasks = stampCompletions(goal.tasks, updates.tasks);
+      updatedGoal.progress = calculateProgress(updatedGoal.tasks);
+    }
+    this.records.put("goals", id, updatedGoal);
+    return updatedGoal;
+  }
+
+  async deleteGoal(id: number): Promise<boolean> {
+    const deleted = this.records.remove("goals", id);
+
+    // Cascade to the goal's journal, roadblocks, time entries and focus sessions, like the foreign keys do
+    if (deleted) {
+      for (const collection of ["goalJournalEntries", "roadblocks", "timeEntries", "focusSessions"]) {
+        for (const record of this.records.list<{ id: number; goalId: number }>(collection)) {
+          if (record.goalId === id) {
+            this.records.remove(collection, record.id);
+          }
+        }
+      }
+    }
+    return deleted;
+  }
+
+  async updateTaskCompletion(goalId: number, taskId: string, completed: boolean, date?: string): Promise<Goal | undefined> {
+    const goal = await this.getGoal(goalId);
+    if (!goal || !findTask(goal, taskId)) return undefined;
+
+    return await this.updateGoal(goalId, applyTaskCompletion(goal.tasks, taskId, completed, date));
+  }
+
+  async updateSubtaskCompletion(goalId: number, taskId: string, subtaskId: string, completed: boolean): Promise<Goal | undefined> {
+    const goal = await this.getGoal(goalId);
+    if (!goal || !findTask(goal, taskId)?.subtasks.some(subtask => subtask.id === subtaskId)) return undefined;
+
+    return await this.updateGoal(goalId, applySubtaskCompletion(goal.tasks, taskId, subtaskId, completed));
+  }
+
+  async addTask(goalId: number, task: Task): Promise<Goal | undefined> {
+    const goal = await this.getGoal(goalId);
+    if (!goal) return undefined;
+
+    const updatedTasks = [...goal.tasks, task];
+    return await this.updateGoal(goalId, { tasks: updatedTasks, progress: calculateProgress(updatedTasks) });
+  }
+
+  async updateTask(goalId: number, taskId: string, updates: TaskUpdate): Promise<Goal | undefined> {
+    const goal = await this.getGoal(goalId);
+    if (!goal || !findTask(goal, taskId)) return undefined;
+
+    const updatedTasks = goal.tasks.map(task => task.id === taskId ? { ...task, ...withoutUndefined(updates) } : task);
+    // Whether a task repeats changes how it counts towards the goal's progress
+    return await this.updateGoal(goalId, updates.recurrence !== undefined
+      ? { tasks: updatedTasks, progress: calculateProgress(updatedTasks) }
+      : { tasks: updatedTasks });
+  }
+
+  async removeTask(goalId: number, taskId: string): Promise<Goal | undefined> {
+    const goal = await this.getGoal(goalId);
+    if (!goal || !findTask(goal, taskId)) return undefined;
+
+    // Tasks that depended on the removed task no longer wait for it
+    const updatedTasks = goal.tasks
+      .filter(task => task.id !== taskId)
+      .map(task => task.dependsOn?.includes(taskId)
+        ? { ...task, dependsOn: task.dependsOn.filter(id => id !== taskId) }
+        : task);
+    return await this.updateGoal(goalId, { tasks: updatedTasks, progress: calculateProgress(updatedTasks) });
+  }
+
+  async updateSubtask(goalId: number, taskId: string, subtaskId: string, updates: SubtaskUpdate): Promise<Goal | undefined> {
+    const goal = await this.getGoal(goalId);
+    if (!goal || !findTask(goal, taskId)?.subtasks.some(subtask => subtask.id === subtaskId)) return undefined;
+
+    return await this.updateGoal(goalId, {
+      tasks: goal.tasks.map(task => task.id !== taskId ? task : {
+        ...task,
+        subtasks: task.subtasks.map(subtask => subtask.id === subtaskId ? { ...subtask, ...withoutUndefined(updates) } : subtask)
+      })
+    });
+  }
+
+  async getTasksDueOn(userId: string, date: string): Promise<DueTask[]> {
+    // Due dates are ISO strings, either a date or a date and time.
+    // Recurring tasks are due on the days they occur on, and done once that day's occurrence is completed.
+    const goals = await this.getGoals(userId);
+    return goals
+      .sort((a, b) => a.id - b.id)
+      .flatMap(goal => goal.tasks
+        .filter(task => task.recurrence ? occursOn(task.recurrence, date) : task.dueDate?.startsWith(date))
+        .map(task => ({
+          goalId: goal.id,
+          goalTitle: goal.title,
+          task,
+          state: getTaskState(goal.tasks, task.recurrence
+            ? { ...task, completed: isOccurrenceCompleted(task, date) }
+            : task)
+        })));
+  }
+
+  async addJournalEntry(entry: InsertGoalJournalEntry): Promise<GoalJournalEntry> {
+    if (!this.records.get<Goal>("goals", entry.goalId)) {
+      throw new Error(`Goal ${entry.goalId} not found`);
+    }
+
+    const savedEntry: GoalJournalEntry = {
+      id: this.records.nextId("goalJournalEntries"),
+      goalId: entry.goalId,
+      type: entry.type,
+      message: entry.message,
+      taskId: entry.taskId ?? null,
+      roadblockId: entry.roadblockId ?? null,
+      createdAt: new Date()
+    };
+    this.records.put("goalJournalEntries", savedEntry.id, savedEntry);
+    return savedEntry;
+  }
+
+  async getJournalEntries(goalId: number): Promise<GoalJournalEntry[]> {
+    return this.records.list<GoalJournalEntry>("goalJournalEntries")
+      .filter(entry => entry.goalId === goalId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createRoadblock(roadblock: InsertRoadblock): Promise<Roadblock> {
+    if (!this.records.get<Goal>("goals", roadblock.goalId)) {
+      throw new Error(`Goal ${roadblock.goalId} not found`);
+    }
+
+    const now = new Date();
+    const savedRoadblock: Roadblock = {
+      id: this.records.nextId("roadblocks"),
+      goalId: roadblock.goalId,
+      description: roadblock.description,
+      blockedTaskIds: roadblock.blockedTaskIds ?? [],
+      severity: roadblock.severity ?? "medium",
+      status: roadblock.status ?? "open",
+      needsHelp: roadblock.needsHelp ?? false,
+      resolutionNote: roadblock.resolutionNote ?? null,
+      createdAt: now,
+      updatedAt: now,
+      escalatedAt: roadblock.escalatedAt ?? null,
+      resolvedAt: roadblock.resolvedAt ?? null
+    };
+    this.records.put("roadblocks", savedRoadblock.id, savedRoadblock);
+    return savedRoadblock;
+  }
+
+  async getRoadblock(id: number): Promise<Roadblock | undefined> {
+    return this.records.get<Roadblock>("roadblocks", id);
+  }
+
+  async getRoadblocks(goalId: number): Promise<Roadblock[]> {
+    return this.records.list<Roadblock>("roadblocks")
+      .filter(roadblock => roadblock.goalId === goalId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateRoadblock(id: number, updates: RoadblockUpdate): Promise<Roadblock | undefined> {
+    const roadblock = await this.getRoadblock(id);
+    if (!roadblock) return undefined;
+
+    const updatedRoadblock: Roadblock = { ...roadblock, ...withoutUndefined(updates), id, updatedAt: new Date() };
+    this.records.put("roadblocks", id, updatedRoadblock);
+    return updatedRoadblock;
+  }
+
+  async startTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    if (!this.records.get<Goal>("goals", entry.goalId)) {
+      throw new Error(`Goal ${entry.goalId} not found`);
+    }
+
+    const running = await this.getRunningTimeEntry(entry.userId);
+    if (running) await this.stopTimeEntry(running.id);
+
+    const savedEntry: TimeEntry = {
+      id: this.records.nextId("timeEntries"),
+      userId: entry.userId,
+      goalId: entry.goalId,
+      taskId: entry.taskId,
+      subtaskId: entry.subtaskId ?? null,
+      startedAt: new Date(),
+      stoppedAt: null,
+      durationSeconds: null
+    };
+    this.records.put("timeEntries", savedEntry.id, savedEntry);
+    return savedEntry;
+  }
+
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    return this.records.get<TimeEntry>("timeEntries", id);
+  }
+
+  async getTimeEntries(goalId: number): Promise<TimeEntry[]> {
+    return this.records.list<TimeEntry>("timeEntries")
+      .filter(entry => entry.goalId === goalId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getUserTimeEntries(userId: string): Promise<TimeEntry[]> {
+    return this.records.list<TimeEntry>("timeEntries")
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined> {
+    return this.records.list<TimeEntry>("timeEntries")
+      .find(entry => entry.userId === userId && entry.stoppedAt === null);
+  }
+
+  async stopTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    const entry = await this.getTimeEntry(id);
+    if (!entry || entry.stoppedAt !== null) return entry;
+
+    const stoppedAt = new Date();
+    const stoppedEntry: TimeEntry = {
+      ...entry,
+      stoppedAt,
+      durationSeconds: Math.round((stoppedAt.getTime() - entry.startedAt.getTime()) / 1000)
+    };
+    this.records.put("timeEntries", id, stoppedEntry);
+    return stoppedEntry;
+  }
+
+  async createFocusSession(session: InsertFocusSession): Promise<FocusSession> {
+    if (!this.records.get<Goal>("goals", session.goalId)) {
+      throw new Error(`Goal ${session.goalId} not found`);
+    }
+
+    const savedSession: FocusSession = {
+      id: this.records.nextId("focusSessions"),
+      userId: session.userId,
+      goalId: session.goalId,
+      taskId: session.taskId,
+      subtaskId: session.subtaskId ?? null,
+      workMinutes: session.workMinutes,
+      breakMinutes: session.breakMinutes,
+      completedIntervals: session.completedIntervals,
+      startedAt: session.startedAt,
+      endedAt: new Date(),
+      acknowledgedAt: null
+    };
+    this.records.put("focusSessions", savedSession.id, savedSession);
+    return savedSession;
+  }
+
+  async getFocusSessions(goalId: number): Promise<FocusSession[]> {
+    return this.records.list<FocusSession>("focusSessions")
+      .filter(session => session.goalId === goalId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getUnacknowledgedFocusSessions(userId: string): Promise<FocusSession[]> {
+    return this.records.list<FocusSession>("focusSessions")
+      .filter(session => session.userId === userId && session.acknowledgedAt === null)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async acknowledgeFocusSessions(ids: number[]): Promise<void> {
+    const acknowledgedAt = new Date();
+    for (const id of ids) {
+      const session = this.records.get<FocusSession>("focusSessions", id);
+      if (session && session.acknowledgedAt === null) {
+        this.records.put("focusSessions", id, { ...session, acknowledgedAt });
+      }
+    }
+  }
+
+  async claimReminderDelivery(delivery: InsertReminderDelivery): Promise<boolean> {
+    const alreadyClaimed = this.records.list<ReminderDelivery>("reminderDeliveries").some(existing =>
+      existing.taskId === delivery.taskId && existing.occurrenceKey === delivery.occurrenceKey
+    );
+    if (alreadyClaimed) return false;
+
+    const claimed: ReminderDelivery = {
+      id: this.records.nextId("reminderDeliveries"),
+      goalId: delivery.goalId,
+      taskId: delivery.taskId,
+      occurrenceKey: delivery.occurrenceKey,
+      channels: delivery.channels ?? null,
+      sentAt: new Date()
+    };
+    this.records.put("reminderDeliveries", claimed.id, claimed);
+    return true;
+  }
+
+  async claimDigestDelivery(userId: string, dateKey: string): Promise<boolean> {
+    const alreadyClaimed = this.records.list<DigestDelivery>("digestDeliveries").some(existing =>
+      existing.userId === userId && existing.dateKey === dateKey
+    );
+    if (alreadyClaimed) return false;
+
+    const claimed: DigestDelivery = {
+      id: this.records.nextId("digestDeliveries"),
+      userId,
+      dateKey,
+      sentAt: new Date()
+    };
+    this.records.put("digestDeliveries", claimed.id, claimed);
+    return true;
+  }
+
+  async createOutboxNotifications(notifications: InsertOutboxNotification[]): Promise<OutboxNotification[]> {
+    const now = new Date();
+    return notifications.map(notification => {
+      const saved: OutboxNotification = {
+        id: this.records.nextId("notificationOutbox"),
+        userId: notification.userId ?? null,
+        goalId: notification.goalId ?? null,
+        eventType: notification.eventType,
+        channel: notification.channel,
+        recipient: notification.recipient ?? null,
+        summary: notification.summary,
+        payload: notification.payload,
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: now,
+        createdAt: now,
+        sentAt: null
+      };
+      this.records.put("notificationOutbox", saved.id, saved);
+      return saved;
+    });
+  }
+
+  async claimDueOutboxNotifications(now: Date, limit: number, claimedUntil: Date): Promise<OutboxNotification[]> {
+    // The store is synchronous, so nothing else runs between reading and claiming
+    const due = this.records.list<OutboxNotification>("notificationOutbox")
+      .filter(notification => notification.status === "pending" && notification.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime() || a.id - b.id)
+      .slice(0, limit);
+
+    return due.map(notification => {
+      const claimed = { ...notification, nextAttemptAt: claimedUntil };
+      this.records.put("notificationOutbox", claimed.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateOutboxNotification(id: number, updates: OutboxNotificationUpdate): Promise<void> {
+    const notification = this.records.get<OutboxNotification>("notificationOutbox", id);
+    if (notification) {
+      this.records.put("notificationOutbox", id, { ...notification, ...updates });
+    }
+  }
+
+  async getOutboxNotifications(userId: string, query: NotificationLogQuery): Promise<OutboxNotification[]> {
+    return this.records.list<OutboxNotification>("notificationOutbox")
+      .filter(notification =>
+        notification.userId === userId &&
+        (!query.channel || notification.channel === query.channel) &&
+        (!query.status || notification.status === query.status)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+
+  async countOutboxNotifications(userId: string): Promise<{ channel: NotificationChannelName; status: NotificationStatus; count: number }[]> {
+    const counts = new Map<string, { channel: NotificationChannelName; status: NotificationStatus; count: number }>();
+    for (const notification of this.records.list<OutboxNotification>("notificationOutbox")) {
+      if (notification.userId !== userId) continue;
+
+      const key = `${notification.channel}:${notification.status}`;
+      const count = counts.get(key) ?? { channel: notification.channel, status: notification.status, count: 0 };
+      counts.set(key, { ...count, count: count.count + 1 });
+    }
+    return Array.from(counts.values());
+  }
+
+  async getConversations(userId: string, goalId?: number | null): Promise<Conversation[]> {
+    // goalId undefined = all conversations, null = general (non-goal) conversations only
+    return this.records.list<Conversation>("conversations")
+      .filter(conversation => conversation.userId === userId)
+      .filter(conversation => goalId === undefined || conversation.goalId === goalId)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.records.get<Conversation>("conversations", id);
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: this.records.nextId("conversations"),
+      userId: insertConversation.userId,
+      goalId: insertConversation.goalId ?? null,
+      title: insertConversation.title ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.records.put("conversations", conversation.id, conversation);
+    return conversation;
+  }
+
+  async deleteConversation(id: number): Promise<boolean> {
+    const deleted = this.records.remove("conversations", id);
+
+    // Cascade to the conversation's messages, like the foreign key does
+    if (deleted) {
+      for (const message of this.records.list<ConversationMessage>("conversationMessages")) {
+        if (message.conversationId === id) {
+          this.records.remove("conversationMessages", message.id);
+        }
+      }
+    }
+    return deleted;
+  }
+
+  async getConversationMessages(conversationId: number, limit?: number): Promise<ConversationMessage[]> {
+    const messages = this.records.list<ConversationMessage>("conversationMessages")
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => a.id - b.id);
+
+    // Keep the most recent messages, in chronological order
+    return limit ? messages.slice(-limit) : messages;
+  }
+
+  async addConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage> {
+    const conversation = await this.getConversation(message.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${message.conversationId} not found`);
+    }
+
+    const savedMessage: ConversationMessage = {
+      id: this.records.nextId("conversationMessages"),
+      conversationId: message.conversationId,
+      role: message.role,
+      content: message.content,
+      type: message.type ?? null,
+      createdAt: new Date()
+    };
+    this.records.put("conversationMessages", savedMessage.id, savedMessage);
+
+    // Bump the conversation so the most recently used thread sorts first
+    this.records.put("conversations", conversation.id, { ...conversation, updatedAt: new Date() });
+
+    return savedMessage;
+  }
+
+  async createPendingCoachAction(action: InsertPendingCoachAction): Promise<PendingCoachAction> {
+    const pendingAction: PendingCoachAction = {
+      id: action.id,
+      userId: action.userId,
+      conversationId: action.conversationId ?? null,
+      tool: action.tool,
+      arguments: action.arguments,
+      summary: action.summary,
+      status: "pending",
+      createdAt: new Date(),
+      resolvedAt: null
+    };
+    this.records.put("pendingCoachActions", pendingAction.id, pendingAction);
+    return pendingAction;
+  }
+
+  async getPendingCoachAction(id: string): Promise<PendingCoachAction | undefined> {
+    return this.records.get<PendingCoachAction>("pendingCoachActions", id);
+  }
+
+  async resolvePendingCoachAction(id: string, status: "approved" | "rejected"): Promise<PendingCoachAction | undefined> {
+    // Only pending actions can be resolved, so an action is never executed twice
+    const pendingAction = await this.getPendingCoachAction(id);
+    if (!pendingAction || pendingAction.status !== "pending") return undefined;
+
+    const resolvedAction: PendingCoachAction = { ...pendingAction, status, resolvedAt: new Date() };
+    this.records.put("pendingCoachActions", id, resolvedAction);
+    return resolvedAction;
+  }
+}
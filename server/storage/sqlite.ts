@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { RecordStorage, type RecordStore } from "./records";
+
+// Dates are stored as { "$date": "<ISO string>" } so they come back as Date objects
+function serialize(record: unknown): string {
+  return JSON.stringify(record, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+  });
+}
+
+function deserialize<T>(data: string): T {
+  return JSON.parse(data, (_key, value) =>
+    value && typeof value === "object" && typeof value.$date === "string" && Object.keys(value).length === 1
+      ? new Date(value.$date)
+      : value
+  ) as T;
+}
+
+/**
+ * RecordStore backed by a single SQLite file, with each record stored as a JSON document
+ */
+class SqliteRecordStore implements RecordStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+      CREATE TABLE IF NOT EXISTS sequences (
+        collection TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+    `);
+  }
+
+  list<T>(collection: string): T[] {
+    const rows = this.db
+      .prepare("SELECT data FROM records WHERE collection = ?")
+      .all(collection) as { data: string }[];
+    return rows.map(row => deserialize<T>(row.data));
+  }
+
+  get<T>(collection: string, id: string | number): T | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM records WHERE collection = ? AND id = ?")
+      .get(collection, String(id)) as { data: string } | undefined;
+    return row ? deserialize<T>(row.data) : undefined;
+  }
+
+  put<T>(collection: string, id: string | number, record: T): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO records (collection, id, data) VALUES (?, ?, ?)")
+      .run(collection, String(id), serialize(record));
+  }
+
+  remove(collection: string, id: string | number): boolean {
+    const result = this.db
+      .prepare("DELETE FROM records WHERE collection = ? AND id = ?")
+      .run(collection, String(id));
+    return result.changes > 0;
+  }
+
+  nextId(collection: string): number {
+    const row = this.db
+      .prepare(`
+        INSERT INTO sequences (collection, value) VALUES (?, 1)
+        ON CONFLICT (collection) DO UPDATE SET value = value + 1
+        RETURNING value
+      `)
+      .get(collection) as { value: number };
+    return row.value;
+  }
+}
+
+/**
+ * File-backed storage for single-user self-hosting
+ */
+export class SqliteStorage extends RecordStorage {
+  constructor(filename: string) {
+    super(new SqliteRecordStore(filename));
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  goalTasks, goalSubtasks, taskOccurrences,
+  type Task, type Subtask, type TaskOccurrence,
+  type GoalTaskRow, type GoalSubtaskRow, type TaskOccurrenceRow
+} from "@shared/schema";
+
+type InsertGoalTaskRow = typeof goalTasks.$inferInsert;
+type InsertGoalSubtaskRow = typeof goalSubtasks.$inferInsert;
+type InsertTaskOccurrenceRow = typeof taskOccurrences.$inferInsert;
+
+// Optional task fields are NULL in the tables but omitted in the API shape
+function optional<T>(value: T | null): T | undefined {
+  return value ?? undefined;
+}
+
+function isoTimestamp(date: Date | null): string | undefined {
+  return date ? date.toISOString() : undefined;
+}
+
+function toDate(timestamp: string | undefined): Date | null {
+  return timestamp ? new Date(timestamp) : null;
+}
+
+function roundMinutes(minutes: number | undefined): number | null {
+  return minutes !== undefined && minutes !== null ? Math.round(minutes) : null;
+}
+
+/**
+ * Convert a subtasks row to the API shape
+ */
+export function toSubtask(row: GoalSubtaskRow): Subtask {
+  return {
+    id: row.id,
+    title: row.title,
+    completed: row.completed,
+    completedAt: isoTimestamp(row.completedAt),
+    estimatedMinutes: optional(row.estimatedMinutes),
+    context: optional(row.context),
+    dueDate: optional(row.dueDate),
+    addedToCalendar: row.addedToCalendar
+  };
+}
+
+/**
+ * Convert a task_occurrences row to the API shape
+ */
+export function toOccurrence(row: Pick<TaskOccurrenceRow, "date" | "completedAt">): TaskOccurrence {
+  return { date: row.date, completedAt: row.completedAt.toISOString() };
+}
+
+/**
+ * Convert a tasks row, its subtasks rows (in position order) and its occurrences rows to the API shape
+ */
+export function toTask(row: GoalTaskRow & { subtasks: GoalSubtaskRow[]; occurrences: TaskOccurrenceRow[] }): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    completed: row.completed,
+    completedAt: isoTimestamp(row.completedAt),
+    subtasks: row.subtasks.map(toSubtask),
+    estimatedMinutes: optional(row.estimatedMinutes),
+    complexity: optional(row.complexity),
+    context: optional(row.context),
+    actionItems: optional(row.actionItems),
+    dependsOn: optional(row.dependsOn),
+    dueDate: optional(row.dueDate),
+    addedToCalendar: row.addedToCalendar,
+    reminderEnabled: row.reminderEnabled,
+    reminderTime: optional(row.reminderTime),
+    enableWhatsapp: row.enableWhatsapp,
+    whatsappNumber: optional(row.whatsappNumber),
+    reminderFrequency: optional(row.reminderFrequency),
+    reminderDays: optional(row.reminderDays),
+    recurrence: optional(row.recurrence),
+    // Completed occurrences are kept when a task stops repeating, so they still count towards streaks
+    occurrences: row.occurrences.length > 0
+      ? [...row.occurrences].sort((a, b) => a.date.localeCompare(b.date)).map(toOccurrence)
+      : undefined
+  };
+}
+
+/**
+ * Convert a goal's tasks to tasks, subtasks and task_occurrences rows.
+ * Tolerates missing defaults, since this also reads tasks that were stored as JSON.
+ * @param startPosition Position of the first task, for appending to existing tasks
+ */
+export function toTaskRows(
+  goalId: number,
+  tasks: Task[],
+  startPosition = 0
+): { taskRows: InsertGoalTaskRow[]; subtaskRows: InsertGoalSubtaskRow[]; occurrenceRows: InsertTaskOccurrenceRow[] } {
+  const taskRows: InsertGoalTaskRow[] = [];
+  const subtaskRows: InsertGoalSubtaskRow[] = [];
+  const occurrenceRows: InsertTaskOccurrenceRow[] = [];
+
+  tasks.forEach((task, taskIndex) => {
+    taskRows.push({
+      id: task.id,
+      goalId,
+      position: startPosition + taskIndex,
+      title: task.title,
+      completed: task.completed ?? false,
+      completedAt: toDate(task.completedAt),
+      estimatedMinutes: roundMinutes(task.estimatedMinutes),
+      complexity: task.complexity ?? null,
+      context: task.context ?? null,
+      actionItems: task.actionItems ?? null,
+      dependsOn: task.dependsOn ?? null,
+      dueDate: task.dueDate ?? null,
+      addedToCalendar: task.addedToCalendar ?? false,
+      reminderEnabled: task.reminderEnabled ?? false,
+      reminderTime: task.reminderTime ?? null,
+      enableWhatsapp: task.enableWhatsapp ?? false,
+      whatsappNumber: task.whatsappNumber ?? null,
+      reminderFrequency: task.reminderFrequency ?? null,
+      reminderDays: task.reminderDays ?? null,
+      recurrence: task.recurrence ?? null
+    });
+
+    (task.occurrences ?? []).forEach(occurrence => {
+      occurrenceRows.push({ taskId: task.id, date: occurrence.date, completedAt: new Date(occurrence.completedAt) });
+    });
+
+    (task.subtasks ?? []).forEach((subtask, subtaskIndex) => {
+      subtaskRows.push({
+        id: subtask.id,
+        taskId: task.id,
+        position: subtaskIndex,
+        title: subtask.title,
+        completed: subtask.completed ?? false,
+        completedAt: toDate(subtask.completedAt),
+        estimatedMinutes: roundMinutes(subtask.estimatedMinutes),
+        context: subtask.context ?? null,
+        dueDate: subtask.dueDate ?? null,
+        addedToCalendar: subtask.addedToCalendar ?? false
+      });
+    });
+  });
+
+  return { taskRows, subtaskRows, occurrenceRows };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { type Goal, type Task } from "@shared/schema";
+import { computeActivityStats } from "./streaks";
+
+function goalCompletedAt(times: string[]): Goal {
+  const tasks: Task[] = times.map((completedAt, index) => ({
+    id: `task-${index}`,
+    title: `Task ${index}`,
+    completed: true,
+    completedAt,
+    subtasks: [],
+    addedToCalendar: false,
+    reminderEnabled: false,
+    enableWhatsapp: false
+  }));
+
+  return {
+    id: 1,
+    title: "Get fit",
+    userId: "1",
+    progress: 100,
+    createdAt: "2026-03-01T00:00:00.000Z",
+    totalEstimatedMinutes: null,
+    timeConstraintMinutes: null,
+    additionalInfo: null,
+    overallSuggestions: null,
+    notificationChannels: null,
+    lastProgressUpdate: null,
+    roadblocks: null,
+    complexity: null,
+    tasks
+  };
+}
+
+describe("activity streaks", () => {
+  // Completions on March 1, 2 and 3, none on the 4th, then the 5th and 6th
+  const goal = goalCompletedAt([
+    "2026-03-01T09:00:00.000Z",
+    "2026-03-02T09:00:00.000Z",
+    "2026-03-03T09:00:00.000Z",
+    "2026-03-05T09:00:00.000Z",
+    "2026-03-06T09:00:00.000Z",
+    "2026-03-06T17:00:00.000Z"
+  ]);
+
+  it("breaks the streak on a missed day", () => {
+    const stats = computeActivityStats([goal], { now: new Date("2026-03-06T20:00:00.000Z"), days: 3 });
+
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(3);
+    expect(stats.totalCompletions).toBe(6);
+    expect(stats.days).toEqual([
+      { date: "2026-03-04", completions: 0 },
+      { date: "2026-03-05", completions: 1 },
+      { date: "2026-03-06", completions: 2 }
+    ]);
+  });
+
+  it("keeps the streak until the end of a day without completions", () => {
+    const stats = computeActivityStats([goal], { now: new Date("2026-03-07T12:00:00.000Z") });
+    expect(stats.currentStreak).toBe(2);
+
+    const afterMissedDay = computeActivityStats([goal], { now: new Date("2026-03-08T12:00:00.000Z") });
+    expect(afterMissedDay.currentStreak).toBe(0);
+  });
+
+  it("counts days in the user's time zone", () => {
+    // Both on the 6th in UTC, but 17:00 UTC is already the 7th in Tokyo
+    const tokyoGoal = goalCompletedAt(["2026-03-06T09:00:00.000Z", "2026-03-06T17:00:00.000Z"]);
+    const stats = computeActivityStats([tokyoGoal], {
+      timeZone: "Asia/Tokyo",
+      now: new Date("2026-03-07T03:00:00.000Z")
+    });
+
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.days[stats.days.length - 1]).toEqual({ date: "2026-03-07", completions: 1 });
+  });
+});
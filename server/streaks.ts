@@ -0,0 +1,102 @@
+import { type Goal, type ActivityStats, type DailyCompletions } from "@shared/schema";
+
+// Number of days of completion counts returned by default
+export const DEFAULT_ACTIVITY_DAYS = 30;
+export const MAX_ACTIVITY_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check that a time zone name is one Intl understands, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar day (YYYY-MM-DD) of a moment in the given time zone
+function dayIn(timeZone: string, date: Date): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+// The day before a YYYY-MM-DD day
+function previousDay(day: string): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) - DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Completion times of every task, recurring task occurrence and subtask in the goals
+ */
+export function getCompletionTimes(goals: Goal[]): Date[] {
+  const times: Date[] = [];
+  for (const goal of goals) {
+    for (const task of goal.tasks) {
+      if (task.completed && task.completedAt) times.push(new Date(task.completedAt));
+      for (const occurrence of task.occurrences ?? []) {
+        times.push(new Date(occurrence.completedAt));
+      }
+      for (const subtask of task.subtasks) {
+        if (subtask.completed && subtask.completedAt) times.push(new Date(subtask.completedAt));
+      }
+    }
+  }
+  return times;
+}
+
+/**
+ * Compute a user's streaks from their goals: the number of days in a row, in their time zone,
+ * on which they completed at least one task, occurrence of a recurring task or subtask.
+ * The current streak still counts when nothing has been completed yet today.
+ * @param days Number of recent days to return completion counts for
+ */
+export function computeActivityStats(
+  goals: Goal[],
+  options: { timeZone?: string; days?: number; now?: Date } = {}
+): ActivityStats {
+  const { timeZone = "UTC", days = DEFAULT_ACTIVITY_DAYS, now = new Date() } = options;
+
+  const completionsByDay = new Map<string, number>();
+  const completionTimes = getCompletionTimes(goals);
+  for (const time of completionTimes) {
+    const day = dayIn(timeZone, time);
+    completionsByDay.set(day, (completionsByDay.get(day) || 0) + 1);
+  }
+
+  // Longest run of consecutive days with completions
+  let longestStreak = 0;
+  let run = 0;
+  let lastDay: string | undefined;
+  for (const day of Array.from(completionsByDay.keys()).sort()) {
+    run = lastDay !== undefined && previousDay(day) === lastDay ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    lastDay = day;
+  }
+
+  // Current streak: ends today, or yesterday if the user hasn't completed anything yet today
+  const today = dayIn(timeZone, now);
+  let day = completionsByDay.has(today) ? today : previousDay(today);
+  let currentStreak = 0;
+  while (completionsByDay.has(day)) {
+    currentStreak++;
+    day = previousDay(day);
+  }
+
+  const recentDays: DailyCompletions[] = [];
+  day = today;
+  for (let i = 0; i < days; i++) {
+    recentDays.unshift({ date: day, completions: completionsByDay.get(day) || 0 });
+    day = previousDay(day);
+  }
+
+  return {
+    currentStreak,
+    longestStreak,
+    totalCompletions: completionTimes.length,
+    days: recentDays
+  };
+}
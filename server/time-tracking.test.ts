@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import { type Goal, type Task } from "@shared/schema";
+import { storage } from "./storage";
+import { startTimer, stopTimer, buildTimeReport, TimeTrackingError } from "./time-tracking";
+
+const MINUTE_MS = 60 * 1000;
+
+function makeTask(id: string, estimatedMinutes: number): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    completed: false,
+    subtasks: [{ id: `${id}-sub`, title: "First step", completed: false, addedToCalendar: false }],
+    estimatedMinutes,
+    addedToCalendar: false,
+    reminderEnabled: false,
+    enableWhatsapp: false
+  };
+}
+
+describe("time tracking", () => {
+  const userId = "timer-user";
+  let goal: Goal;
+
+  beforeAll(async () => {
+    goal = await storage.createGoal({
+      title: "Write a talk",
+      userId,
+      createdAt: new Date().toISOString(),
+      tasks: [makeTask("outline", 20), makeTask("slides", 60)]
+    });
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-02T09:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stops the running timer when another one starts, so entries never overlap", async () => {
+    const outline = await startTimer(userId, goal, { taskId: "outline" });
+    vi.advanceTimersByTime(10 * MINUTE_MS);
+    const slides = await startTimer(userId, goal, { taskId: "slides", subtaskId: "slides-sub" });
+    vi.advanceTimersByTime(5 * MINUTE_MS);
+    const stopped = await stopTimer(goal, slides.id);
+
+    expect(await storage.getTimeEntry(outline.id)).toMatchObject({ durationSeconds: 600 });
+    expect(stopped.durationSeconds).toBe(300);
+
+    // Stopping a stopped timer leaves it as it was
+    vi.advanceTimersByTime(5 * MINUTE_MS);
+    expect((await stopTimer(goal, slides.id)).durationSeconds).toBe(300);
+
+    const report = buildTimeReport(goal, await storage.getTimeEntries(goal.id));
+    expect(report.estimatedMinutes).toBe(80);
+    expect(report.actualMinutes).toBe(15);
+    expect(report.tasks.map(task => [task.id, task.actualMinutes, task.subtasks[0].actualMinutes])).toEqual([
+      ["outline", 10, 0],
+      ["slides", 5, 5]
+    ]);
+  });
+
+  it("counts a running timer up to now", async () => {
+    const entry = await startTimer(userId, goal, { taskId: "outline" });
+    vi.advanceTimersByTime(3 * MINUTE_MS);
+
+    const report = buildTimeReport(goal, [entry]);
+    expect(report.tasks[0].actualMinutes).toBe(3);
+    await stopTimer(goal, entry.id);
+  });
+
+  it("only stops timers of the goal", async () => {
+    const otherGoal = await storage.createGoal({
+      title: "Another goal",
+      userId,
+      createdAt: new Date().toISOString(),
+      tasks: [makeTask("other", 10)]
+    });
+    const entry = await startTimer(userId, otherGoal, { taskId: "other" });
+
+    await expect(stopTimer(goal, entry.id)).rejects.toThrow(TimeTrackingError);
+    await expect(startTimer(userId, goal, { taskId: "missing" })).rejects.toMatchObject({ status: 404 });
+  });
+});
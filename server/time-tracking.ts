@@ -0,0 +1,107 @@
+import {
+  type Goal, type TimeEntry,
+  type StartTimerRequest, type GoalTimeReport, type TimeReportItem
+} from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Error for a timer request that can't be carried out, with the HTTP status to respond with
+ */
+export class TimeTrackingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TimeTrackingError";
+  }
+}
+
+/**
+ * Seconds tracked by a time entry. A running timer counts up to now.
+ */
+export function getTrackedSeconds(entry: TimeEntry, now: Date = new Date()): number {
+  if (entry.durationSeconds !== null) return entry.durationSeconds;
+  return Math.max(0, Math.round((now.getTime() - new Date(entry.startedAt).getTime()) / 1000));
+}
+
+/**
+ * Start a timer on one of the goal's tasks or subtasks, stopping the user's running timer
+ */
+export async function startTimer(userId: string, goal: Goal, request: StartTimerRequest): Promise<TimeEntry> {
+  const task = goal.tasks.find(t => t.id === request.taskId);
+  if (!task) {
+    throw new TimeTrackingError("Task not found", 404);
+  }
+  if (request.subtaskId && !task.subtasks.some(subtask => subtask.id === request.subtaskId)) {
+    throw new TimeTrackingError("Subtask not found", 404);
+  }
+
+  return await storage.startTimeEntry({
+    userId,
+    goalId: goal.id,
+    taskId: task.id,
+    subtaskId: request.subtaskId ?? null
+  });
+}
+
+/**
+ * Stop one of the goal's timers
+ */
+export async function stopTimer(goal: Goal, entryId: number): Promise<TimeEntry> {
+  const entry = await storage.getTimeEntry(entryId);
+  if (!entry || entry.goalId !== goal.id) {
+    throw new TimeTrackingError("Time entry not found", 404);
+  }
+
+  const stoppedEntry = await storage.stopTimeEntry(entryId);
+  if (!stoppedEntry) {
+    throw new TimeTrackingError("Time entry not found", 404);
+  }
+  return stoppedEntry;
+}
+
+// Minutes, to one decimal place
+function toMinutes(seconds: number): number {
+  return Math.round(seconds / 6) / 10;
+}
+
+/**
+ * Compare the estimated time of a goal's tasks and subtasks with the time tracked on them
+ * @param entries The goal's time entries
+ */
+export function buildTimeReport(goal: Goal, entries: TimeEntry[], now: Date = new Date()): GoalTimeReport {
+  const secondsByTask = new Map<string, number>();
+  const secondsBySubtask = new Map<string, number>();
+  let totalSeconds = 0;
+
+  for (const entry of entries) {
+    const seconds = getTrackedSeconds(entry, now);
+    totalSeconds += seconds;
+    secondsByTask.set(entry.taskId, (secondsByTask.get(entry.taskId) || 0) + seconds);
+    if (entry.subtaskId) {
+      const key = `${entry.taskId}/${entry.subtaskId}`;
+      secondsBySubtask.set(key, (secondsBySubtask.get(key) || 0) + seconds);
+    }
+  }
+
+  const tasks = goal.tasks.map(task => ({
+    id: task.id,
+    title: task.title,
+    estimatedMinutes: task.estimatedMinutes ?? null,
+    actualMinutes: toMinutes(secondsByTask.get(task.id) || 0),
+    subtasks: task.subtasks.map((subtask): TimeReportItem => ({
+      id: subtask.id,
+      title: subtask.title,
+      estimatedMinutes: subtask.estimatedMinutes ?? null,
+      actualMinutes: toMinutes(secondsBySubtask.get(`${task.id}/${subtask.id}`) || 0)
+    }))
+  }));
+
+  const estimates = tasks.filter(task => task.estimatedMinutes !== null);
+  return {
+    goalId: goal.id,
+    estimatedMinutes: estimates.length > 0
+      ? estimates.reduce((sum, task) => sum + task.estimatedMinutes!, 0)
+      : null,
+    actualMinutes: toMinutes(totalSeconds),
+    tasks
+  };
+}
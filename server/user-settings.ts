@@ -0,0 +1,79 @@
+import {
+  type UserSettings, type UpdateUserSettingsRequest, type NotificationChannelName
+} from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Error for a settings update that can't be carried out, with the HTTP status to respond with
+ */
+export class UserSettingsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "UserSettingsError";
+  }
+}
+
+// Where notifications for a user go
+export interface NotificationContact {
+  email?: string;
+  phoneNumber?: string; // For WhatsApp
+  whatsappEnabled: boolean; // The user turned on WhatsApp notifications
+  defaultChannels: NotificationChannelName[];
+}
+
+/**
+ * A user's settings, with the defaults when they haven't saved any
+ */
+export async function getUserSettings(userId: number): Promise<UserSettings> {
+  return await storage.getUserSettings(userId) ?? {
+    userId,
+    contactEmail: null,
+    contactPhone: null,
+    whatsappNumber: null,
+    enableWhatsappNotifications: false,
+    defaultNotificationChannels: [],
+    reminderFrequency: null,
+    reminderTime: null,
+    reminderDays: null,
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Save changes to a user's settings. WhatsApp notifications need a number to send to.
+ */
+export async function updateUserSettings(userId: number, request: UpdateUserSettingsRequest): Promise<UserSettings> {
+  const current = await getUserSettings(userId);
+  const changes = Object.fromEntries(Object.entries(request).filter(([, value]) => value !== undefined));
+  const updated: UserSettings = { ...current, ...changes };
+
+  const usesWhatsapp = updated.enableWhatsappNotifications || updated.defaultNotificationChannels.includes("whatsapp");
+  if (usesWhatsapp && !updated.whatsappNumber && !updated.contactPhone) {
+    throw new UserSettingsError("WhatsApp number is required when notifications are enabled", 400);
+  }
+
+  return await storage.saveUserSettings(userId, request);
+}
+
+/**
+ * Where to send a user's notifications: their contact details from their settings,
+ * falling back to the email address of their account
+ * @param userId The owner of a goal (goals of signed-out users have no contact details)
+ */
+export async function getNotificationContact(userId: string | null | undefined): Promise<NotificationContact> {
+  const numericId = userId ? Number(userId) : NaN;
+  if (!Number.isInteger(numericId)) {
+    return { whatsappEnabled: false, defaultChannels: [] };
+  }
+
+  const [user, settings] = await Promise.all([
+    storage.getUser(numericId),
+    storage.getUserSettings(numericId)
+  ]);
+  return {
+    email: settings?.contactEmail || user?.email || undefined,
+    phoneNumber: settings?.whatsappNumber || settings?.contactPhone || undefined,
+    whatsappEnabled: settings?.enableWhatsappNotifications ?? false,
+    defaultChannels: settings?.defaultNotificationChannels ?? []
+  };
+}
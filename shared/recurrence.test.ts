@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { type TaskRecurrence } from "./schema";
+import { occursOn, getOccurrenceDates, getOccurrences, isOccurrenceCompleted } from "./recurrence";
+
+describe("occurrence generation", () => {
+  it("repeats a daily rule every day between its start and end dates", () => {
+    const daily: TaskRecurrence = { frequency: "daily", startDate: "2026-03-02", endDate: "2026-03-04" };
+
+    expect(getOccurrenceDates(daily, "2026-03-01", "2026-03-06")).toEqual(["2026-03-02", "2026-03-03", "2026-03-04"]);
+    expect(occursOn(daily, "2026-03-01")).toBe(false);
+    expect(occursOn(daily, "2026-03-05")).toBe(false);
+  });
+
+  it("repeats a weekly rule on its days only", () => {
+    // 2026-03-02 is a Monday
+    const weekly: TaskRecurrence = { frequency: "weekly", startDate: "2026-03-02", days: ["monday", "thursday"] };
+
+    expect(getOccurrenceDates(weekly, "2026-03-01", "2026-03-15")).toEqual([
+      "2026-03-02", "2026-03-05", "2026-03-09", "2026-03-12"
+    ]);
+    expect(occursOn(weekly, "2026-03-03")).toBe(false);
+  });
+});
+
+describe("occurrence completion", () => {
+  const task = {
+    recurrence: { frequency: "daily", startDate: "2026-03-02" } as TaskRecurrence,
+    occurrences: [{ date: "2026-03-03", completedAt: "2026-03-03T18:00:00.000Z" }]
+  };
+
+  it("tracks each occurrence separately", () => {
+    expect(isOccurrenceCompleted(task, "2026-03-03")).toBe(true);
+    expect(isOccurrenceCompleted(task, "2026-03-02")).toBe(false);
+    expect(isOccurrenceCompleted({}, "2026-03-03")).toBe(false);
+  });
+
+  it("lists occurrences with their completion state", () => {
+    expect(getOccurrences(task, "2026-03-02", "2026-03-04")).toEqual([
+      { date: "2026-03-02", completed: false, completedAt: null },
+      { date: "2026-03-03", completed: true, completedAt: "2026-03-03T18:00:00.000Z" },
+      { date: "2026-03-04", completed: false, completedAt: null }
+    ]);
+  });
+});
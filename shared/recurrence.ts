@@ -0,0 +1,114 @@
+import type { Task, TaskRecurrence, TaskOccurrenceInstance, Weekday } from "./schema";
+
+// Number of days of occurrences listed by default
+export const DEFAULT_OCCURRENCE_DAYS = 30;
+export const MAX_OCCURRENCE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since 1970-01-01 of a YYYY-MM-DD day
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * The day (YYYY-MM-DD) a number of days after another one, or before it for a negative number
+ */
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(dayNumber(date) + days);
+}
+
+/**
+ * The number of days from one day (YYYY-MM-DD) to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+/**
+ * A day as YYYY-MM-DD in the local time zone (of the browser, or of the server)
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Whether a recurring task has an occurrence on a day (YYYY-MM-DD)
+ */
+export function occursOn(recurrence: TaskRecurrence, date: string): boolean {
+  if (date < recurrence.startDate || (recurrence.endDate && date > recurrence.endDate)) return false;
+
+  // Only types are imported from the schema, so the client can use this module without bundling it
+  const weekday = new Date(`${date}T00:00:00Z`)
+    .toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" })
+    .toLowerCase() as Weekday;
+  switch (recurrence.frequency) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return weekday !== "saturday" && weekday !== "sunday";
+    case "weekly":
+      return (recurrence.days ?? []).includes(weekday);
+    case "interval":
+      return (dayNumber(date) - dayNumber(recurrence.startDate)) % (recurrence.intervalDays ?? 1) === 0;
+  }
+}
+
+/**
+ * The days a recurring task occurs on, from one day to another (inclusive)
+ */
+export function getOccurrenceDates(recurrence: TaskRecurrence, from: string, to: string): string[] {
+  const dates: string[] = [];
+  const start = Math.max(dayNumber(from), dayNumber(recurrence.startDate));
+  const end = recurrence.endDate ? Math.min(dayNumber(to), dayNumber(recurrence.endDate)) : dayNumber(to);
+  for (let day = start; day <= end; day++) {
+    const date = fromDayNumber(day);
+    if (occursOn(recurrence, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Whether a recurring task's occurrence on a day has been completed
+ */
+export function isOccurrenceCompleted(task: Pick<Task, "occurrences">, date: string): boolean {
+  return (task.occurrences ?? []).some(occurrence => occurrence.date === date);
+}
+
+/**
+ * A recurring task's occurrences from one day to another, with their completion state
+ */
+export function getOccurrences(
+  task: Pick<Task, "recurrence" | "occurrences">,
+  from: string,
+  to: string
+): TaskOccurrenceInstance[] {
+  if (!task.recurrence) return [];
+
+  return getOccurrenceDates(task.recurrence, from, to).map(date => {
+    const completed = (task.occurrences ?? []).find(occurrence => occurrence.date === date);
+    return { date, completed: !!completed, completedAt: completed ? completed.completedAt : null };
+  });
+}
+
+/**
+ * Describe a recurrence rule for display, e.g. "Every 3 days" or "Weekly on Monday, Thursday"
+ */
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  switch (recurrence.frequency) {
+    case "daily":
+      return "Daily";
+    case "weekdays":
+      return "Every weekday";
+    case "weekly":
+      return `Weekly on ${(recurrence.days ?? []).map(day => day[0].toUpperCase() + day.slice(1)).join(", ")}`;
+    case "interval":
+      return recurrence.intervalDays === 1 ? "Daily" : `Every ${recurrence.intervalDays} days`;
+  }
+}
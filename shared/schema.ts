@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +7,7 @@ export const subtasks = z.object({
   id: z.string(),
   title: z.string(),
   completed: z.boolean().default(false),
+  completedAt: z.string().optional(), // ISO timestamp of when it was completed
   estimatedMinutes: z.number().optional(),
   context: z.string().optional(), // Additional context about the subtask
   dueDate: z.string().optional(), // ISO string format for due date
@@ -14,22 +16,57 @@ export const subtasks = z.object({
 
 export type Subtask = z.infer<typeof subtasks>;
 
+export const weekdays = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type Weekday = typeof weekdays[number];
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+// How a recurring task repeats. Each occurrence is a calendar day, completed on its own.
+export const taskRecurrence = z.object({
+  frequency: z.enum(["daily", "weekdays", "weekly", "interval"]),
+  days: z.array(z.enum(weekdays)).optional(), // weekly: the days of the week it repeats on
+  intervalDays: z.number().int().positive().optional(), // interval: repeats every N days from the start date
+  startDate: dateString, // The first day it can occur
+  endDate: dateString.optional(), // The last day it can occur
+}).refine(recurrence => recurrence.frequency !== "weekly" || (recurrence.days?.length ?? 0) > 0, {
+  message: "Weekly recurrence needs at least one day",
+  path: ["days"],
+}).refine(recurrence => recurrence.frequency !== "interval" || recurrence.intervalDays !== undefined, {
+  message: "Interval recurrence needs intervalDays",
+  path: ["intervalDays"],
+});
+
+export type TaskRecurrence = z.infer<typeof taskRecurrence>;
+
+// A completed occurrence of a recurring task
+export const taskOccurrence = z.object({
+  date: dateString,
+  completedAt: z.string(), // ISO timestamp
+});
+
+export type TaskOccurrence = z.infer<typeof taskOccurrence>;
+
 export const tasks = z.object({
   id: z.string(),
   title: z.string(),
   completed: z.boolean().default(false),
+  completedAt: z.string().optional(), // ISO timestamp of when it was completed
   subtasks: z.array(subtasks).default([]),
   estimatedMinutes: z.number().optional(),
   complexity: z.enum(['low', 'medium', 'high']).optional(),
   context: z.string().optional(), // Additional context about the task
   actionItems: z.array(z.string()).optional(), // Specific action items for this task
+  dependsOn: z.array(z.string()).optional(), // Ids of the goal's tasks that must be completed first
   dueDate: z.string().optional(), // ISO string format for due date
   addedToCalendar: z.boolean().default(false), // Whether it's been added to calendar
   reminderEnabled: z.boolean().default(false), // Whether to send reminder notifications
-  reminderTime: z.string().optional(), // ISO string format for reminder time
+  reminderTime: z.string().optional(), // Time of day (HH:MM) or ISO string for the reminder
   enableWhatsapp: z.boolean().default(false), // Whether to send WhatsApp reminders
   whatsappNumber: z.string().optional(), // User's WhatsApp number
   reminderFrequency: z.enum(['daily', 'weekly', 'task-only']).optional(), // How often to send reminders
+  reminderDays: z.array(z.string()).optional(), // Days of the week for weekly reminders (e.g. "monday")
+  recurrence: taskRecurrence.nullable().optional(), // Makes the task repeat (null to stop)
+  occurrences: z.array(taskOccurrence).optional(), // Completed occurrences of a recurring task, oldest first
 });
 
 export type Task = z.infer<typeof tasks>;
@@ -57,13 +94,37 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export const notificationChannels = ["slack", "email", "whatsapp"] as const;
+export const reminderFrequencies = ["daily", "weekly", "task-only"] as const;
+export type NotificationChannelName = typeof notificationChannels[number];
+export type ReminderFrequency = typeof reminderFrequencies[number];
+
+// User settings table - a user's contact details and notification preferences, one row per user
+export const userSettings = pgTable("user_settings", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  contactEmail: text("contact_email"), // Used instead of the account email when set
+  contactPhone: text("contact_phone"),
+  whatsappNumber: text("whatsapp_number"), // Falls back to the contact phone
+  enableWhatsappNotifications: boolean("enable_whatsapp_notifications").notNull().default(false),
+  defaultNotificationChannels: jsonb("default_notification_channels").$type<NotificationChannelName[]>().notNull().default([]),
+  // Defaults for task reminders that don't set their own
+  reminderFrequency: text("reminder_frequency").$type<ReminderFrequency>(),
+  reminderTime: text("reminder_time"), // HH:MM
+  reminderDays: jsonb("reminder_days").$type<Weekday[]>(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type UserSettings = typeof userSettings.$inferSelect;
+export type UserSettingsUpdate = Partial<Omit<UserSettings, "userId" | "updatedAt">>;
+
 // Goals table
 export const goals = pgTable("goals", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   userId: text("user_id").default("anonymous"),
   progress: integer("progress").default(0),
-  tasks: jsonb("tasks").notNull().$type<Task[]>(),
+  // Tasks used to be stored here as JSON. Kept until `npm run db:migrate-tasks` moves them to the tasks table.
+  legacyTasks: jsonb("tasks").$type<Task[]>(),
   createdAt: text("created_at").notNull(),  // Changed to text for compatibility
   totalEstimatedMinutes: integer("total_estimated_minutes"),
   timeConstraintMinutes: integer("time_constraint_minutes"),
@@ -75,12 +136,371 @@ export const goals = pgTable("goals", {
   complexity: text("complexity"), // Priority: high, medium, low
 });
 
+// Tasks table - a goal's tasks, in the order given by position
+export const goalTasks = pgTable("tasks", {
+  id: text("id").primaryKey(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  completed: boolean("completed").notNull().default(false),
+  completedAt: timestamp("completed_at"),
+  estimatedMinutes: integer("estimated_minutes"),
+  complexity: text("complexity").$type<"low" | "medium" | "high">(),
+  context: text("context"),
+  actionItems: jsonb("action_items").$type<string[]>(),
+  dependsOn: jsonb("depends_on").$type<string[]>(),
+  dueDate: text("due_date"), // ISO string format
+  addedToCalendar: boolean("added_to_calendar").notNull().default(false),
+  reminderEnabled: boolean("reminder_enabled").notNull().default(false),
+  reminderTime: text("reminder_time"),
+  enableWhatsapp: boolean("enable_whatsapp").notNull().default(false),
+  whatsappNumber: text("whatsapp_number"),
+  reminderFrequency: text("reminder_frequency").$type<"daily" | "weekly" | "task-only">(),
+  reminderDays: jsonb("reminder_days").$type<string[]>(),
+  recurrence: jsonb("recurrence").$type<TaskRecurrence>(),
+}, (table) => [
+  index("tasks_goal_position_idx").on(table.goalId, table.position),
+  index("tasks_due_date_idx").on(table.dueDate),
+  index("tasks_completed_at_idx").on(table.completedAt),
+]);
+
+export type GoalTaskRow = typeof goalTasks.$inferSelect;
+
+// Subtasks table - a task's subtasks, in the order given by position
+export const goalSubtasks = pgTable("subtasks", {
+  id: text("id").primaryKey(),
+  taskId: text("task_id").notNull().references(() => goalTasks.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  completed: boolean("completed").notNull().default(false),
+  completedAt: timestamp("completed_at"),
+  estimatedMinutes: integer("estimated_minutes"),
+  context: text("context"),
+  dueDate: text("due_date"), // ISO string format
+  addedToCalendar: boolean("added_to_calendar").notNull().default(false),
+}, (table) => [
+  index("subtasks_task_position_idx").on(table.taskId, table.position),
+]);
+
+export type GoalSubtaskRow = typeof goalSubtasks.$inferSelect;
+
+// Task occurrences table - the completed occurrences of recurring tasks, one row per task and day
+export const taskOccurrences = pgTable("task_occurrences", {
+  id: serial("id").primaryKey(),
+  taskId: text("task_id").notNull().references(() => goalTasks.id, { onDelete: "cascade" }),
+  date: text("date").notNull(), // YYYY-MM-DD
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("task_occurrences_task_date_idx").on(table.taskId, table.date),
+]);
+
+export type TaskOccurrenceRow = typeof taskOccurrences.$inferSelect;
+
+export const goalsRelations = relations(goals, ({ many }) => ({
+  tasks: many(goalTasks),
+}));
+
+export const goalTasksRelations = relations(goalTasks, ({ one, many }) => ({
+  goal: one(goals, { fields: [goalTasks.goalId], references: [goals.id] }),
+  subtasks: many(goalSubtasks),
+  occurrences: many(taskOccurrences),
+}));
+
+export const goalSubtasksRelations = relations(goalSubtasks, ({ one }) => ({
+  task: one(goalTasks, { fields: [goalSubtasks.taskId], references: [goalTasks.id] }),
+}));
+
+export const taskOccurrencesRelations = relations(taskOccurrences, ({ one }) => ({
+  task: one(goalTasks, { fields: [taskOccurrences.taskId], references: [goalTasks.id] }),
+}));
+
 export const insertGoalSchema = createInsertSchema(goals).omit({
   id: true,
+  legacyTasks: true,
+}).extend({
+  // drizzle-zod infers loose types for jsonb columns
+  tasks: z.array(tasks),
+  notificationChannels: z.array(z.string()).nullable().optional(),
 });
 
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
-export type Goal = typeof goals.$inferSelect;
+// API shape of a goal: tasks and subtasks are nested, as they were when stored as JSON
+export type Goal = Omit<typeof goals.$inferSelect, "legacyTasks"> & { tasks: Task[] };
+
+// Editable fields of a task or subtask. Completion has its own methods because it changes the goal's progress.
+export type TaskUpdate = Partial<Omit<Task, "id" | "subtasks" | "completed" | "completedAt" | "occurrences">>;
+export type SubtaskUpdate = Partial<Omit<Subtask, "id" | "completed" | "completedAt">>;
+
+// Whether a task can be worked on: done, ready (every task it depends on is done) or blocked
+export type TaskState = "done" | "ready" | "blocked";
+
+// A task that is due, with the goal it belongs to
+export interface DueTask {
+  goalId: number;
+  goalTitle: string;
+  task: Task;
+  state: TaskState; // For recurring tasks, the state of the day's occurrence
+}
+
+// An occurrence of a recurring task, as generated from its recurrence rule
+export interface TaskOccurrenceInstance {
+  date: string; // YYYY-MM-DD
+  completed: boolean;
+  completedAt: string | null;
+}
+
+// Completions on one day (YYYY-MM-DD)
+export interface DailyCompletions {
+  date: string;
+  completions: number;
+}
+
+// A user's completion streaks: days in a row on which they completed at least one task or subtask
+export interface ActivityStats {
+  currentStreak: number;
+  longestStreak: number;
+  totalCompletions: number;
+  days: DailyCompletions[]; // The most recent days, oldest first, including days without completions
+}
+
+export type TaskComplexity = NonNullable<Task["complexity"]>;
+
+// How long a user's completed tasks actually took compared to their estimates
+export interface EstimateRatio {
+  ratio: number; // Actual time divided by estimated time, e.g. 1.5 when tasks take half again as long
+  sampleCount: number; // Number of completed tasks it's based on
+}
+
+// A user's estimate ratios overall and by task complexity; null or missing until there are enough completed tasks
+export interface EstimateCalibration {
+  overall: EstimateRatio | null;
+  byComplexity: Partial<Record<TaskComplexity, EstimateRatio>>;
+}
+
+// Goal journal table - append-only history of a goal's progress updates, roadblocks and task completions
+export const goalJournalEntryTypes = ["progress_update", "roadblock", "roadblock_resolved", "task_completed"] as const;
+export type GoalJournalEntryType = typeof goalJournalEntryTypes[number];
+
+export const goalJournalEntries = pgTable("goal_journal_entries", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  type: text("type").notNull().$type<GoalJournalEntryType>(),
+  message: text("message").notNull(),
+  taskId: text("task_id"), // The completed task, for task_completed entries
+  roadblockId: integer("roadblock_id"), // The roadblock, for roadblock and roadblock_resolved entries
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("goal_journal_entries_goal_idx").on(table.goalId),
+]);
+
+export type InsertGoalJournalEntry = Omit<typeof goalJournalEntries.$inferInsert, "id" | "createdAt">;
+export type GoalJournalEntry = typeof goalJournalEntries.$inferSelect;
+
+// Roadblocks table - obstacles reported on a goal, from report to resolution
+export const roadblockSeverities = ["low", "medium", "high"] as const;
+export const roadblockStatuses = ["open", "mitigating", "resolved"] as const;
+export type RoadblockSeverity = typeof roadblockSeverities[number];
+export type RoadblockStatus = typeof roadblockStatuses[number];
+
+export const goalRoadblocks = pgTable("roadblocks", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  blockedTaskIds: jsonb("blocked_task_ids").notNull().default([]).$type<string[]>(),
+  severity: text("severity").notNull().default("medium").$type<RoadblockSeverity>(),
+  status: text("status").notNull().default("open").$type<RoadblockStatus>(),
+  needsHelp: boolean("needs_help").notNull().default(false),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  escalatedAt: timestamp("escalated_at"), // When the user asked for help
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  index("roadblocks_goal_idx").on(table.goalId),
+]);
+
+export type InsertRoadblock = Omit<typeof goalRoadblocks.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type Roadblock = typeof goalRoadblocks.$inferSelect;
+export type RoadblockUpdate = Partial<Pick<Roadblock, "description" | "blockedTaskIds" | "severity" | "status" | "resolutionNote" | "resolvedAt">>;
+
+// A journal entry as shown in a goal's timeline, with the current state of its roadblock
+export type GoalTimelineEntry = GoalJournalEntry & { roadblock?: Roadblock };
+
+// Time entries table - time spent on a task or subtask, tracked with a start/stop timer
+export const timeEntries = pgTable("time_entries", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  taskId: text("task_id").notNull(),
+  subtaskId: text("subtask_id"), // Set when the time was spent on one of the task's subtasks
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  stoppedAt: timestamp("stopped_at"), // Null while the timer is running
+  durationSeconds: integer("duration_seconds"), // Set when the timer is stopped
+}, (table) => [
+  index("time_entries_goal_idx").on(table.goalId),
+  // A user times one thing at a time
+  uniqueIndex("time_entries_running_idx").on(table.userId).where(sql`${table.stoppedAt} is null`),
+]);
+
+export type InsertTimeEntry = Omit<typeof timeEntries.$inferInsert, "id" | "startedAt" | "stoppedAt" | "durationSeconds">;
+export type TimeEntry = typeof timeEntries.$inferSelect;
+
+// Estimated against actual time for a task or subtask
+export interface TimeReportItem {
+  id: string;
+  title: string;
+  estimatedMinutes: number | null;
+  actualMinutes: number;
+}
+
+// A task's actual time includes the time spent on its subtasks
+export interface TaskTimeReport extends TimeReportItem {
+  subtasks: TimeReportItem[];
+}
+
+export interface GoalTimeReport {
+  goalId: number;
+  estimatedMinutes: number | null;
+  actualMinutes: number; // All time tracked on the goal, including on tasks that have since been removed
+  tasks: TaskTimeReport[];
+}
+
+// Focus sessions table - Pomodoro-style work/break intervals spent on a task or subtask
+export const focusSessions = pgTable("focus_sessions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  taskId: text("task_id").notNull(),
+  subtaskId: text("subtask_id"), // Set when the session was spent on one of the task's subtasks
+  workMinutes: integer("work_minutes").notNull(), // Length of each work interval
+  breakMinutes: integer("break_minutes").notNull(), // Length of the break after each work interval
+  completedIntervals: integer("completed_intervals").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at").notNull().defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"), // Set once the coach has mentioned the session
+}, (table) => [
+  index("focus_sessions_goal_idx").on(table.goalId),
+  index("focus_sessions_user_idx").on(table.userId),
+]);
+
+export type InsertFocusSession = Omit<typeof focusSessions.$inferInsert, "id" | "endedAt" | "acknowledgedAt">;
+export type FocusSession = typeof focusSessions.$inferSelect;
+
+// Reminder deliveries table - one row per reminder occurrence that has been sent
+export const reminderDeliveries = pgTable("reminder_deliveries", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull(),
+  taskId: text("task_id").notNull(),
+  occurrenceKey: text("occurrence_key").notNull(), // Scheduled time (ISO) of a one-off reminder, or the local date (YYYY-MM-DD) of the occurrence
+  channels: jsonb("channels").$type<string[]>(),
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("reminder_deliveries_task_occurrence_idx").on(table.taskId, table.occurrenceKey),
+]);
+
+export type InsertReminderDelivery = Omit<typeof reminderDeliveries.$inferInsert, "id" | "sentAt">;
+export type ReminderDelivery = typeof reminderDeliveries.$inferSelect;
+
+// Digest deliveries table - one row per user and day a daily digest has been sent
+export const digestDeliveries = pgTable("digest_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  dateKey: text("date_key").notNull(), // The local date (YYYY-MM-DD) of the digest
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("digest_deliveries_user_date_idx").on(table.userId, table.dateKey),
+]);
+
+export type DigestDelivery = typeof digestDeliveries.$inferSelect;
+
+// Notification outbox table - every notification sent, queued until it's delivered or out of attempts
+export const notificationStatuses = ["pending", "sent", "failed"] as const;
+export type NotificationStatus = typeof notificationStatuses[number];
+
+// A notification as rendered for its channel: emails add a subject and HTML to the text, Slack messages add blocks
+export interface NotificationPayload {
+  text: string;
+  subject?: string;
+  html?: string;
+  blocks?: unknown[];
+}
+
+export const notificationOutbox = pgTable("notification_outbox", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id"), // The user it's for; null for goals of signed-out users
+  goalId: integer("goal_id"), // null for notifications about several goals, e.g. the daily digest
+  eventType: text("event_type").notNull(), // goalCreated, taskCompleted, ...
+  channel: text("channel").notNull().$type<NotificationChannelName>(),
+  recipient: text("recipient"), // Email address or phone number; null for Slack, which posts to the team channel
+  summary: text("summary").notNull(),
+  payload: jsonb("payload").notNull().$type<NotificationPayload>(),
+  status: text("status").notNull().default("pending").$type<NotificationStatus>(),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  index("notification_outbox_due_idx").on(table.status, table.nextAttemptAt),
+  index("notification_outbox_user_idx").on(table.userId),
+]);
+
+export type InsertOutboxNotification = Omit<typeof notificationOutbox.$inferInsert, "id" | "status" | "attempts" | "lastError" | "nextAttemptAt" | "createdAt" | "sentAt">;
+export type OutboxNotification = typeof notificationOutbox.$inferSelect;
+export type OutboxNotificationUpdate = Partial<Pick<OutboxNotification, "status" | "attempts" | "lastError" | "nextAttemptAt" | "sentAt">>;
+
+// A notification in a user's delivery log
+export type NotificationLogEntry = Omit<OutboxNotification, "payload">;
+
+// How many of a user's notifications are pending, sent and failed on each channel
+export type NotificationDeliveryCounts = Record<NotificationChannelName, Record<NotificationStatus, number>>;
+
+export interface NotificationDeliveryLog {
+  counts: NotificationDeliveryCounts;
+  entries: NotificationLogEntry[]; // Newest first
+}
+
+// Coach conversations table - a chat thread between a user and the AI coach
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  goalId: integer("goal_id"), // Set when the conversation is about a specific goal
+  title: text("title"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type InsertConversation = Omit<typeof conversations.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type Conversation = typeof conversations.$inferSelect;
+
+// Coach conversation messages table
+export const conversationMessages = pgTable("conversation_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  role: text("role").notNull().$type<"user" | "assistant">(),
+  content: text("content").notNull(),
+  type: text("type"), // Coach response type (task-suggestion, encouragement, ...)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type InsertConversationMessage = Omit<typeof conversationMessages.$inferInsert, "id" | "createdAt">;
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+
+// Pending coach actions table - destructive changes proposed by the coach that need the user's approval
+export const pendingCoachActions = pgTable("pending_coach_actions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  conversationId: integer("conversation_id"),
+  tool: text("tool").notNull(), // Coach tool to run once approved, e.g. delete_goal
+  arguments: jsonb("arguments").notNull().$type<Record<string, unknown>>(),
+  summary: text("summary").notNull(),
+  status: text("status").notNull().default("pending").$type<"pending" | "approved" | "rejected">(),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export type InsertPendingCoachAction = Omit<typeof pendingCoachActions.$inferInsert, "status" | "createdAt" | "resolvedAt">;
+export type PendingCoachAction = typeof pendingCoachActions.$inferSelect;
 
 // API schema for goal creation
 export const createGoalSchema = z.object({
@@ -88,17 +508,38 @@ export const createGoalSchema = z.object({
   timeConstraintMinutes: z.number().optional(),
   additionalInfo: z.string().optional(),
   notificationChannels: z.array(z.string()).optional(),
-  contactEmail: z.string().email().optional(),
-  contactPhone: z.string().optional(),
 });
 
 export type CreateGoalRequest = z.infer<typeof createGoalSchema>;
 
+// API schema for updating a goal's details. Its tasks are changed through the task endpoints, one task at a time.
+export const updateGoalSchema = z.object({
+  title: z.string().min(3, "Goal must be at least 3 characters").optional(),
+  timeConstraintMinutes: z.number().int().positive().nullable().optional(),
+  additionalInfo: z.string().nullable().optional(),
+  notificationChannels: z.array(z.enum(notificationChannels)).optional(),
+  complexity: z.enum(["low", "medium", "high"]).nullable().optional(),
+});
+
+export type UpdateGoalRequest = z.infer<typeof updateGoalSchema>;
+
+// API schema for adding a task to a goal
+export const addTaskSchema = z.object({
+  title: z.string().trim().min(1, "Task title is required"),
+  complexity: z.enum(["low", "medium", "high"]).optional(),
+  estimatedMinutes: z.number().int().positive().optional(),
+  context: z.string().optional(),
+  dueDate: z.string().optional(),
+});
+
+export type AddTaskRequest = z.infer<typeof addTaskSchema>;
+
 // API schema for task completion
 export const updateTaskSchema = z.object({
   goalId: z.number(),
   taskId: z.string(),
   completed: z.boolean(),
+  date: dateString.optional(), // For recurring tasks: the occurrence to complete (default today)
 });
 
 export type UpdateTaskRequest = z.infer<typeof updateTaskSchema>;
@@ -126,8 +567,122 @@ export type ProgressUpdateRequest = z.infer<typeof progressUpdateSchema>;
 export const roadblockSchema = z.object({
   goalId: z.number(),
   description: z.string().min(3, "Description must be at least 3 characters"),
-  needsHelp: z.boolean().optional(),
+  blockedTaskIds: z.array(z.string()).optional(), // Tasks that can't move forward until this is resolved
+  severity: z.enum(roadblockSeverities).optional(),
+  needsHelp: z.boolean().optional(), // Escalates the roadblock to the goal's notification channels
   notifyChannels: z.array(z.string()).optional(),
 });
 
 export type RoadblockRequest = z.infer<typeof roadblockSchema>;
+
+// Schema for updating a reported roadblock, e.g. to resolve it
+export const updateRoadblockSchema = z.object({
+  status: z.enum(roadblockStatuses).optional(),
+  severity: z.enum(roadblockSeverities).optional(),
+  blockedTaskIds: z.array(z.string()).optional(),
+  resolutionNote: z.string().optional(), // How the roadblock was resolved
+});
+
+export type UpdateRoadblockRequest = z.infer<typeof updateRoadblockSchema>;
+
+// Blank fields clear the setting
+function clearable<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(value => value === "" ? null : value, schema.nullable().optional());
+}
+
+const phoneNumber = z.string().trim().regex(/^\+?[\d\s().-]{7,20}$/, "Phone numbers must be in international format, e.g. +15555555555");
+
+// Schema for updating a user's settings; only the fields given are changed
+export const updateUserSettingsSchema = z.object({
+  contactEmail: clearable(z.string().trim().email()),
+  contactPhone: clearable(phoneNumber),
+  whatsappNumber: clearable(phoneNumber),
+  enableWhatsappNotifications: z.boolean().optional(),
+  defaultNotificationChannels: z.array(z.enum(notificationChannels)).optional(),
+  reminderFrequency: clearable(z.enum(reminderFrequencies)),
+  reminderTime: clearable(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Reminder times must be in HH:MM format")),
+  reminderDays: clearable(z.array(z.enum(weekdays))),
+});
+
+export type UpdateUserSettingsRequest = z.infer<typeof updateUserSettingsSchema>;
+
+// Schema for filtering the notification delivery log (query string)
+export const notificationLogQuerySchema = z.object({
+  channel: z.enum(notificationChannels).optional(),
+  status: z.enum(notificationStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type NotificationLogQuery = z.infer<typeof notificationLogQuerySchema>;
+
+// Schema for starting a timer on a task or subtask
+export const startTimerSchema = z.object({
+  taskId: z.string(),
+  subtaskId: z.string().optional(),
+});
+
+export type StartTimerRequest = z.infer<typeof startTimerSchema>;
+
+// Schema for logging a finished focus session
+export const logFocusSessionSchema = z.object({
+  taskId: z.string(),
+  subtaskId: z.string().optional(),
+  workMinutes: z.number().int().min(1).max(120),
+  breakMinutes: z.number().int().min(0).max(60),
+  completedIntervals: z.number().int().min(1).max(24),
+  startedAt: z.coerce.date(),
+  markDone: z.boolean().optional(), // Complete the subtask (or the task) the session was spent on
+});
+
+export type LogFocusSessionRequest = z.infer<typeof logFocusSessionSchema>;
+
+// Schemas for actions the AI coach can take from chat (tool-call arguments)
+const coachTaskFields = {
+  title: z.string().min(1, "Task title is required"),
+  estimatedMinutes: z.number().int().positive().optional(),
+  complexity: z.enum(['low', 'medium', 'high']).optional(),
+  context: z.string().optional(),
+  dueDate: z.string().optional(), // ISO date (YYYY-MM-DD)
+};
+
+export const coachCreateGoalSchema = z.object({
+  title: z.string().min(3, "Goal must be at least 3 characters"),
+  tasks: z.array(z.object(coachTaskFields)).default([]),
+});
+
+export const coachAddTaskSchema = z.object({
+  goalId: z.number().int(),
+  ...coachTaskFields,
+});
+
+export const coachUpdateTaskSchema = z.object({
+  goalId: z.number().int(),
+  taskId: z.string(),
+  title: coachTaskFields.title.optional(),
+  estimatedMinutes: coachTaskFields.estimatedMinutes,
+  complexity: coachTaskFields.complexity,
+  context: coachTaskFields.context,
+  dueDate: coachTaskFields.dueDate,
+});
+
+export const coachCompleteTaskSchema = z.object({
+  goalId: z.number().int(),
+  taskId: z.string(),
+  completed: z.boolean().default(true),
+});
+
+export const coachRemoveTaskSchema = z.object({
+  goalId: z.number().int(),
+  taskId: z.string(),
+});
+
+export const coachDeleteGoalSchema = z.object({
+  goalId: z.number().int(),
+});
+
+export type CoachCreateGoalArgs = z.infer<typeof coachCreateGoalSchema>;
+export type CoachAddTaskArgs = z.infer<typeof coachAddTaskSchema>;
+export type CoachUpdateTaskArgs = z.infer<typeof coachUpdateTaskSchema>;
+export type CoachCompleteTaskArgs = z.infer<typeof coachCompleteTaskSchema>;
+export type CoachRemoveTaskArgs = z.infer<typeof coachRemoveTaskSchema>;
+export type CoachDeleteGoalArgs = z.infer<typeof coachDeleteGoalSchema>;
@@ -0,0 +1,73 @@
+import type { Task, TaskState } from "./schema";
+
+type DependencyFields = Pick<Task, "id" | "completed" | "dependsOn">;
+
+/**
+ * The prerequisites of a task that aren't completed yet.
+ * Dependencies on tasks that no longer exist are ignored.
+ */
+export function getBlockingTasks<T extends DependencyFields>(tasks: T[], task: DependencyFields): T[] {
+  const dependsOn = task.dependsOn ?? [];
+  return tasks.filter(t => dependsOn.includes(t.id) && !t.completed);
+}
+
+/**
+ * Compute whether a task is done, ready to start, or blocked by unfinished prerequisites
+ */
+export function getTaskState(tasks: DependencyFields[], task: DependencyFields): TaskState {
+  if (task.completed) return "done";
+  return getBlockingTasks(tasks, task).length > 0 ? "blocked" : "ready";
+}
+
+/**
+ * Find a dependency cycle among a goal's tasks
+ * @returns The ids of the tasks in the cycle, in dependency order, or null if there is none
+ */
+export function findDependencyCycle(tasks: Pick<Task, "id" | "dependsOn">[]): string[] | null {
+  const dependsOn = new Map(tasks.map(task => [task.id, task.dependsOn ?? []]));
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const index = path.indexOf(id);
+    if (index !== -1) return path.slice(index);
+    if (visited.has(id) || !dependsOn.has(id)) return null;
+
+    visited.add(id);
+    path.push(id);
+    for (const dependency of dependsOn.get(id)!) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Check that tasks only depend on other tasks of the same goal, without cycles
+ * @returns A description of the first problem found, or null if the dependencies are valid
+ */
+export function validateDependencies(tasks: Pick<Task, "id" | "title" | "dependsOn">[]): string | null {
+  const titles = new Map(tasks.map(task => [task.id, task.title]));
+
+  for (const task of tasks) {
+    for (const dependency of task.dependsOn ?? []) {
+      if (dependency === task.id) return `Task "${task.title}" can't depend on itself`;
+      if (!titles.has(dependency)) return `Task "${task.title}" depends on unknown task ${dependency}`;
+    }
+  }
+
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) {
+    const names = [...cycle, cycle[0]].map(id => `"${titles.get(id)}"`);
+    return `Task dependencies can't form a cycle: ${names.join(" -> ")}`;
+  }
+  return null;
+}